@@ -0,0 +1,45 @@
+import type { Attachment } from "@shared/schema";
+import { Download, File, FileArchive, FileText } from "lucide-react";
+
+// Human-readable size, e.g. "1.4 MB"
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+function FileIcon({ contentType }: { contentType: string }) {
+  if (contentType.startsWith("text/") || contentType === "application/pdf") {
+    return <FileText className="h-8 w-8 shrink-0" />;
+  }
+  if (/zip|tar|compressed|archive/.test(contentType)) {
+    return <FileArchive className="h-8 w-8 shrink-0" />;
+  }
+  return <File className="h-8 w-8 shrink-0" />;
+}
+
+// A sent file as shown in the message list; clicking downloads it
+export function AttachmentCard({ attachment }: { attachment: Attachment }) {
+  return (
+    <a
+      href={`/api/attachments/${attachment.id}`}
+      download={attachment.name}
+      className="flex items-center gap-3 rounded-md bg-background/20 p-2 mb-1 hover:bg-background/30 transition-colors"
+    >
+      <FileIcon contentType={attachment.contentType} />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{attachment.name}</p>
+        <p className="text-xs opacity-70">
+          {formatFileSize(attachment.size)} · {attachment.contentType}
+        </p>
+      </div>
+      <Download className="h-4 w-4 shrink-0 opacity-70" />
+    </a>
+  );
+}
@@ -1,25 +1,115 @@
-import { User } from "@shared/schema";
+import { ConversationSummary, PublicUser } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Avatar, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/hooks/use-auth";
+import { useConversations } from "@/hooks/use-conversations";
+import { useBlocks } from "@/hooks/use-blocks";
+import { conversationTitle, otherMember } from "@/lib/conversations";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Users, ChevronLeft, ChevronRight } from "lucide-react";
+import { ReportDialog } from "@/components/report-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Ban,
+  Bell,
+  BellOff,
+  Flag,
+  MessagesSquare,
+  ChevronLeft,
+  ChevronRight,
+  MoreVertical,
+  Plus,
+  Users,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { format } from "date-fns";
 
 interface ChatSidebarProps {
-  onSelectUser: (user: User) => void;
-  selectedUserId?: number;
+  onSelectConversation: (conversationId: number) => void;
+  selectedConversationId?: number;
 }
 
-export function ChatSidebar({ onSelectUser, selectedUserId }: ChatSidebarProps) {
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <p className="px-4 pt-4 pb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+    {children}
+  </p>
+);
+
+export function ChatSidebar({ onSelectConversation, selectedConversationId }: ChatSidebarProps) {
+  const { user } = useAuth();
   const [isExpanded, setIsExpanded] = useState(true);
-  const { data: users = [] } = useQuery<User[]>({
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [reportedUser, setReportedUser] = useState<PublicUser>();
+  const { conversations, joinable, createMutation, joinMutation } = useConversations();
+  const { blockTypeOf, setBlockMutation, unblockMutation } = useBlocks();
+  const isChangingBlock = setBlockMutation.isPending || unblockMutation.isPending;
+  const { data: onlineUsers = [] } = useQuery<PublicUser[]>({
     queryKey: ["/api/users/online"],
   });
 
+  if (!user) return null;
+
+  const onlineIds = new Set(onlineUsers.map((u) => u.id));
+  // Blocked users aren't offered as people to message
+  const onlineOthers = onlineUsers.filter(
+    (u) => u.id !== user.id && blockTypeOf(u.id) !== "block",
+  );
+
+  const startDirect = (peer: PublicUser) => {
+    createMutation.mutate(
+      { type: "direct", userId: peer.id },
+      { onSuccess: (conversation) => onSelectConversation(conversation.id) },
+    );
+  };
+
+  const createGroup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!groupName.trim()) return;
+    createMutation.mutate(
+      { type: "group", name: groupName.trim(), memberIds: [] },
+      {
+        onSuccess: (conversation) => {
+          setIsCreatingGroup(false);
+          setGroupName("");
+          onSelectConversation(conversation.id);
+        },
+      },
+    );
+  };
+
+  const preview = (conversation: ConversationSummary) => {
+    const peer = otherMember(conversation, user.id);
+    if (peer && blockTypeOf(peer.id) === "block") return "Blocked";
+    const message = conversation.lastMessage;
+    if (!message) return "No messages yet";
+    if (message.deletedAt) return "Message deleted";
+    const text = message.imageUrl
+      ? `📷 ${message.content || "Photo"}`
+      : message.content || "📎 Attachment";
+    if (message.senderId === user.id) return `You: ${text}`;
+    if (conversation.type === "group") {
+      const sender = conversation.members.find((m) => m.id === message.senderId);
+      if (sender) return `${sender.username}: ${text}`;
+    }
+    return text;
+  };
+
   return (
     <motion.div
       initial={{ width: "320px" }}
@@ -41,58 +131,246 @@ export function ChatSidebar({ onSelectUser, selectedUserId }: ChatSidebarProps)
       </Button>
 
       <div className="p-4 border-b flex items-center gap-3">
-        <Users className="h-5 w-5" />
+        <MessagesSquare className="h-5 w-5" />
         <AnimatePresence>
           {isExpanded && (
             <motion.h2
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              className="font-semibold"
+              className="font-semibold flex-1"
             >
-              Online Users
+              Conversations
             </motion.h2>
           )}
         </AnimatePresence>
+        {isExpanded && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="mr-4"
+            onClick={() => setIsCreatingGroup(true)}
+            aria-label="New group"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
       <ScrollArea className="h-[calc(100vh-5rem)]">
         <AnimatePresence>
-          {users.map((user) => (
-            <motion.button
-              key={user.id}
-              layout
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              onClick={() => onSelectUser(user)}
-              className={cn(
-                "w-full p-4 flex items-center gap-3 hover:bg-accent/50 transition-colors",
-                selectedUserId === user.id && "bg-accent"
-              )}
-            >
-              <div className="relative">
-                <Avatar>
-                  <AvatarImage src={user.avatarUrl || undefined} />
-                </Avatar>
-                {user.isOnline && (
-                  <span className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-background" />
-                )}
-              </div>
-              {isExpanded && (
-                <div className="flex-1 text-left">
-                  <p className="font-medium">{user.username}</p>
-                  {!user.isOnline && user.lastSeen && (
-                    <p className="text-xs text-muted-foreground">
-                      Last seen {format(new Date(user.lastSeen), "HH:mm")}
-                    </p>
+          {conversations.map((conversation) => {
+            const peer = otherMember(conversation, user.id);
+            const blockType = peer && blockTypeOf(peer.id);
+            return (
+              <motion.div
+                key={conversation.id}
+                layout
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="group relative"
+              >
+                <button
+                  onClick={() => onSelectConversation(conversation.id)}
+                  className={cn(
+                    "w-full p-4 flex items-center gap-3 hover:bg-accent/50 transition-colors",
+                    isExpanded && peer && "pr-12",
+                    selectedConversationId === conversation.id && "bg-accent"
                   )}
-                </div>
-              )}
-            </motion.button>
-          ))}
+                >
+                  <div className="relative">
+                    <Avatar>
+                      {peer && <AvatarImage src={peer.avatarUrl || undefined} />}
+                      <AvatarFallback>
+                        <Users className="h-4 w-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                    {peer && onlineIds.has(peer.id) && (
+                      <span className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-background" />
+                    )}
+                  </div>
+                  {isExpanded && (
+                    <div className="flex-1 min-w-0 text-left">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p className="font-medium flex items-center gap-1 min-w-0">
+                          <span className="truncate">
+                            {conversationTitle(conversation, user.id)}
+                          </span>
+                          {blockType === "mute" && (
+                            <BellOff
+                              className="h-3 w-3 shrink-0 text-muted-foreground"
+                              aria-label="Muted"
+                            />
+                          )}
+                          {blockType === "block" && (
+                            <Ban
+                              className="h-3 w-3 shrink-0 text-destructive"
+                              aria-label="Blocked"
+                            />
+                          )}
+                        </p>
+                        {conversation.lastMessage?.createdAt && (
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {format(new Date(conversation.lastMessage.createdAt), "HH:mm")}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {preview(conversation)}
+                      </p>
+                    </div>
+                  )}
+                </button>
+                {isExpanded && peer && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                        aria-label={`Options for ${peer.username}`}
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {blockType === "mute" && (
+                        <DropdownMenuItem
+                          disabled={isChangingBlock}
+                          onSelect={() => unblockMutation.mutate(peer.id)}
+                        >
+                          <Bell className="mr-2 h-4 w-4" />
+                          Unmute
+                        </DropdownMenuItem>
+                      )}
+                      {!blockType && (
+                        <DropdownMenuItem
+                          disabled={isChangingBlock}
+                          onSelect={() =>
+                            setBlockMutation.mutate({ userId: peer.id, type: "mute" })
+                          }
+                        >
+                          <BellOff className="mr-2 h-4 w-4" />
+                          Mute
+                        </DropdownMenuItem>
+                      )}
+                      {blockType === "block" ? (
+                        <DropdownMenuItem
+                          disabled={isChangingBlock}
+                          onSelect={() => unblockMutation.mutate(peer.id)}
+                        >
+                          <Ban className="mr-2 h-4 w-4" />
+                          Unblock
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          disabled={isChangingBlock}
+                          onSelect={() =>
+                            setBlockMutation.mutate({ userId: peer.id, type: "block" })
+                          }
+                        >
+                          <Ban className="mr-2 h-4 w-4" />
+                          Block
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        className="text-destructive focus:text-destructive"
+                        onSelect={() => setReportedUser(peer)}
+                      >
+                        <Flag className="mr-2 h-4 w-4" />
+                        Report
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </motion.div>
+            );
+          })}
         </AnimatePresence>
+
+        {isExpanded && onlineOthers.length > 0 && (
+          <>
+            <SectionTitle>Online</SectionTitle>
+            {onlineOthers.map((peer) => (
+              <button
+                key={peer.id}
+                onClick={() => startDirect(peer)}
+                disabled={createMutation.isPending}
+                className="w-full px-4 py-2 flex items-center gap-3 hover:bg-accent/50 transition-colors"
+              >
+                <div className="relative">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={peer.avatarUrl || undefined} />
+                  </Avatar>
+                  <span className="absolute bottom-0 right-0 w-2.5 h-2.5 bg-green-500 rounded-full border-2 border-background" />
+                </div>
+                <span className="text-sm truncate">{peer.username}</span>
+              </button>
+            ))}
+          </>
+        )}
+
+        {isExpanded && joinable.length > 0 && (
+          <>
+            <SectionTitle>Groups to join</SectionTitle>
+            {joinable.map((group) => (
+              <div key={group.id} className="px-4 py-2 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{group.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {group.members.length} {group.members.length === 1 ? "member" : "members"}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={joinMutation.isPending}
+                  onClick={() =>
+                    joinMutation.mutate(group.id, {
+                      onSuccess: (conversation) => onSelectConversation(conversation.id),
+                    })
+                  }
+                >
+                  Join
+                </Button>
+              </div>
+            ))}
+          </>
+        )}
       </ScrollArea>
+
+      <Dialog open={isCreatingGroup} onOpenChange={setIsCreatingGroup}>
+        <DialogContent>
+          <form onSubmit={createGroup}>
+            <DialogHeader>
+              <DialogTitle>New group</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              placeholder="Group name"
+              maxLength={64}
+              className="my-4"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!groupName.trim() || createMutation.isPending}>
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {reportedUser && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReportedUser(undefined)}
+          user={reportedUser}
+        />
+      )}
     </motion.div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import type { DeviceKey } from "@shared/schema";
+import { useDeviceLink } from "@/hooks/use-identity";
+import { deviceCode, getDevicePublicKey } from "@/lib/e2ee";
+import { useAuth } from "@/hooks/use-auth";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { KeyRound, ShieldAlert } from "lucide-react";
+
+// Short code for a device key, shown on both devices while linking
+function useDeviceCode(publicKey?: string) {
+  const [code, setCode] = useState<string>();
+  useEffect(() => {
+    if (publicKey) deviceCode(publicKey).then(setCode).catch(console.error);
+  }, [publicKey]);
+  return code;
+}
+
+function PendingDevice({ device, onApprove, disabled }: {
+  device: DeviceKey;
+  onApprove: () => void;
+  disabled: boolean;
+}) {
+  const code = useDeviceCode(device.publicKey);
+  return (
+    <div className="flex items-center justify-between gap-2 mt-2">
+      <span className="text-sm">
+        Device code <span className="font-mono font-semibold">{code ?? "…"}</span>
+      </span>
+      <Button size="sm" onClick={onApprove} disabled={disabled}>
+        Link device
+      </Button>
+    </div>
+  );
+}
+
+export function DeviceLinkBanner() {
+  const { user } = useAuth();
+  const { status, error, approveMutation, resetMutation } = useDeviceLink();
+  const [ownPublicKey, setOwnPublicKey] = useState<string>();
+  const ownCode = useDeviceCode(ownPublicKey);
+
+  useEffect(() => {
+    if (!user || status?.linked !== false) return;
+    getDevicePublicKey(user.id).then(setOwnPublicKey).catch(console.error);
+  }, [user, status?.linked]);
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="m-2 sm:m-4 w-auto">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Encryption unavailable</AlertTitle>
+        <AlertDescription>
+          This device couldn't set up end-to-end encryption: {error.message}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status && !status.linked) {
+    return (
+      <Alert className="m-2 sm:m-4 w-auto">
+        <KeyRound className="h-4 w-4" />
+        <AlertTitle>Link this device</AlertTitle>
+        <AlertDescription>
+          <p>
+            Open Safe-massage on a device you already use and link the device with code{" "}
+            <span className="font-mono font-semibold">{ownCode ?? "…"}</span>. Until then
+            this device can't read or send direct messages.
+          </p>
+          <p className="mt-2 text-muted-foreground">
+            Lost your other devices? Resetting your identity unlinks them and warns your
+            contacts that your key changed.
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            className="mt-2"
+            disabled={resetMutation.isPending}
+            onClick={() => resetMutation.mutate()}
+          >
+            Reset identity
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status?.canLinkDevices && status.pendingDevices.length > 0) {
+    return (
+      <Alert className="m-2 sm:m-4 w-auto">
+        <KeyRound className="h-4 w-4" />
+        <AlertTitle>New device waiting to be linked</AlertTitle>
+        <AlertDescription>
+          Only link a device if you just signed in on it and it shows the same code.
+          {status.pendingDevices.map((device) => (
+            <PendingDevice
+              key={device.deviceId}
+              device={device}
+              disabled={approveMutation.isPending}
+              onApprove={() => approveMutation.mutate(device)}
+            />
+          ))}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return null;
+}
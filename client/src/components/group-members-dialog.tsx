@@ -0,0 +1,68 @@
+import type { ConversationSummary } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useConversations } from "@/hooks/use-conversations";
+import { Avatar, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: ConversationSummary;
+}
+
+export function GroupMembersDialog({ open, onOpenChange, conversation }: GroupMembersDialogProps) {
+  const { user } = useAuth();
+  const { removeMemberMutation } = useConversations();
+  const isCreator = conversation.createdBy === user?.id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{conversation.name}</DialogTitle>
+          <DialogDescription>
+            Messages are end-to-end encrypted. Removing someone rotates everyone's keys, so they
+            can't read anything sent afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {conversation.members.map((member) => (
+            <div key={member.id} className="flex items-center gap-3">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={member.avatarUrl || undefined} />
+              </Avatar>
+              <span className="flex-1 text-sm truncate">
+                {member.username}
+                {member.id === conversation.createdBy && (
+                  <span className="text-muted-foreground"> · creator</span>
+                )}
+              </span>
+              {isCreator && member.id !== user?.id && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={removeMemberMutation.isPending}
+                  onClick={() =>
+                    removeMemberMutation.mutate({
+                      conversationId: conversation.id,
+                      userId: member.id,
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+
+interface ImageLightboxProps {
+  imageUrl?: string;
+  caption?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Full-size view of a picture sent in a conversation
+export function ImageLightbox({ imageUrl, caption, onOpenChange }: ImageLightboxProps) {
+  return (
+    <Dialog open={!!imageUrl} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-4xl p-2">
+        <DialogTitle className="sr-only">Image</DialogTitle>
+        <DialogDescription className={caption ? "px-2" : "sr-only"}>
+          {caption || "Picture sent in this conversation"}
+        </DialogDescription>
+        {imageUrl && (
+          <img
+            src={imageUrl}
+            alt={caption || "Sent image"}
+            className="max-h-[80vh] w-full object-contain rounded"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
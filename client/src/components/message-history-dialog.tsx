@@ -0,0 +1,53 @@
+import type { Message } from "@shared/schema";
+import { useMessageEdits } from "@/hooks/use-messages";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface MessageHistoryDialogProps {
+  message?: Message;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MessageHistoryDialog({ message, onOpenChange }: MessageHistoryDialogProps) {
+  const { data: edits, isLoading } = useMessageEdits(message);
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Earlier versions of this message, oldest first.</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {edits?.map((edit) => (
+              <div key={edit.id} className="rounded-lg bg-muted p-3">
+                <p className="break-words">{edit.content}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Replaced {format(new Date(edit.editedAt), "PPp")}
+                </p>
+              </div>
+            ))}
+            {message && (
+              <div className="rounded-lg border p-3">
+                <p className="break-words">{message.content}</p>
+                <p className="text-xs text-muted-foreground mt-1">Current version</p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
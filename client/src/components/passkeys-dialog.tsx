@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import type { PasskeySummary } from "@shared/schema";
+import { usePasskeys } from "@/hooks/use-passkeys";
+import { useTwoFactor } from "@/hooks/use-two-factor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Fingerprint, Loader2, Pencil, Trash2 } from "lucide-react";
+
+interface PasskeysDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function PasskeyRow({ passkey }: { passkey: PasskeySummary }) {
+  const { renameMutation, deleteMutation } = usePasskeys();
+  const [name, setName] = useState<string>();
+
+  const rename = () => {
+    const trimmed = name?.trim();
+    if (trimmed && trimmed !== passkey.name) {
+      renameMutation.mutate({ id: passkey.id, name: trimmed });
+    }
+    setName(undefined);
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border p-3">
+      <Fingerprint className="h-5 w-5 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        {name === undefined ? (
+          <p className="truncate text-sm font-medium">{passkey.name}</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              rename();
+            }}
+          >
+            <Input
+              className="h-7"
+              value={name}
+              maxLength={64}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={rename}
+              autoFocus
+            />
+          </form>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Added {format(new Date(passkey.createdAt), "PP")}
+          {" · "}
+          {passkey.lastUsedAt
+            ? `last used ${format(new Date(passkey.lastUsedAt), "PP p")}`
+            : "never used"}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Rename passkey"
+        onClick={() => setName(passkey.name)}
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Remove passkey"
+        disabled={deleteMutation.isPending}
+        onClick={() => deleteMutation.mutate(passkey.id)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function PasskeysDialog({ open, onOpenChange }: PasskeysDialogProps) {
+  const { passkeys, isLoading, addMutation } = usePasskeys();
+  const { status } = useTwoFactor();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const needsCode = status?.enabled ?? false;
+
+  const reset = () => {
+    setName("");
+    setPassword("");
+    setCode("");
+  };
+
+  useEffect(() => {
+    if (!open) reset();
+  }, [open]);
+
+  const add = () => {
+    addMutation.mutate(
+      { name: name.trim(), password, code: needsCode ? code : undefined },
+      { onSuccess: reset },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Passkeys</DialogTitle>
+          <DialogDescription>
+            Sign in with your fingerprint, face or device PIN instead of a password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't added any passkeys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {passkeys.map((passkey) => (
+              <PasskeyRow key={passkey.id} passkey={passkey} />
+            ))}
+          </div>
+        )}
+        <Separator />
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            add();
+          }}
+        >
+          <p className="text-sm font-medium">Add a passkey on this device</p>
+          <Input
+            placeholder="Name, e.g. Work laptop"
+            value={name}
+            maxLength={64}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Your password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {needsCode && (
+            <Input
+              placeholder="Code from your authenticator app"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            />
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={
+              !name.trim() ||
+              !password ||
+              (needsCode && code.length !== 6) ||
+              addMutation.isPending
+            }
+          >
+            Add passkey
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { usePassword } from "@/hooks/use-password";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PasswordStrengthMeter } from "@/components/password-strength-meter";
+
+interface PasswordResetFormProps {
+  // From the emailed link, skipping straight to choosing a password
+  initialToken?: string;
+  onDone: () => void;
+}
+
+// Asks for a reset code by username, then takes the code and a new password
+export function PasswordResetForm({ initialToken, onDone }: PasswordResetFormProps) {
+  const { forgotMutation, resetMutation } = usePassword();
+  const [username, setUsername] = useState("");
+  const [token, setToken] = useState(initialToken ?? "");
+  const [hasCode, setHasCode] = useState(!!initialToken);
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const mismatch = confirmation.length > 0 && password !== confirmation;
+
+  if (!hasCode) {
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          forgotMutation.mutate({ username }, { onSuccess: () => setHasCode(true) });
+        }}
+      >
+        <p className="text-sm text-muted-foreground text-center">
+          Enter your username and we'll send a reset code to the email on the account.
+        </p>
+        <Input
+          placeholder="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoFocus
+        />
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!username || forgotMutation.isPending}
+        >
+          Send reset code
+        </Button>
+        <div className="flex justify-between">
+          <Button type="button" variant="link" className="text-sm" onClick={onDone}>
+            Back to sign in
+          </Button>
+          <Button
+            type="button"
+            variant="link"
+            className="text-sm"
+            onClick={() => setHasCode(true)}
+          >
+            I have a code
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        resetMutation.mutate({ token, password }, { onSuccess: onDone });
+      }}
+    >
+      <p className="text-sm text-muted-foreground text-center">
+        Choose a new password. You'll be signed out everywhere, then can sign in with it.
+      </p>
+      <div className="space-y-2">
+        {!initialToken && (
+          <Input
+            placeholder="Reset code"
+            autoComplete="one-time-code"
+            value={token}
+            onChange={(e) => setToken(e.target.value.trim())}
+            autoFocus
+          />
+        )}
+        <Input
+          type="password"
+          placeholder="New password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <PasswordStrengthMeter password={password} username={username || undefined} />
+        <Input
+          type="password"
+          placeholder="Repeat new password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+        {mismatch && <p className="text-sm text-destructive">Passwords don't match</p>}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={
+          !token || !password || password !== confirmation || resetMutation.isPending
+        }
+      >
+        Reset password
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="text-sm" onClick={onDone}>
+          Back to sign in
+        </Button>
+        {!initialToken && (
+          <Button
+            type="button"
+            variant="link"
+            className="text-sm"
+            onClick={() => setHasCode(false)}
+          >
+            Send a new code
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
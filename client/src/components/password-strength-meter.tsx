@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PasswordPolicy } from "@shared/schema";
+import { estimateEntropyBits } from "@shared/password-strength";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+// Matches the server's range size
+const BREACH_PREFIX_LENGTH = 5;
+// Wait for typing to pause before looking the password up
+const BREACH_CHECK_DELAY_MS = 300;
+
+async function sha1Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+// Whether the password is on the server's breached list. Only the first few
+// digits of its hash are sent; the match happens here.
+function useIsBreached(password: string) {
+  const [breached, setBreached] = useState(false);
+
+  useEffect(() => {
+    setBreached(false);
+    if (!password) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const hash = await sha1Hex(password);
+      const range = await queryClient.fetchQuery<string[]>({
+        queryKey: [`/api/password/breached/${hash.slice(0, BREACH_PREFIX_LENGTH)}`],
+        queryFn: getQueryFn({ on401: "throw" }),
+        staleTime: Infinity,
+        gcTime: 5 * 60 * 1000,
+      });
+      if (!cancelled) setBreached(range.includes(hash.slice(BREACH_PREFIX_LENGTH)));
+    }, BREACH_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [password]);
+
+  return breached;
+}
+
+const LEVELS = [
+  { label: "Too weak", className: "bg-destructive" },
+  { label: "Fair", className: "bg-orange-500" },
+  { label: "Good", className: "bg-yellow-500" },
+  { label: "Strong", className: "bg-green-500" },
+];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  username?: string;
+}
+
+// Live feedback against the server's password rules while typing a new
+// password. The server has the final say.
+export function PasswordStrengthMeter({ password, username }: PasswordStrengthMeterProps) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password/policy"],
+    staleTime: Infinity,
+  });
+  const breached = useIsBreached(password);
+  if (!password || !policy) return null;
+
+  const bits = estimateEntropyBits(password);
+  const tooShort = Array.from(password).length < policy.minLength;
+  const hasUsername =
+    !!username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase());
+  const level =
+    tooShort || hasUsername || breached || bits < policy.minEntropyBits
+      ? 0
+      : bits < policy.minEntropyBits + 20
+        ? 1
+        : bits < policy.minEntropyBits + 40
+          ? 2
+          : 3;
+  const hint = breached
+    ? "This password has appeared in a data breach"
+    : tooShort
+      ? `Use at least ${policy.minLength} characters`
+      : hasUsername
+        ? "Don't include your username"
+        : level === 0
+          ? "Add more words, numbers or symbols"
+          : LEVELS[level].label;
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {LEVELS.map((_, i) => (
+          <div
+            key={i}
+            className={cn(
+              "h-1.5 flex-1 rounded-full",
+              i <= level ? LEVELS[level].className : "bg-muted",
+            )}
+          />
+        ))}
+      </div>
+      <p className={cn("text-xs", level === 0 ? "text-destructive" : "text-muted-foreground")}>
+        {hint}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import {
+  reportReasons,
+  type CreateReport,
+  type PublicUser,
+  type ReportReason,
+} from "@shared/schema";
+import { useReport } from "@/hooks/use-moderation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or bullying",
+  hate: "Hate speech",
+  sexual: "Sexual content",
+  violence: "Violence or threats",
+  impersonation: "Impersonation",
+  other: "Something else",
+};
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: PublicUser;
+  // Reports this message rather than the account. `content` is the text as
+  // shown here, which moderators can't read otherwise when it's encrypted
+  message?: { id: number; content: string };
+}
+
+export function ReportDialog({ open, onOpenChange, user, message }: ReportDialogProps) {
+  const { reportMutation } = useReport();
+  const [reason, setReason] = useState<ReportReason>();
+  const [details, setDetails] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setReason(undefined);
+    setDetails("");
+  }, [open]);
+
+  const submit = () => {
+    if (!reason) return;
+    const report: CreateReport = message
+      ? { type: "message", messageId: message.id, content: message.content, reason, details }
+      : { type: "user", userId: user.id, reason, details };
+    reportMutation.mutate(report, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{message ? "Report message" : `Report ${user.username}`}</DialogTitle>
+          <DialogDescription>
+            {message
+              ? `Moderators will see this message from ${user.username} as it appears now.`
+              : `Moderators will review ${user.username}'s account.`}{" "}
+            {user.username} won't know who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {message && (
+          <p className="line-clamp-4 whitespace-pre-wrap break-words rounded-lg bg-muted p-3 text-sm">
+            {message.content || "(no text)"}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            <SelectTrigger aria-label="Reason">
+              <SelectValue placeholder="Why are you reporting this?" />
+            </SelectTrigger>
+            <SelectContent>
+              {reportReasons.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {reportReasonLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            placeholder="Anything else moderators should know (optional)"
+            maxLength={1000}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            disabled={!reason || reportMutation.isPending}
+            onClick={submit}
+          >
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import type { PublicUser } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { fetchKeyBundle, safetyNumber } from "@/lib/e2ee";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface SafetyNumberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact: PublicUser;
+  identityKey?: string;
+  verified: boolean;
+  onVerifiedChange: (verified: boolean) => void;
+}
+
+export function SafetyNumberDialog({
+  open,
+  onOpenChange,
+  contact,
+  identityKey,
+  verified,
+  onVerifiedChange,
+}: SafetyNumberDialogProps) {
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<string[]>();
+
+  useEffect(() => {
+    setGroups(undefined);
+    if (!open || !user || !identityKey) return;
+
+    let cancelled = false;
+    fetchKeyBundle(user.id)
+      .then(({ identityKey: own }) => {
+        if (!own) return undefined;
+        return safetyNumber(
+          { userId: user.id, identityKey: own.publicKey },
+          { userId: contact.id, identityKey },
+        );
+      })
+      .then((number) => {
+        if (!cancelled) setGroups(number);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [open, user, contact.id, identityKey]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Verify safety number</DialogTitle>
+          <DialogDescription>
+            Compare these numbers with {contact.username} in person or over a call you
+            trust. If they match on both screens, nobody is intercepting your messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!identityKey ? (
+          <p className="text-sm text-muted-foreground">
+            {contact.username} hasn't set up end-to-end encryption yet.
+          </p>
+        ) : !groups ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-4">
+            <div className="rounded-lg bg-white p-3">
+              <QRCodeSVG value={`safe-massage:safety:v1:${groups.join("")}`} size={176} />
+            </div>
+            <div className="grid grid-cols-4 gap-x-4 gap-y-1 font-mono text-lg tracking-wider">
+              {groups.map((group, i) => (
+                <span key={i}>{group}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant={verified ? "outline" : "default"}
+            disabled={!identityKey || !groups}
+            onClick={() => onVerifiedChange(!verified)}
+          >
+            {verified ? (
+              "Clear verification"
+            ) : (
+              <>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Mark as verified
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TotpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// Six digits from an authenticator app
+export function TotpInput({ value, onChange, onComplete, disabled, autoFocus }: TotpInputProps) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP
+        maxLength={6}
+        pattern={REGEXP_ONLY_DIGITS}
+        value={value}
+        onChange={onChange}
+        onComplete={onComplete}
+        disabled={disabled}
+        autoFocus={autoFocus}
+      >
+        <InputOTPGroup>
+          {Array.from({ length: 6 }, (_, i) => (
+            <InputOTPSlot key={i} index={i} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { useTwoFactor } from "@/hooks/use-two-factor";
+import { TotpInput } from "@/components/totp-input";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Loader2 } from "lucide-react";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shown once, straight after they are issued
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose
+        your authenticator. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button onClick={onDone}>Done</Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const {
+    status,
+    isLoading,
+    setupMutation,
+    confirmMutation,
+    recoveryCodesMutation,
+    disableMutation,
+  } = useTwoFactor();
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  // Authenticator or recovery code to turn two-factor off
+  const [disableCode, setDisableCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>();
+  const setup = setupMutation.data;
+
+  // Nothing half-entered survives closing the dialog
+  useEffect(() => {
+    if (open) return;
+    setCode("");
+    setPassword("");
+    setDisableCode("");
+    setRecoveryCodes(undefined);
+    setupMutation.reset();
+  }, [open]);
+
+  const confirm = (value: string) => {
+    if (value.length !== 6) return;
+    confirmMutation.mutate(
+      { code: value },
+      {
+        onSuccess: ({ recoveryCodes }) => {
+          setupMutation.reset();
+          setRecoveryCodes(recoveryCodes);
+        },
+        onSettled: () => setCode(""),
+      },
+    );
+  };
+
+  const replaceRecoveryCodes = () => {
+    recoveryCodesMutation.mutate(
+      { code },
+      {
+        onSuccess: ({ recoveryCodes }) => setRecoveryCodes(recoveryCodes),
+        onSettled: () => setCode(""),
+      },
+    );
+  };
+
+  const disable = () => {
+    const factor = /^\d{6}$/.test(disableCode)
+      ? { code: disableCode }
+      : { recoveryCode: disableCode };
+    disableMutation.mutate(
+      { password, ...factor },
+      {
+        onSettled: () => {
+          setPassword("");
+          setDisableCode("");
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-factor authentication</DialogTitle>
+          <DialogDescription>
+            Sign-in asks for a code from an authenticator app as well as your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(undefined)} />
+        ) : isLoading || !status ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Two-factor authentication is on. You have {status.recoveryCodesLeft} unused
+              recovery code{status.recoveryCodesLeft === 1 ? "" : "s"}.
+            </p>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Replace recovery codes</p>
+              <TotpInput value={code} onChange={setCode} />
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={code.length !== 6 || recoveryCodesMutation.isPending}
+                onClick={replaceRecoveryCodes}
+              >
+                Issue new recovery codes
+              </Button>
+            </div>
+            <Separator />
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                disable();
+              }}
+            >
+              <p className="text-sm font-medium">Turn off, or enrol a new authenticator</p>
+              <Input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <Input
+                placeholder="Authenticator or recovery code"
+                autoComplete="one-time-code"
+                value={disableCode}
+                onChange={(e) => setDisableCode(e.target.value.trim())}
+              />
+              <Button
+                type="submit"
+                variant="destructive"
+                className="w-full"
+                disabled={!password || !disableCode || disableMutation.isPending}
+              >
+                Turn off two-factor authentication
+              </Button>
+            </form>
+          </div>
+        ) : setup ? (
+          <div className="flex flex-col items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this code with your authenticator app, then enter the 6-digit code it
+              shows.
+            </p>
+            <div className="rounded-lg bg-white p-3">
+              <QRCodeSVG value={setup.uri} size={176} />
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Can't scan it? Enter this key instead:
+              <br />
+              <span className="font-mono text-sm break-all text-foreground">{setup.secret}</span>
+            </p>
+            <TotpInput
+              value={code}
+              onChange={setCode}
+              onComplete={confirm}
+              disabled={confirmMutation.isPending}
+              autoFocus
+            />
+            <Button
+              className="w-full"
+              disabled={code.length !== 6 || confirmMutation.isPending}
+              onClick={() => confirm(code)}
+            >
+              Turn on
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Two-factor authentication is off. Anyone with your password can sign in.
+            </p>
+            <Button
+              className="w-full"
+              disabled={setupMutation.isPending}
+              onClick={() => setupMutation.mutate()}
+            >
+              Set up an authenticator app
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,54 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import {
+  SelfUser,
+  RegisterUser,
+  LoginData,
+  VerifyOtp,
+  ResendOtp,
+  SecondFactor,
+  SecondFactorRequired,
+} from "@shared/schema";
+import { startAuthentication } from "@simplewebauthn/browser";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: SelfUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  pendingVerification: string | null;
+  setPendingVerification: (username: string | null) => void;
+  pendingSecondFactor: string | null;
+  setPendingSecondFactor: (username: string | null) => void;
+  loginMutation: UseMutationResult<SelfUser | SecondFactorRequired, Error, LoginData>;
+  secondFactorMutation: UseMutationResult<SelfUser, Error, SecondFactor>;
+  passkeyLoginMutation: UseMutationResult<SelfUser, Error, void>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PendingVerification, Error, RegisterUser>;
+  verifyMutation: UseMutationResult<SelfUser, Error, VerifyOtp>;
+  resendMutation: UseMutationResult<void, Error, ResendOtp>;
 };
 
-type LoginData = Pick<InsertUser, "username" | "password">;
+type PendingVerification = { username: string };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  // Username awaiting an emailed verification code, if any
+  const [pendingVerification, setPendingVerification] = useState<string | null>(null);
+  // Username whose password was accepted, awaiting an authenticator code
+  const [pendingSecondFactor, setPendingSecondFactor] = useState<string | null>(null);
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | null, Error>({
+  } = useQuery<SelfUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
     initialData: null,
@@ -38,11 +59,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: SelfUser | SecondFactorRequired, credentials) => {
+      if ("twoFactorRequired" in result) {
+        setPendingSecondFactor(credentials.username);
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, credentials) => {
+      if (error.message === "403: Account suspended") {
+        toast({
+          title: "Account suspended",
+          description: "A moderator has suspended this account. Check your email for details.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (error.message.startsWith("403:")) {
+        setPendingVerification(credentials.username);
+        toast({
+          title: "Verify your account",
+          description: "Enter the code we sent you, or request a new one.",
+        });
+        return;
+      }
+      if (error.message.startsWith("429:")) {
+        toast({
+          title: "Too many attempts",
+          description: error.message.replace(/^429:\s*/, ""),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Login failed",
         description: error.message,
@@ -51,18 +100,99 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const secondFactorMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const res = await apiRequest("POST", "/api/login/2fa", factor);
+      return await res.json();
+    },
+    onSuccess: (user: SelfUser) => {
+      setPendingSecondFactor(null);
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      // The password step has to be repeated once the attempt expired or
+      // used up its tries
+      if (error.message.startsWith("401:")) setPendingSecondFactor(null);
+      toast({
+        title: "Sign-in failed",
+        description: error.message.replace(/^\d{3}:\s*/, ""),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passkeyLoginMutation = useMutation({
+    mutationFn: async () => {
+      const optionsRes = await apiRequest("POST", "/api/passkeys/login/options");
+      const response = await startAuthentication({ optionsJSON: await optionsRes.json() });
+      const res = await apiRequest("POST", "/api/passkeys/login", { response });
+      return await res.json();
+    },
+    onSuccess: (user: SelfUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      // Closing the browser prompt is not worth a toast
+      if (error.name === "NotAllowedError") return;
+      toast({
+        title: "Sign-in failed",
+        description: error.message.replace(/^\d{3}:\s*/, ""),
+        variant: "destructive",
+      });
+    },
+  });
+
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: ({ username }: PendingVerification) => {
+      setPendingVerification(username);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (data: VerifyOtp) => {
+      const res = await apiRequest("POST", "/api/verify", data);
+      return await res.json();
+    },
+    onSuccess: (user: SelfUser) => {
+      setPendingVerification(null);
       queryClient.setQueryData(["/api/user"], user);
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
     onError: (error: Error) => {
       toast({
-        title: "Registration failed",
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (data: ResendOtp) => {
+      await apiRequest("POST", "/api/verify/resend", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Code sent",
+        description: "Check your inbox for a new verification code.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not resend code",
         description: error.message,
         variant: "destructive",
       });
@@ -92,9 +222,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         isLoading,
         error,
+        pendingVerification,
+        setPendingVerification,
+        pendingSecondFactor,
+        setPendingSecondFactor,
         loginMutation,
+        secondFactorMutation,
+        passkeyLoginMutation,
         logoutMutation,
         registerMutation,
+        verifyMutation,
+        resendMutation,
       }}
     >
       {children}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { BlockSummary, BlockType } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { conversationsQueryKey } from "@/lib/conversations";
+import { useToast } from "@/hooks/use-toast";
+
+export const blocksQueryKey = ["/api/blocks"] as const;
+
+// Blocked senders' messages leave history and previews, so those are
+// refetched along with the list
+function refresh() {
+  queryClient.invalidateQueries({ queryKey: blocksQueryKey });
+  queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+  queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+}
+
+// People this user has blocked or muted
+export function useBlocks() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+
+  const { data: blocks = [], isLoading } = useQuery<BlockSummary[]>({
+    queryKey: blocksQueryKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const blockTypeOf = (userId: number): BlockType | undefined =>
+    blocks.find((block) => block.user.id === userId)?.type;
+
+  const setBlockMutation = useMutation({
+    mutationFn: async ({ userId, type }: { userId: number; type: BlockType }) => {
+      const res = await apiRequest("PUT", `/api/blocks/${userId}`, { type });
+      return (await res.json()) as BlockSummary;
+    },
+    onSuccess: ({ type, user }) => {
+      refresh();
+      toast({
+        title: type === "block" ? `Blocked ${user.username}` : `Muted ${user.username}`,
+        description:
+          type === "block"
+            ? "You won't get their messages and they can't see when you're online."
+            : "Their messages still arrive, without notifications.",
+      });
+    },
+    onError: onError("Could not update"),
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/blocks/${userId}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Could not update"),
+  });
+
+  return { blocks, isLoading, blockTypeOf, setBlockMutation, unblockMutation };
+}
@@ -0,0 +1,129 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { ConversationSummary, CreateConversation } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { decryptMessage } from "@/lib/e2ee";
+import {
+  conversationsQueryKey,
+  joinableConversationsQueryKey,
+} from "@/lib/conversations";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Exact, so refreshing the list doesn't also refetch every loaded history
+function refreshConversations() {
+  queryClient.invalidateQueries({ queryKey: conversationsQueryKey, exact: true });
+  queryClient.invalidateQueries({ queryKey: joinableConversationsQueryKey, exact: true });
+}
+
+export function useConversations() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: conversations = [], isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: conversationsQueryKey,
+    // Previews of encrypted conversations are decrypted locally
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/conversations");
+      const summaries = (await res.json()) as ConversationSummary[];
+      return Promise.all(
+        summaries.map(async (summary) => ({
+          ...summary,
+          lastMessage:
+            summary.lastMessage && (await decryptMessage(summary.lastMessage, user!.id)),
+        })),
+      );
+    },
+    enabled: !!user,
+  });
+
+  const { data: joinable = [] } = useQuery<ConversationSummary[]>({
+    queryKey: joinableConversationsQueryKey,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateConversation) => {
+      const res = await apiRequest("POST", "/api/conversations", data);
+      return (await res.json()) as ConversationSummary;
+    },
+    onSuccess: refreshConversations,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not start conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async (conversationId: number) => {
+      const res = await apiRequest("POST", `/api/conversations/${conversationId}/join`);
+      return (await res.json()) as ConversationSummary;
+    },
+    onSuccess: refreshConversations,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not join group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (conversationId: number) => {
+      await apiRequest("POST", `/api/conversations/${conversationId}/leave`);
+    },
+    onSuccess: refreshConversations,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not leave group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async ({ conversationId, userId }: { conversationId: number; userId: number }) => {
+      await apiRequest("DELETE", `/api/conversations/${conversationId}/members/${userId}`);
+    },
+    onSuccess: refreshConversations,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not remove member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const timerMutation = useMutation({
+    mutationFn: async ({ conversationId, seconds }: { conversationId: number; seconds: number }) => {
+      const res = await apiRequest("PUT", `/api/conversations/${conversationId}/disappearing`, {
+        seconds,
+      });
+      return (await res.json()) as ConversationSummary;
+    },
+    onSuccess: refreshConversations,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not change disappearing messages",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    conversations,
+    joinable,
+    isLoading,
+    refreshConversations,
+    createMutation,
+    joinMutation,
+    leaveMutation,
+    removeMemberMutation,
+    timerMutation,
+  };
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { DeviceKey } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import {
+  fetchKeyBundle,
+  linkDevice,
+  linkStatus,
+  registerDeviceKey,
+  resetIdentity,
+  type DeviceLinkStatus,
+} from "@/lib/e2ee";
+import { loadTrust, saveTrust, type TrustRecord } from "@/lib/trust";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const deviceLinkQueryKey = (userId?: number) => ["device-link", userId] as const;
+
+// Registers this device's key and tracks whether it is linked to the
+// account's identity, and which other devices are waiting to be linked
+export function useDeviceLink() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const registeredFor = useRef<number>();
+
+  const { data: status, error } = useQuery<DeviceLinkStatus, Error>({
+    queryKey: deviceLinkQueryKey(user?.id),
+    queryFn: async () => {
+      if (registeredFor.current !== user!.id) {
+        const registered = await registerDeviceKey(user!.id);
+        registeredFor.current = user!.id;
+        return registered;
+      }
+      return linkStatus(user!.id, await fetchKeyBundle(user!.id, { fresh: true }));
+    },
+    enabled: !!user,
+    // Poll faster while waiting to be linked from another device
+    refetchInterval: (query) => (query.state.data?.linked === false ? 5000 : 30000),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (device: DeviceKey) => linkDevice(user!.id, device),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deviceLinkQueryKey(user?.id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not link device",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => resetIdentity(user!.id),
+    onSuccess: (status: DeviceLinkStatus) => {
+      queryClient.setQueryData(deviceLinkQueryKey(user?.id), status);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not reset identity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { status, error, approveMutation, resetMutation };
+}
+
+// A contact's identity key checked against what this device saw before
+// (trust on first use), plus the locally stored "verified" flag
+export function useContactIdentity(contactId?: number) {
+  const { user } = useAuth();
+  const [trust, setTrust] = useState<TrustRecord>();
+
+  const { data: bundle } = useQuery({
+    queryKey: ["/api/users", contactId, "keys"],
+    queryFn: () => fetchKeyBundle(contactId!, { fresh: true }),
+    enabled: !!user && contactId !== undefined,
+    refetchOnWindowFocus: true,
+  });
+  const identityKey = bundle?.identityKey?.publicKey;
+
+  useEffect(() => {
+    setTrust(user && contactId !== undefined ? loadTrust(user.id, contactId) : undefined);
+  }, [user, contactId]);
+
+  const update = (record: TrustRecord) => {
+    if (!user || contactId === undefined) return;
+    saveTrust(user.id, contactId, record);
+    setTrust(record);
+  };
+
+  // The first key seen for a contact is remembered so later changes stand out
+  useEffect(() => {
+    if (identityKey && user && contactId !== undefined && !loadTrust(user.id, contactId)) {
+      update({ identityKey, verified: false });
+    }
+  }, [identityKey, user, contactId]);
+
+  const keyChanged = !!identityKey && !!trust && trust.identityKey !== identityKey;
+
+  return {
+    identityKey,
+    verified: !!trust?.verified && !keyChanged,
+    keyChanged,
+    // The changed key replaced one this user had verified
+    wasVerified: keyChanged && !!trust?.verified,
+    setVerified: (verified: boolean) => {
+      if (identityKey) update({ identityKey, verified });
+    },
+    acceptKeyChange: () => {
+      if (identityKey) update({ identityKey, verified: false });
+    },
+  };
+}
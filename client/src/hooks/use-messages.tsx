@@ -0,0 +1,125 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Attachment, Image, Message, MessageEdit } from "@shared/schema";
+import { apiRequest, throwIfResNotOk } from "@/lib/queryClient";
+import { decryptMessage, encryptMessage } from "@/lib/e2ee";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Editing and deleting the user's own messages. Both are announced to every
+// member over the WebSocket, this user's devices included, which is what
+// updates the message list.
+export function useMessageActions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const editMutation = useMutation({
+    mutationFn: async ({ message, content }: { message: Message; content: string }) => {
+      const sealed = await encryptMessage({
+        senderId: user!.id,
+        conversationId: message.conversationId,
+        content,
+      });
+      const res = await apiRequest("PATCH", `/api/messages/${message.id}`, sealed);
+      return (await res.json()) as Message;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not edit message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (message: Message) => {
+      await apiRequest("DELETE", `/api/messages/${message.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { editMutation, deleteMutation };
+}
+
+// Earlier versions of an edited message, decrypted, oldest first
+export function useMessageEdits(message?: Message) {
+  const { user } = useAuth();
+
+  return useQuery<MessageEdit[]>({
+    queryKey: ["/api/messages", message?.id, "edits"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/messages/${message!.id}/edits`);
+      const edits = (await res.json()) as MessageEdit[];
+      return Promise.all(
+        edits.map(async (edit) => {
+          const { content } = await decryptMessage(
+            { ...message!, content: edit.content, envelope: edit.envelope },
+            user!.id,
+          );
+          return { ...edit, content };
+        }),
+      );
+    },
+    enabled: !!message && !!user,
+  });
+}
+
+// Uploads a picture to a conversation. The server strips its metadata and
+// keeps it unencrypted, so only the caption sent with it is sealed.
+export function useImageUpload() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, file }: { conversationId: number; file: File }) => {
+      const body = new FormData();
+      body.append("image", file);
+      const res = await fetch(`/api/conversations/${conversationId}/images`, {
+        method: "POST",
+        body,
+        credentials: "include",
+      });
+      await throwIfResNotOk(res);
+      return (await res.json()) as Image & { url: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not upload image",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Uploads a file to a conversation. It resolves once the server's virus scan
+// has passed it; rejected files fail with the server's explanation.
+export function useAttachmentUpload() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, file }: { conversationId: number; file: File }) => {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch(`/api/conversations/${conversationId}/attachments`, {
+        method: "POST",
+        body,
+        credentials: "include",
+      });
+      await throwIfResNotOk(res);
+      return (await res.json()) as Attachment;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not attach file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import type {
+  CreateReport,
+  ReportPage,
+  ReportQuery,
+  SuspendUser,
+  WarnUser,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const reportsQueryKey = ["/api/moderation/reports"] as const;
+
+// Flagging a message or account for the moderators
+export function useReport() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async (report: CreateReport) => {
+      await apiRequest("POST", "/api/reports", report);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Report sent",
+        description: "Thanks. A moderator will review it.",
+      });
+    },
+    onError: onError("Could not send report"),
+  });
+
+  return { reportMutation };
+}
+
+export type ReportFilters = Pick<ReportQuery, "status" | "reason">;
+
+// The report queue, newest first, and what moderators can do about it
+export function useModeration(filters: ReportFilters) {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: reportsQueryKey });
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...reportsQueryKey, filters],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (filters.status) params.set("status", filters.status);
+      if (filters.reason) params.set("reason", filters.reason);
+      if (pageParam) params.set("before", String(pageParam));
+      const res = await apiRequest("GET", `/api/moderation/reports?${params}`);
+      return (await res.json()) as ReportPage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const reports = data?.pages.flatMap((page) => page.reports) ?? [];
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ reportId, note }: { reportId: number; note?: string }) => {
+      await apiRequest("POST", `/api/moderation/reports/${reportId}/resolve`, { note });
+    },
+    onSuccess: refresh,
+    onError: onError("Could not resolve report"),
+  });
+
+  const warnMutation = useMutation({
+    mutationFn: async ({ userId, ...warning }: WarnUser & { userId: number }) => {
+      await apiRequest("POST", `/api/moderation/users/${userId}/warn`, warning);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Warning sent" });
+    },
+    onError: onError("Could not warn user"),
+  });
+
+  const suspendMutation = useMutation({
+    mutationFn: async ({ userId, ...suspension }: SuspendUser & { userId: number }) => {
+      await apiRequest("POST", `/api/moderation/users/${userId}/suspend`, suspension);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Account suspended", description: "They were signed out everywhere." });
+    },
+    onError: onError("Could not suspend user"),
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/moderation/users/${userId}/suspension`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Suspension lifted" });
+    },
+    onError: onError("Could not lift suspension"),
+  });
+
+  return {
+    reports,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    resolveMutation,
+    warnMutation,
+    suspendMutation,
+    liftMutation,
+  };
+}
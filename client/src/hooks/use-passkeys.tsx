@@ -0,0 +1,56 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { startRegistration } from "@simplewebauthn/browser";
+import type { NamePasskey, PasskeyReauth, PasskeySummary } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const passkeysQueryKey = ["/api/passkeys"] as const;
+
+// The signed-in user's passkeys: adding one on this device, renaming and
+// removing them
+export function usePasskeys() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    // Closing the browser prompt is not worth a toast
+    if (error.name === "NotAllowedError") return;
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: passkeysQueryKey });
+
+  const { data: passkeys = [], isLoading } = useQuery<PasskeySummary[]>({
+    queryKey: passkeysQueryKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async ({ name, ...reauth }: NamePasskey & PasskeyReauth) => {
+      const optionsRes = await apiRequest("POST", "/api/passkeys/register/options", reauth);
+      const response = await startRegistration({ optionsJSON: await optionsRes.json() });
+      const res = await apiRequest("POST", "/api/passkeys/register", { name, response });
+      return (await res.json()) as PasskeySummary;
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Passkey added" });
+    },
+    onError: onError("Could not add passkey"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: NamePasskey & { id: string }) => {
+      await apiRequest("PATCH", `/api/passkeys/${encodeURIComponent(id)}`, { name });
+    },
+    onSuccess: refresh,
+    onError: onError("Could not rename passkey"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/passkeys/${encodeURIComponent(id)}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Could not remove passkey"),
+  });
+
+  return { passkeys, isLoading, addMutation, renameMutation, deleteMutation };
+}
@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import type { ChangePassword, ForgotPassword, ResetPassword } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Resetting a forgotten password, and changing a known one
+export function usePassword() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPassword) => {
+      await apiRequest("POST", "/api/password/forgot", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Check your inbox",
+        description: "If the account exists, we've sent it a reset code.",
+      });
+    },
+    onError: onError("Could not request a reset"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPassword) => {
+      await apiRequest("POST", "/api/password/reset", data);
+    },
+    onSuccess: () => {
+      // Every session was signed out, this one included
+      queryClient.setQueryData(["/api/user"], null);
+      toast({ title: "Password reset", description: "Sign in with your new password." });
+    },
+    onError: onError("Could not reset password"),
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: ChangePassword) => {
+      await apiRequest("POST", "/api/password/change", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Password changed",
+        description: "Your other devices have been signed out.",
+      });
+    },
+    onError: onError("Could not change password"),
+  });
+
+  return { forgotMutation, resetMutation, changeMutation };
+}
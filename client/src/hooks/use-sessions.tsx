@@ -0,0 +1,41 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { SessionSummary } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const sessionsQueryKey = ["/api/sessions"] as const;
+
+// Where the user is signed in, and signing those devices out
+export function useSessions() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message.replace(/^\d{3}:\s*/, ""), variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: sessionsQueryKey });
+
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: sessionsQueryKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Could not sign out device"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/sessions");
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Signed out of all other devices" });
+    },
+    onError: onError("Could not sign out other devices"),
+  });
+
+  return { sessions, isLoading, revokeMutation, revokeOthersMutation };
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type {
+  DisableTwoFactor,
+  TotpCode,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const twoFactorQueryKey = ["/api/2fa"] as const;
+
+type RecoveryCodes = { recoveryCodes: string[] };
+
+// Enrolling an authenticator app, replacing recovery codes and turning
+// two-factor sign-in off again
+export function useTwoFactor() {
+  const { toast } = useToast();
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: twoFactorQueryKey });
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: twoFactorQueryKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onError: onError("Could not start setup"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (data: TotpCode) => {
+      const res = await apiRequest("POST", "/api/2fa/confirm", data);
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: refresh,
+    onError: onError("Could not turn on two-factor authentication"),
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async (data: TotpCode) => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", data);
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: refresh,
+    onError: onError("Could not replace recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: DisableTwoFactor) => {
+      await apiRequest("POST", "/api/2fa/disable", data);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: onError("Could not turn off two-factor authentication"),
+  });
+
+  return {
+    status,
+    isLoading,
+    setupMutation,
+    confirmMutation,
+    recoveryCodesMutation,
+    disableMutation,
+  };
+}
@@ -1,12 +1,43 @@
 import { useEffect, useRef, useCallback, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { getDeviceId } from "@/lib/device";
+import { decryptMessage, encryptMessage } from "@/lib/e2ee";
+import { queryClient } from "@/lib/queryClient";
+import type { MessageReceipt } from "@shared/schema";
+import {
+  PROTOCOL_VERSIONS,
+  serverFrameSchema,
+  type ClientFrame,
+  type ReceiptStatus,
+  type SendMessageFrame,
+  type ServerFrame,
+  type ServerFrameOf,
+  type ServerFrameType,
+} from "@shared/protocol";
 
-type MessageStatus = "sending" | "sent" | "delivered" | "read";
-type MessageWithStatus = {
-  id: number;
-  content: string;
-  status: MessageStatus;
+export type MessageStatus = "sending" | "sent" | "delivered" | "read";
+
+const statusRank: Record<MessageStatus, number> = {
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+// Content is end-to-end encrypted before it leaves this device
+type OutgoingMessage = Omit<SendMessageFrame, "type" | "clientId" | "envelope">;
+
+// Message content is decrypted before any handler sees the frame
+async function decryptFrame(frame: ServerFrame, userId: number): Promise<ServerFrame> {
+  if (frame.type === "message" || frame.type === "ack" || frame.type === "messageEdited") {
+    return { ...frame, message: await decryptMessage(frame.message, userId) };
+  }
+  return frame;
+}
+
+export type FrameHandlers = {
+  [K in ServerFrameType]?: (frame: ServerFrameOf<K>) => void;
 };
 
 export function useWebSocket() {
@@ -14,9 +45,36 @@ export function useWebSocket() {
   const { user } = useAuth();
   const wsRef = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // How long this user's messages stay editable, as announced by the server
+  const [editWindowMs, setEditWindowMs] = useState(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  // Receipt state of messages this user sent, keyed by persisted message id.
+  // For group messages the most advanced recipient wins.
   const [messageStatuses, setMessageStatuses] = useState<Record<number, MessageStatus>>({});
-  const messageQueueRef = useRef<MessageWithStatus[]>([]);
+  const messageQueueRef = useRef<SendMessageFrame[]>([]);
+  // Messages waiting for their ack, kept so they can be sealed again if the
+  // server asks for a new group sender key
+  const unackedRef = useRef(new Map<string, OutgoingMessage>());
+  const resealRef = useRef<(clientId: string) => void>(() => {});
+  const handlersRef = useRef(new Set<FrameHandlers>());
+  // Sequence number of the last logged frame seen, sent back on reconnect so
+  // the server can replay anything missed while disconnected
+  const lastSeqRef = useRef<number>();
+
+  const updateMessageStatus = useCallback((messageId: number, status: MessageStatus) => {
+    setMessageStatuses(prev => {
+      const current = prev[messageId] ?? "sent";
+      if (statusRank[status] <= statusRank[current]) return prev;
+      return { ...prev, [messageId]: status };
+    });
+  }, []);
+
+  const dispatch = useCallback((frame: ServerFrame) => {
+    handlersRef.current.forEach((handlers) => {
+      const handler = handlers[frame.type] as ((frame: ServerFrame) => void) | undefined;
+      handler?.(frame);
+    });
+  }, []);
 
   const connect = useCallback(() => {
     if (!user) return; // Only connect if user is authenticated
@@ -25,28 +83,127 @@ export function useWebSocket() {
     const wsUrl = `${protocol}//${window.location.host}/ws`;
     const ws = new WebSocket(wsUrl);
 
+    const send = (frame: ClientFrame) => ws.send(JSON.stringify(frame));
+    // Frames are handled strictly in arrival order even though decrypting
+    // one can take a while
+    let processing = Promise.resolve();
+
     ws.onopen = () => {
       console.log("WebSocket connected");
-      setIsConnected(true);
-      // Send any queued messages
-      messageQueueRef.current.forEach(msg => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'message',
-            ...msg
-          }));
-        }
+      send({
+        type: "hello",
+        versions: [...PROTOCOL_VERSIONS],
+        deviceId: getDeviceId(),
+        cursor: lastSeqRef.current,
       });
-      messageQueueRef.current = [];
 
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
     };
 
-    ws.onclose = () => {
+    ws.onmessage = (event) => {
+      let frame: ServerFrame;
+      try {
+        const result = serverFrameSchema.safeParse(JSON.parse(event.data));
+        if (!result.success) {
+          console.error("Unexpected frame from server:", result.error);
+          return;
+        }
+        frame = result.data;
+      } catch (error) {
+        console.error("Error parsing message:", error);
+        return;
+      }
+
+      if ("seq" in frame && frame.seq !== undefined) {
+        // Replays can overlap with frames already seen live
+        if (lastSeqRef.current !== undefined && frame.seq <= lastSeqRef.current) return;
+        lastSeqRef.current = frame.seq;
+      }
+
+      processing = processing
+        .then(() => decryptFrame(frame, user.id))
+        .then(handleFrame)
+        .catch((error) => console.error("Error handling frame:", error));
+    };
+
+    const handleFrame = (frame: ServerFrame) => {
+      switch (frame.type) {
+        case "welcome":
+          if (frame.stale) {
+            // Too much was missed to replay; reload history instead
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+          }
+          if (frame.stale || lastSeqRef.current === undefined) {
+            lastSeqRef.current = frame.cursor;
+          }
+          setEditWindowMs(frame.editWindowMs);
+          setIsConnected(true);
+          // Send any queued messages
+          messageQueueRef.current.forEach(send);
+          messageQueueRef.current = [];
+          break;
+        case "message":
+          // This device has the message now, whether or not it is on screen
+          if (frame.message.senderId !== user.id) {
+            send({ type: "delivered", messageIds: [frame.message.id] });
+          }
+          break;
+        case "ack":
+          unackedRef.current.delete(frame.clientId);
+          break;
+        case "receipt":
+          updateMessageStatus(frame.messageId, frame.status);
+          break;
+        case "error":
+          if (
+            frame.code === "STALE_SENDER_KEY" &&
+            frame.clientId &&
+            unackedRef.current.has(frame.clientId)
+          ) {
+            // Group membership changed after the message was sealed
+            resealRef.current(frame.clientId);
+            return;
+          }
+          if (frame.clientId) unackedRef.current.delete(frame.clientId);
+          toast({
+            title: "Chat error",
+            description: frame.message,
+            variant: "destructive",
+          });
+          break;
+      }
+
+      dispatch(frame);
+    };
+
+    ws.onclose = (event) => {
       console.log("WebSocket disconnected");
       setIsConnected(false);
+      if (event.code === 1008 && event.reason === "Session revoked") {
+        // Signed out from another device; reconnecting would only be refused
+        queryClient.setQueryData(["/api/user"], null);
+        toast({
+          title: "Signed out",
+          description: "This device was signed out from another session.",
+        });
+        return;
+      }
+      if (event.code === 1008 && event.reason === "Signed out") {
+        // This session logged out, possibly in another tab
+        queryClient.setQueryData(["/api/user"], null);
+        return;
+      }
+      if (event.code === 1008 && event.reason === "Account suspended") {
+        queryClient.setQueryData(["/api/user"], null);
+        toast({
+          title: "Account suspended",
+          description: "A moderator has suspended this account. Check your email for details.",
+          variant: "destructive",
+        });
+        return;
+      }
       // Attempt to reconnect after 2 seconds
       reconnectTimeoutRef.current = setTimeout(connect, 2000);
     };
@@ -63,98 +220,116 @@ export function useWebSocket() {
     wsRef.current = ws;
 
     return () => {
+      // Closing on purpose, so don't schedule a reconnect
+      ws.onclose = null;
       ws.close();
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
     };
-  }, [user, toast]);
+  }, [user, toast, dispatch, updateMessageStatus]);
 
   useEffect(() => {
     const cleanup = connect();
     return cleanup;
   }, [connect]);
 
-  const sendMessage = useCallback((message: any) => {
-    const messageWithStatus: MessageWithStatus = {
-      ...message,
-      status: "sending",
-      id: Date.now(), // Temporary ID for tracking
+  const sealAndSend = useCallback((clientId: string, message: OutgoingMessage) => {
+    const seal = async (): Promise<SendMessageFrame> => {
+      if (!user) throw new Error("Not signed in");
+      const sealed = await encryptMessage({
+        senderId: user.id,
+        conversationId: message.conversationId,
+        content: message.content,
+      });
+      return { ...message, ...sealed, type: "message", clientId };
     };
 
-    setMessageStatuses(prev => ({
-      ...prev,
-      [messageWithStatus.id]: "sending"
-    }));
-
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'message',
-        ...messageWithStatus
-      }));
-    } else {
-      // Queue message for when connection is restored
-      messageQueueRef.current.push(messageWithStatus);
-      toast({
-        title: "Connection Error",
-        description: "Not connected to chat server. Message will be sent when connection is restored.",
-        variant: "destructive",
+    seal()
+      .then((frame) => {
+        if (isConnected && wsRef.current?.readyState === WebSocket.OPEN) {
+          wsRef.current.send(JSON.stringify(frame));
+        } else {
+          // Queue message for when connection is restored
+          messageQueueRef.current.push(frame);
+          toast({
+            title: "Connection Error",
+            description: "Not connected to chat server. Message will be sent when connection is restored.",
+            variant: "destructive",
+          });
+        }
+      })
+      .catch((error: Error) => {
+        unackedRef.current.delete(clientId);
+        toast({
+          title: "Message not sent",
+          description: error.message,
+          variant: "destructive",
+        });
       });
-    }
+  }, [user, isConnected, toast]);
 
-    return messageWithStatus.id; // Return ID for tracking
-  }, [toast]);
+  // Retried once only: it is no longer tracked while being sealed again
+  resealRef.current = (clientId: string) => {
+    const message = unackedRef.current.get(clientId);
+    unackedRef.current.delete(clientId);
+    if (message) sealAndSend(clientId, message);
+  };
 
-  const updateMessageStatus = useCallback((messageId: number, status: MessageStatus) => {
-    setMessageStatuses(prev => ({
-      ...prev,
-      [messageId]: status
-    }));
-  }, []);
+  const sendMessage = useCallback((message: OutgoingMessage) => {
+    const clientId = crypto.randomUUID(); // Temporary ID until the server acks
+    unackedRef.current.set(clientId, message);
+    sealAndSend(clientId, message);
+    return clientId; // Return ID for tracking
+  }, [sealAndSend]);
 
-  const sendTypingStatus = useCallback((isTyping: boolean) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'typing',
-        isTyping,
-        userId: user?.id
-      }));
+  const sendTypingStatus = useCallback((isTyping: boolean, conversationId?: number) => {
+    if (conversationId === undefined) return;
+    if (isConnected && wsRef.current?.readyState === WebSocket.OPEN) {
+      const frame: ClientFrame = { type: "typing", conversationId, isTyping };
+      wsRef.current.send(JSON.stringify(frame));
     }
-  }, [user]);
-
-  const subscribe = useCallback((callback: (data: any) => void) => {
-    if (!wsRef.current) return;
+  }, [isConnected]);
 
-    wsRef.current.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-
-        // Handle different message types
-        switch (data.type) {
-          case 'messageStatus':
-            updateMessageStatus(data.messageId, data.status);
-            break;
-          case 'typing':
-            // Handle typing indicator
-            break;
-          default:
-            callback(data);
-        }
-      } catch (error) {
-        console.error("Error parsing message:", error);
-      }
+  // Registers handlers for server frames; returns an unsubscribe function
+  const subscribe = useCallback((handlers: FrameHandlers) => {
+    handlersRef.current.add(handlers);
+    return () => {
+      handlersRef.current.delete(handlers);
     };
+  }, []);
+
+  const sendReceipts = useCallback((status: ReceiptStatus, messageIds: number[]) => {
+    if (!isConnected || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    // The server accepts at most 100 ids per frame
+    for (let i = 0; i < messageIds.length; i += 100) {
+      const frame: ClientFrame = { type: status, messageIds: messageIds.slice(i, i + 100) };
+      wsRef.current.send(JSON.stringify(frame));
+    }
+  }, [isConnected]);
+
+  // Seeds statuses from receipts loaded over REST
+  const recordReceipts = useCallback((receipts: MessageReceipt[]) => {
+    receipts.forEach((receipt) => {
+      if (receipt.readAt) updateMessageStatus(receipt.messageId, "read");
+      else if (receipt.deliveredAt) updateMessageStatus(receipt.messageId, "delivered");
+    });
   }, [updateMessageStatus]);
 
+  // Status of a persisted message; anything still waiting for its ack is
+  // "sending" and tracked by the caller
   const getMessageStatus = useCallback((messageId: number) => {
-    return messageStatuses[messageId] || "sending";
+    return messageStatuses[messageId] || "sent";
   }, [messageStatuses]);
 
-  return { 
-    sendMessage, 
-    subscribe, 
-    isConnected, 
+  return {
+    sendMessage,
+    subscribe,
+    isConnected,
+    editWindowMs,
     sendTypingStatus,
+    sendReceipts,
+    recordReceipts,
     getMessageStatus
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+import type { ConversationSummary, PublicUser } from "@shared/schema";
+
+export const conversationsQueryKey = ["/api/conversations"] as const;
+export const joinableConversationsQueryKey = ["/api/conversations/joinable"] as const;
+
+// Labels for `disappearingTimers`, in seconds
+export const disappearingTimerLabels: Record<number, string> = {
+  0: "Off",
+  300: "5 minutes",
+  3600: "1 hour",
+  86400: "1 day",
+  604800: "1 week",
+};
+
+export const messagesQueryKey = (conversationId: number) =>
+  ["/api/conversations", conversationId, "messages"] as const;
+
+// The other participant of a direct conversation
+export function otherMember(
+  conversation: ConversationSummary,
+  userId: number,
+): PublicUser | undefined {
+  if (conversation.type !== "direct") return undefined;
+  return conversation.members.find((member) => member.id !== userId) ?? conversation.members[0];
+}
+
+export function conversationTitle(conversation: ConversationSummary, userId: number) {
+  if (conversation.type === "group") return conversation.name ?? "Unnamed group";
+  return otherMember(conversation, userId)?.username ?? "Direct message";
+}
@@ -0,0 +1,11 @@
+const DEVICE_ID_KEY = "safe-massage:device-id";
+
+// Identifies this browser profile across reloads; tabs share it
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
@@ -0,0 +1,598 @@
+import type {
+  ConversationSummary,
+  DeviceKey,
+  KeyBundle,
+  Message,
+  MessageEnvelope,
+  SenderKeyForDevice,
+  WrappedKey,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { getDeviceId } from "@/lib/device";
+import { loadKey, saveKey } from "@/lib/key-store";
+
+// Direct messages are encrypted once with a random AES-GCM message key; that
+// key is then wrapped for every device of every participant with a key
+// derived (ECDH over X25519, then HKDF-SHA256) from the sending and receiving
+// device key pairs. The server only ever relays ciphertext and envelopes.
+//
+// Group messages use sender keys instead: each device keeps one AES-GCM key
+// per group, wraps it once for every member device and then encrypts its
+// messages with it. A new key is made whenever the group's membership epoch
+// or the set of member devices changes, so anyone who left or was removed
+// can't read what is sent afterwards.
+//
+// Each account also has a long-term Ed25519 identity key. Device keys are
+// only used once signed by it, so a contact's safety number (derived from
+// both identity keys) vouches for every device they read messages on.
+
+const KEY_ALGORITHM = { name: "X25519" };
+const IDENTITY_ALGORITHM = { name: "Ed25519" };
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const UNDECRYPTABLE_PLACEHOLDER = "🔒 This message can't be decrypted on this device";
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
+
+const randomIv = () => crypto.getRandomValues(new Uint8Array(12));
+
+// Bind ciphertexts to where they belong so the server can't move them around
+const contentAad = (conversationId: number, senderId: number) =>
+  encoder.encode(`safe-massage/message/v1:${conversationId}:${senderId}`);
+const keyAad = (userId: number, deviceId: string) =>
+  encoder.encode(`safe-massage/key/v1:${userId}:${deviceId}`);
+const senderKeyAad = (conversationId: number, keyId: string, userId: number, deviceId: string) =>
+  encoder.encode(`safe-massage/sender-key/v1:${conversationId}:${keyId}:${userId}:${deviceId}`);
+type DeviceIdentity = Pick<DeviceKey, "userId" | "deviceId" | "publicKey">;
+
+// What an identity key signs to link a device to the account
+const deviceStatement = ({ userId, deviceId, publicKey }: DeviceIdentity) =>
+  encoder.encode(`safe-massage/device/v1:${userId}:${deviceId}:${publicKey}`);
+
+/* Device key pair */
+
+// One key pair per account on this device, so shared browsers don't mix keys
+const keyPairs = new Map<number, Promise<CryptoKeyPair>>();
+
+async function loadOrCreateKeyPair(userId: number): Promise<CryptoKeyPair> {
+  const name = `device-key:${userId}`;
+  const stored = await loadKey<CryptoKeyPair>(name);
+  if (stored) return stored;
+
+  // Not extractable: the private key can be used but never read back out
+  const keyPair = (await crypto.subtle.generateKey(KEY_ALGORITHM, false, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  await saveKey(name, keyPair);
+  return keyPair;
+}
+
+export function getDeviceKeyPair(userId: number): Promise<CryptoKeyPair> {
+  let keyPair = keyPairs.get(userId);
+  if (!keyPair) {
+    keyPair = loadOrCreateKeyPair(userId);
+    keyPairs.set(userId, keyPair);
+    keyPair.catch(() => keyPairs.delete(userId));
+  }
+  return keyPair;
+}
+
+async function exportPublicKey(key: CryptoKey) {
+  return toBase64(await crypto.subtle.exportKey("raw", key));
+}
+
+export async function getDevicePublicKey(userId: number): Promise<string> {
+  return exportPublicKey((await getDeviceKeyPair(userId)).publicKey);
+}
+
+/* Identity key pair */
+
+// Only held by devices that created the identity; linked devices just carry
+// a signature from it
+const identityKeyName = (userId: number) => `identity-key:${userId}`;
+
+async function createIdentity(userId: number): Promise<CryptoKeyPair> {
+  const keyPair = (await crypto.subtle.generateKey(IDENTITY_ALGORITHM, false, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  await apiRequest("PUT", "/api/keys/identity", {
+    publicKey: await exportPublicKey(keyPair.publicKey),
+  });
+  await saveKey(identityKeyName(userId), keyPair);
+  return keyPair;
+}
+
+async function signDevice(identity: CryptoKeyPair, device: DeviceIdentity) {
+  const signature = await crypto.subtle.sign(
+    IDENTITY_ALGORITHM,
+    identity.privateKey,
+    deviceStatement(device),
+  );
+  return toBase64(signature);
+}
+
+// This device's identity key pair, if it holds the account's current one
+async function currentIdentity(userId: number, bundle: KeyBundle) {
+  const identity = await loadKey<CryptoKeyPair>(identityKeyName(userId));
+  if (!identity || !bundle.identityKey) return undefined;
+  const publicKey = await exportPublicKey(identity.publicKey);
+  return publicKey === bundle.identityKey.publicKey ? identity : undefined;
+}
+
+export type DeviceLinkStatus = {
+  // This device's key is signed by the account's identity key
+  linked: boolean;
+  // This device holds the identity key and can link others
+  canLinkDevices: boolean;
+  // The account's other devices still waiting to be linked
+  pendingDevices: DeviceKey[];
+};
+
+// Publishes this device's public key so others can encrypt to it. The first
+// device of an account also creates the account's identity key.
+export async function registerDeviceKey(userId: number): Promise<DeviceLinkStatus> {
+  const { publicKey } = await getDeviceKeyPair(userId);
+  const device: DeviceIdentity = {
+    userId,
+    deviceId: getDeviceId(),
+    publicKey: await exportPublicKey(publicKey),
+  };
+
+  let bundle = await fetchKeyBundle(userId, { fresh: true });
+  let identity = await currentIdentity(userId, bundle);
+  if (!bundle.identityKey) {
+    identity = await createIdentity(userId);
+  }
+
+  await apiRequest("PUT", `/api/keys/devices/${encodeURIComponent(device.deviceId)}`, {
+    publicKey: device.publicKey,
+    // Without the identity key the device waits to be linked from another one
+    signature: identity ? await signDevice(identity, device) : undefined,
+  });
+
+  bundle = await fetchKeyBundle(userId, { fresh: true });
+  return linkStatus(userId, bundle);
+}
+
+export async function linkStatus(userId: number, bundle: KeyBundle): Promise<DeviceLinkStatus> {
+  const trusted = await trustedDevices(bundle);
+  const deviceId = getDeviceId();
+  return {
+    linked: trusted.some((device) => device.deviceId === deviceId),
+    canLinkDevices: !!(await currentIdentity(userId, bundle)),
+    pendingDevices: bundle.devices.filter(
+      (device) => device.deviceId !== deviceId && !trusted.includes(device),
+    ),
+  };
+}
+
+// Signs another device of this account with the identity key held here
+export async function linkDevice(userId: number, device: DeviceKey): Promise<void> {
+  const bundle = await fetchKeyBundle(userId, { fresh: true });
+  const identity = await currentIdentity(userId, bundle);
+  if (!identity) throw new Error("This device can't link other devices");
+  await apiRequest(
+    "PUT",
+    `/api/keys/devices/${encodeURIComponent(device.deviceId)}/signature`,
+    { signature: await signDevice(identity, device) },
+  );
+}
+
+// Replaces the account's identity with a new one held by this device. Every
+// other device is unlinked and contacts are warned that the key changed.
+export async function resetIdentity(userId: number): Promise<DeviceLinkStatus> {
+  await createIdentity(userId);
+  return registerDeviceKey(userId);
+}
+
+/* Public key directory */
+
+const directory = new Map<number, Promise<KeyBundle>>();
+
+export function fetchKeyBundle(userId: number, { fresh = false } = {}): Promise<KeyBundle> {
+  let bundle = directory.get(userId);
+  if (!bundle || fresh) {
+    bundle = apiRequest("GET", `/api/users/${userId}/keys`).then((res) => res.json());
+    directory.set(userId, bundle);
+    bundle.catch(() => directory.delete(userId));
+  }
+  return bundle;
+}
+
+// Devices whose keys carry a valid signature from the account's identity key
+export async function trustedDevices(bundle: KeyBundle): Promise<DeviceKey[]> {
+  if (!bundle.identityKey) return [];
+  const identityKey = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(bundle.identityKey.publicKey),
+    IDENTITY_ALGORITHM,
+    true,
+    ["verify"],
+  );
+  const verified = await Promise.all(
+    bundle.devices.map(
+      async (device) =>
+        !!device.signature &&
+        crypto.subtle
+          .verify(
+            IDENTITY_ALGORITHM,
+            identityKey,
+            fromBase64(device.signature),
+            deviceStatement(device),
+          )
+          .catch(() => false),
+    ),
+  );
+  return bundle.devices.filter((_, i) => verified[i]);
+}
+
+async function findDeviceKey(userId: number, deviceId: string) {
+  const match = async (bundle: KeyBundle) =>
+    (await trustedDevices(bundle)).find((key) => key.deviceId === deviceId);
+  // A miss may just mean the device was added after the directory was cached
+  return (
+    (await match(await fetchKeyBundle(userId))) ??
+    (await match(await fetchKeyBundle(userId, { fresh: true })))
+  );
+}
+
+async function deriveWrappingKey(privateKey: CryptoKey, peerPublicKey: string) {
+  const publicKey = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(peerPublicKey),
+    KEY_ALGORITHM,
+    true,
+    [],
+  );
+  const secret = await crypto.subtle.deriveBits(
+    { name: KEY_ALGORITHM.name, public: publicKey },
+    privateKey,
+    256,
+  );
+  const hkdfKey = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: encoder.encode("safe-massage/wrap/v1"),
+    },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function wrapKey(
+  privateKey: CryptoKey,
+  device: DeviceKey,
+  rawKey: ArrayBuffer,
+  additionalData: Uint8Array,
+): Promise<WrappedKey> {
+  const iv = randomIv();
+  const wrappingKey = await deriveWrappingKey(privateKey, device.publicKey);
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData },
+    wrappingKey,
+    rawKey,
+  );
+  return {
+    userId: device.userId,
+    deviceId: device.deviceId,
+    iv: toBase64(iv),
+    wrappedKey: toBase64(wrappedKey),
+  };
+}
+
+async function unwrapKey(
+  userId: number,
+  senderPublicKey: string,
+  entry: Pick<WrappedKey, "iv" | "wrappedKey">,
+  additionalData: Uint8Array,
+): Promise<CryptoKey> {
+  const { privateKey } = await getDeviceKeyPair(userId);
+  const wrappingKey = await deriveWrappingKey(privateKey, senderPublicKey);
+  const rawKey = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(entry.iv), additionalData },
+    wrappingKey,
+    fromBase64(entry.wrappedKey),
+  );
+  return crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["decrypt"]);
+}
+
+// Trusted devices of everyone who should read a message; the sender's own
+// devices, this one included, must be able to read it back
+async function readerDevices(senderId: number, memberIds: number[]) {
+  const userIds = Array.from(new Set([senderId, ...memberIds]));
+  const bundles = await Promise.all(userIds.map((id) => fetchKeyBundle(id, { fresh: true })));
+  const devices = (await Promise.all(bundles.map(trustedDevices))).flat();
+  if (!devices.some((device) => device.userId === senderId && device.deviceId === getDeviceId())) {
+    throw new Error("Link this device to your account before sending encrypted messages");
+  }
+  return { userIds, devices };
+}
+
+async function encryptContent(
+  key: CryptoKey,
+  conversationId: number,
+  senderId: number,
+  content: string,
+) {
+  const iv = randomIv();
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: contentAad(conversationId, senderId) },
+    key,
+    encoder.encode(content),
+  );
+  return { iv: toBase64(iv), content: toBase64(ciphertext) };
+}
+
+/* Sender keys */
+
+type SenderKeyState = {
+  keyId: string;
+  key: CryptoKey;
+  epoch: number;
+  // "<userId>:<deviceId>" of every device the key was shared with, sorted
+  devices: string[];
+};
+
+const senderKeyName = (userId: number, conversationId: number) =>
+  `sender-key:${userId}:${conversationId}`;
+
+// This device's key for the group, replaced whenever membership or member
+// devices changed since it was shared
+async function currentSenderKey(
+  senderId: number,
+  conversation: ConversationSummary,
+): Promise<SenderKeyState> {
+  const { devices } = await readerDevices(
+    senderId,
+    conversation.members.map((member) => member.id),
+  );
+  const deviceIds = devices.map((device) => `${device.userId}:${device.deviceId}`).sort();
+
+  const name = senderKeyName(senderId, conversation.id);
+  const stored = await loadKey<SenderKeyState>(name);
+  if (
+    stored &&
+    stored.epoch === conversation.epoch &&
+    stored.devices.join(",") === deviceIds.join(",")
+  ) {
+    return stored;
+  }
+
+  const keyId = crypto.randomUUID();
+  const rawKey = await crypto.subtle.exportKey(
+    "raw",
+    await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]),
+  );
+  const { privateKey } = await getDeviceKeyPair(senderId);
+  const distributions = await Promise.all(
+    devices.map((device) =>
+      wrapKey(
+        privateKey,
+        device,
+        rawKey,
+        senderKeyAad(conversation.id, keyId, device.userId, device.deviceId),
+      ),
+    ),
+  );
+  await apiRequest("POST", `/api/conversations/${conversation.id}/sender-keys`, {
+    keyId,
+    deviceId: getDeviceId(),
+    epoch: conversation.epoch,
+    distributions,
+  });
+
+  // Kept non-extractable from here on
+  const state: SenderKeyState = {
+    keyId,
+    key: await crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["encrypt"]),
+    epoch: conversation.epoch,
+    devices: deviceIds,
+  };
+  await saveKey(name, state);
+  return state;
+}
+
+const receivedSenderKeys = new Map<string, Promise<CryptoKey>>();
+
+function fetchSenderKey(message: Message, keyId: string, userId: number): Promise<CryptoKey> {
+  let key = receivedSenderKeys.get(keyId);
+  if (!key) {
+    key = (async () => {
+      const deviceId = getDeviceId();
+      const res = await apiRequest(
+        "GET",
+        `/api/conversations/${message.conversationId}/sender-keys/${keyId}?deviceId=${encodeURIComponent(deviceId)}`,
+      );
+      const senderKey: SenderKeyForDevice = await res.json();
+      if (senderKey.userId !== message.senderId) throw new Error("Sender key owner mismatch");
+      const device = await findDeviceKey(senderKey.userId, senderKey.deviceId);
+      if (!device) throw new Error("Sender key comes from an untrusted device");
+      return unwrapKey(
+        userId,
+        device.publicKey,
+        senderKey,
+        senderKeyAad(message.conversationId, keyId, userId, deviceId),
+      );
+    })();
+    receivedSenderKeys.set(keyId, key);
+    key.catch(() => receivedSenderKeys.delete(keyId));
+  }
+  return key;
+}
+
+/* Messages */
+
+type SealedMessage = { content: string; envelope: MessageEnvelope };
+
+// Seals a message for everyone currently in the conversation
+export async function encryptMessage({
+  senderId,
+  conversationId,
+  content,
+}: {
+  senderId: number;
+  conversationId: number;
+  content: string;
+}): Promise<SealedMessage> {
+  // Fetched fresh so a membership change is never missed
+  const res = await apiRequest("GET", `/api/conversations/${conversationId}`);
+  const conversation: ConversationSummary = await res.json();
+  const senderDeviceId = getDeviceId();
+
+  if (conversation.type === "group") {
+    const senderKey = await currentSenderKey(senderId, conversation);
+    const sealed = await encryptContent(senderKey.key, conversationId, senderId, content);
+    return {
+      content: sealed.content,
+      envelope: { v: 2, senderDeviceId, keyId: senderKey.keyId, iv: sealed.iv },
+    };
+  }
+
+  const { userIds, devices } = await readerDevices(
+    senderId,
+    conversation.members.map((member) => member.id),
+  );
+  const unreachable = userIds.filter((id) => !devices.some((device) => device.userId === id));
+  if (unreachable.length) {
+    throw new Error("The recipient hasn't set up encryption on any device yet");
+  }
+
+  const messageKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+  ]);
+  const sealed = await encryptContent(messageKey, conversationId, senderId, content);
+  const rawKey = await crypto.subtle.exportKey("raw", messageKey);
+  const { privateKey } = await getDeviceKeyPair(senderId);
+  const keys = await Promise.all(
+    devices.map((device) =>
+      wrapKey(privateKey, device, rawKey, keyAad(device.userId, device.deviceId)),
+    ),
+  );
+
+  return {
+    content: sealed.content,
+    envelope: { v: 1, senderDeviceId, iv: sealed.iv, keys },
+  };
+}
+
+async function openEnvelope(message: Message, envelope: MessageEnvelope, userId: number) {
+  if (!message.senderId) return null;
+  const deviceId = getDeviceId();
+
+  let messageKey: CryptoKey;
+  if (envelope.v === 2) {
+    messageKey = await fetchSenderKey(message, envelope.keyId, userId);
+  } else {
+    const entry = envelope.keys.find((key) => key.userId === userId && key.deviceId === deviceId);
+    if (!entry) return null;
+    const senderKey = await findDeviceKey(message.senderId, envelope.senderDeviceId);
+    if (!senderKey) return null;
+    messageKey = await unwrapKey(userId, senderKey.publicKey, entry, keyAad(userId, deviceId));
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(envelope.iv),
+      additionalData: contentAad(message.conversationId, message.senderId),
+    },
+    messageKey,
+    fromBase64(message.content),
+  );
+  return decoder.decode(plaintext);
+}
+
+// Only successes are cached, so a transient failure can be retried later.
+// Keyed by message id and IV, as an edit replaces the ciphertext.
+const plaintexts = new Map<string, string>();
+
+// Returns the message with `content` replaced by its plaintext (or a
+// placeholder when this device can't open it); unencrypted messages pass
+// through unchanged.
+export async function decryptMessage<T extends Message>(message: T, userId: number): Promise<T> {
+  if (!message.envelope) return message;
+
+  const cacheKey = `${message.id}:${message.envelope.iv}`;
+  let content = plaintexts.get(cacheKey);
+  if (content === undefined) {
+    try {
+      content = (await openEnvelope(message, message.envelope, userId)) ?? undefined;
+    } catch (error) {
+      console.error("Failed to decrypt message", message.id, error);
+    }
+    if (content !== undefined) plaintexts.set(cacheKey, content);
+  }
+  return { ...message, content: content ?? UNDECRYPTABLE_PLACEHOLDER };
+}
+
+/* Fingerprints */
+
+const FINGERPRINT_ITERATIONS = 5200;
+
+// 30 digits identifying one account's identity key. Iterated hashing makes
+// finding a look-alike key expensive.
+async function fingerprint(userId: number, identityKey: string): Promise<string> {
+  const key = fromBase64(identityKey);
+  const prefix = encoder.encode(`safe-massage/fingerprint/v1:${userId}:`);
+  let hash = new Uint8Array(await crypto.subtle.digest("SHA-512", concat(prefix, key)));
+  for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest("SHA-512", concat(hash, key)));
+  }
+
+  let digits = "";
+  for (let offset = 0; offset < 30; offset += 5) {
+    const chunk = hash.slice(offset, offset + 5).reduce((n, byte) => n * 256 + byte, 0);
+    digits += String(chunk % 100000).padStart(5, "0");
+  }
+  return digits;
+}
+
+// The same 60 digits on both sides: each account's fingerprint, lower user
+// id first. Returned as groups of five for display.
+export async function safetyNumber(
+  a: { userId: number; identityKey: string },
+  b: { userId: number; identityKey: string },
+): Promise<string[]> {
+  const [first, second] = [a, b].sort((x, y) => x.userId - y.userId);
+  const digits =
+    (await fingerprint(first.userId, first.identityKey)) +
+    (await fingerprint(second.userId, second.identityKey));
+  return digits.match(/\d{5}/g)!;
+}
+
+// Short code to compare a device being linked on both screens
+export async function deviceCode(publicKey: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", fromBase64(publicKey)));
+  return Array.from(hash.slice(0, 4), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()
+    .replace(/(.{4})/, "$1-");
+}
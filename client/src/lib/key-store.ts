@@ -0,0 +1,40 @@
+const DB_NAME = "safe-massage";
+const DB_VERSION = 1;
+const STORE = "keys";
+
+// IndexedDB can hold CryptoKey objects directly, so private keys are stored
+// non-extractable and never exist as raw bytes in page memory.
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function loadKey<T>(name: string): Promise<T | undefined> {
+  return withStore("readonly", (store) => store.get(name));
+}
+
+export async function saveKey<T>(name: string, value: T): Promise<void> {
+  await withStore("readwrite", (store) => store.put(value, name));
+}
@@ -0,0 +1,27 @@
+// What this user has seen of each contact's identity key, and whether they
+// compared safety numbers with them. Kept only on this device: the server
+// must not be able to mark a key as verified.
+export type TrustRecord = {
+  identityKey: string;
+  verified: boolean;
+};
+
+const storageKey = (userId: number) => `safe-massage:trust:${userId}`;
+
+function loadAll(userId: number): Record<number, TrustRecord> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function loadTrust(userId: number, contactId: number): TrustRecord | undefined {
+  return loadAll(userId)[contactId];
+}
+
+export function saveTrust(userId: number, contactId: number, record: TrustRecord) {
+  const all = loadAll(userId);
+  all[contactId] = record;
+  localStorage.setItem(storageKey(userId), JSON.stringify(all));
+}
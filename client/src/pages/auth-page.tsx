@@ -4,13 +4,27 @@ import { Input } from "@/components/ui/input";
 import { Form } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema } from "@shared/schema";
+import {
+  loginSchema,
+  registerUserSchema,
+  LoginData,
+  RegisterUser,
+} from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { MessageSquare } from "lucide-react";
+import { Fingerprint, MessageSquare } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { TotpInput } from "@/components/totp-input";
+import { PasswordResetForm } from "@/components/password-reset-form";
+import { PasswordStrengthMeter } from "@/components/password-strength-meter";
 
 const formVariants = {
   initial: { opacity: 0, x: -20 },
@@ -44,13 +58,41 @@ const heroVariants = {
 };
 
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const {
+    user,
+    loginMutation,
+    registerMutation,
+    pendingVerification,
+    setPendingVerification,
+    verifyMutation,
+    resendMutation,
+    pendingSecondFactor,
+    setPendingSecondFactor,
+    secondFactorMutation,
+    passkeyLoginMutation,
+  } = useAuth();
   const { theme } = useTheme();
   const [isLogin, setIsLogin] = useState(true);
-  const form = useForm({
-    resolver: zodResolver(insertUserSchema),
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  // Set when arriving from the link in a reset email
+  const [resetToken, setResetToken] = useState(
+    () => new URLSearchParams(window.location.search).get("reset") ?? undefined,
+  );
+  const [isResetting, setIsResetting] = useState(!!resetToken);
+  const loginForm = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: ""
+    }
+  });
+  const registerForm = useForm<RegisterUser>({
+    resolver: zodResolver(registerUserSchema),
     defaultValues: {
       username: "",
+      email: "",
       password: ""
     }
   });
@@ -60,14 +102,46 @@ export default function AuthPage() {
     return <Redirect to="/" />;
   }
 
-  const onSubmit = async (data: any) => {
-    if (isLogin) {
-      await loginMutation.mutateAsync(data);
-    } else {
-      await registerMutation.mutateAsync(data);
-    }
+  const onLogin = (data: LoginData) => {
+    loginMutation.mutate(data);
+  };
+
+  const onRegister = (data: RegisterUser) => {
+    registerMutation.mutate(data);
+  };
+
+  const onVerify = (value: string) => {
+    if (!pendingVerification || value.length !== 6) return;
+    verifyMutation.mutate({ username: pendingVerification, code: value });
+  };
+
+  const onSecondFactor = (value: string) => {
+    if (value.length !== 6) return;
+    secondFactorMutation.mutate({ code: value }, { onSettled: () => setCode("") });
+  };
+
+  const leaveSecondFactor = () => {
+    setCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+    setPendingSecondFactor(null);
   };
 
+  const leaveReset = () => {
+    setIsResetting(false);
+    setResetToken(undefined);
+    // Drop the spent token from the address bar
+    window.history.replaceState(null, "", window.location.pathname);
+  };
+
+  const formKey = isResetting
+    ? "reset"
+    : pendingSecondFactor
+      ? "second-factor"
+      : pendingVerification
+        ? "verify"
+        : isLogin ? "login" : "register";
+
   return (
     <div className="min-h-screen flex flex-col lg:flex-row relative overflow-hidden">
       {/* Animated background */}
@@ -94,7 +168,7 @@ export default function AuthPage() {
       <div className="flex-1 p-4 sm:p-8 flex items-center justify-center">
         <AnimatePresence mode="wait">
           <motion.div
-            key={isLogin ? "login" : "register"}
+            key={formKey}
             variants={formVariants}
             initial="initial"
             animate="animate"
@@ -104,57 +178,258 @@ export default function AuthPage() {
             <Card className="backdrop-blur-md bg-card/95">
               <CardHeader className="space-y-1">
                 <CardTitle className="text-2xl text-center">
-                  {isLogin ? "Welcome back" : "Create an account"}
+                  {isResetting
+                    ? "Reset your password"
+                    : pendingSecondFactor
+                      ? "Two-factor authentication"
+                      : pendingVerification
+                        ? "Verify your account"
+                        : isLogin ? "Welcome back" : "Create an account"}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                    <motion.div 
-                      className="space-y-2"
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: 0.2 }}
-                    >
+                {isResetting ? (
+                  <PasswordResetForm initialToken={resetToken} onDone={leaveReset} />
+                ) : pendingSecondFactor ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (useRecoveryCode) {
+                        secondFactorMutation.mutate({ recoveryCode });
+                      } else {
+                        onSecondFactor(code);
+                      }
+                    }}
+                    className="space-y-4"
+                  >
+                    <p className="text-sm text-muted-foreground text-center">
+                      {useRecoveryCode
+                        ? "Enter one of the recovery codes you saved"
+                        : "Enter the 6-digit code from your authenticator app"}
+                    </p>
+                    {useRecoveryCode ? (
                       <Input
-                        placeholder="Username"
-                        {...form.register("username")}
+                        placeholder="XXXXX-XXXXX"
+                        value={recoveryCode}
+                        onChange={(e) => setRecoveryCode(e.target.value.trim())}
+                        autoFocus
                       />
-                      <Input
-                        type="password"
-                        placeholder="Password"
-                        {...form.register("password")}
+                    ) : (
+                      <TotpInput
+                        value={code}
+                        onChange={setCode}
+                        onComplete={onSecondFactor}
+                        disabled={secondFactorMutation.isPending}
+                        autoFocus
                       />
-                    </motion.div>
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      transition={{ delay: 0.4 }}
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={
+                        (useRecoveryCode ? !recoveryCode : code.length !== 6) ||
+                        secondFactorMutation.isPending
+                      }
                     >
+                      Continue
+                    </Button>
+                    <div className="flex justify-between">
                       <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={loginMutation.isPending || registerMutation.isPending}
+                        type="button"
+                        variant="link"
+                        className="text-sm"
+                        onClick={leaveSecondFactor}
                       >
-                        {isLogin ? "Sign In" : "Sign Up"}
+                        Back to sign in
                       </Button>
-                    </motion.div>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="text-sm"
+                        onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                      >
+                        {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                      </Button>
+                    </div>
                   </form>
-                </Form>
-                <motion.div 
-                  className="mt-4 text-center"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.6 }}
-                >
-                  <Button
-                    variant="link"
-                    onClick={() => setIsLogin(!isLogin)}
-                    className="text-sm"
+                ) : pendingVerification ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      onVerify(code);
+                    }}
+                    className="space-y-4"
                   >
-                    {isLogin ? "Need an account?" : "Already have an account?"}
-                  </Button>
-                </motion.div>
+                    <p className="text-sm text-muted-foreground text-center">
+                      Enter the 6-digit code we sent for{" "}
+                      <span className="font-medium">{pendingVerification}</span>
+                    </p>
+                    <div className="flex justify-center">
+                      <InputOTP
+                        maxLength={6}
+                        pattern={REGEXP_ONLY_DIGITS}
+                        value={code}
+                        onChange={setCode}
+                        onComplete={onVerify}
+                        autoFocus
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, i) => (
+                            <InputOTPSlot key={i} index={i} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={code.length !== 6 || verifyMutation.isPending}
+                    >
+                      Verify
+                    </Button>
+                    <div className="flex justify-between">
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="text-sm"
+                        onClick={() => {
+                          setCode("");
+                          setPendingVerification(null);
+                        }}
+                      >
+                        Back to sign in
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="text-sm"
+                        disabled={resendMutation.isPending}
+                        onClick={() =>
+                          resendMutation.mutate({ username: pendingVerification })
+                        }
+                      >
+                        Resend code
+                      </Button>
+                    </div>
+                  </form>
+                ) : isLogin ? (
+                  <Form {...loginForm}>
+                    <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                      <motion.div 
+                        className="space-y-2"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.2 }}
+                      >
+                        <Input
+                          placeholder="Username"
+                          {...loginForm.register("username")}
+                        />
+                        <Input
+                          type="password"
+                          placeholder="Password"
+                          {...loginForm.register("password")}
+                        />
+                      </motion.div>
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.4 }}
+                      >
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          Sign In
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="w-full mt-2"
+                          onClick={() => passkeyLoginMutation.mutate()}
+                          disabled={passkeyLoginMutation.isPending}
+                        >
+                          <Fingerprint className="h-4 w-4 mr-2" />
+                          Sign in with passkey
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="w-full text-sm"
+                          onClick={() => setIsResetting(true)}
+                        >
+                          Forgot password?
+                        </Button>
+                      </motion.div>
+                    </form>
+                  </Form>
+                ) : (
+                  <Form {...registerForm}>
+                    <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
+                      <motion.div 
+                        className="space-y-2"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.2 }}
+                      >
+                        <Input
+                          placeholder="Username"
+                          {...registerForm.register("username")}
+                        />
+                        <Input
+                          type="email"
+                          placeholder="Email"
+                          {...registerForm.register("email")}
+                        />
+                        {registerForm.formState.errors.email && (
+                          <p className="text-sm text-destructive">
+                            {registerForm.formState.errors.email.message}
+                          </p>
+                        )}
+                        <Input
+                          type="password"
+                          placeholder="Password"
+                          autoComplete="new-password"
+                          {...registerForm.register("password")}
+                        />
+                        <PasswordStrengthMeter
+                          password={registerForm.watch("password")}
+                          username={registerForm.watch("username")}
+                        />
+                      </motion.div>
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.4 }}
+                      >
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          Sign Up
+                        </Button>
+                      </motion.div>
+                    </form>
+                  </Form>
+                )}
+                {!pendingVerification && !pendingSecondFactor && !isResetting && (
+                  <motion.div 
+                    className="mt-4 text-center"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.6 }}
+                  >
+                    <Button
+                      variant="link"
+                      onClick={() => setIsLogin(!isLogin)}
+                      className="text-sm"
+                    >
+                      {isLogin ? "Need an account?" : "Already have an account?"}
+                    </Button>
+                  </motion.div>
+                )}
               </CardContent>
             </Card>
           </motion.div>
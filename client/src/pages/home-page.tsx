@@ -1,21 +1,93 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useWebSocket } from "@/hooks/use-websocket";
-import { useQuery } from "@tanstack/react-query";
-import { Message, User } from "@shared/schema";
+import { useWebSocket, type MessageStatus } from "@/hooks/use-websocket";
+import { useConversations } from "@/hooks/use-conversations";
+import { useContactIdentity } from "@/hooks/use-identity";
+import { useAttachmentUpload, useImageUpload, useMessageActions } from "@/hooks/use-messages";
+import { blocksQueryKey } from "@/hooks/use-blocks";
+import { useToast } from "@/hooks/use-toast";
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { decryptMessage } from "@/lib/e2ee";
+import {
+  Attachment,
+  BlockSummary,
+  ConversationSummary,
+  disappearingTimers,
+  Message,
+  MessagePage,
+  MessageWithReceipts,
+} from "@shared/schema";
+import {
+  conversationsQueryKey,
+  conversationTitle,
+  disappearingTimerLabels,
+  messagesQueryKey,
+  otherMember,
+} from "@/lib/conversations";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarImage } from "@/components/ui/avatar";
 import { Card } from "@/components/ui/card";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { LogOut, Send, Wifi, WifiOff, Smile, Menu } from "lucide-react";
+import {
+  LogOut,
+  Send,
+  Wifi,
+  WifiOff,
+  Smile,
+  Menu,
+  Check,
+  CheckCheck,
+  Clock,
+  Loader2,
+  DoorOpen,
+  Flag,
+  ImagePlus,
+  Fingerprint,
+  Settings,
+  KeyRound,
+  Paperclip,
+  MessagesSquare,
+  Shield,
+  ShieldAlert,
+  ShieldCheck,
+  Timer,
+  Users,
+  X,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useState, useEffect, useRef } from "react";
-import { format } from "date-fns";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { format, formatDistanceToNowStrict } from "date-fns";
 import { ChatSidebar } from "@/components/chat-sidebar";
+import { DeviceLinkBanner } from "@/components/device-link-banner";
+import { SafetyNumberDialog } from "@/components/safety-number-dialog";
+import { GroupMembersDialog } from "@/components/group-members-dialog";
+import { MessageHistoryDialog } from "@/components/message-history-dialog";
+import { ImageLightbox } from "@/components/image-lightbox";
+import { AttachmentCard } from "@/components/attachment-card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { TwoFactorDialog } from "@/components/two-factor-dialog";
+import { PasskeysDialog } from "@/components/passkeys-dialog";
+import { ReportDialog } from "@/components/report-dialog";
 import EmojiPicker, { EmojiClickData } from "emoji-picker-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Redirect } from "wouter";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Link, Redirect } from "wouter";
 
 // Animation variants for messages
 const messageVariants = {
@@ -62,75 +134,429 @@ const TypingIndicator = () => (
   </div>
 );
 
+// Sent but not yet acknowledged by the server
+type PendingMessage = {
+  clientId: string;
+  content: string;
+  conversationId: number;
+  imageUrl?: string;
+  attachments: Attachment[];
+  createdAt: Date;
+};
+
+// Load older history once the user scrolls this close to the top
+const LOAD_MORE_THRESHOLD_PX = 200;
+
+const MessageTicks = ({ status }: { status: MessageStatus }) => {
+  switch (status) {
+    case "sending":
+      return <Clock className="h-3 w-3 opacity-70" aria-label="Sending" />;
+    case "sent":
+      return <Check className="h-3 w-3 opacity-70" aria-label="Sent" />;
+    case "delivered":
+      return <CheckCheck className="h-3 w-3 opacity-70" aria-label="Delivered" />;
+    case "read":
+      return <CheckCheck className="h-3 w-3 text-sky-300" aria-label="Read" />;
+  }
+};
+
 export default function HomePage() {
   const { user, logoutMutation } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { toast } = useToast();
+  const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
+  // Keeps an acked message's React key equal to its temporary id so the
+  // bubble doesn't re-animate when the server copy replaces it
+  const [clientKeys, setClientKeys] = useState<Record<number, string>>({});
+  // Messages this user has already reported as read
+  const readIdsRef = useRef(new Set<number>());
+  // History messages whose receipts have already been synced
+  const syncedIdsRef = useRef(new Set<number>());
   const [newMessage, setNewMessage] = useState("");
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const { sendMessage, subscribe, isConnected } = useWebSocket();
+  const [selectedConversationId, setSelectedConversationId] = useState<number>();
+  const { conversations, refreshConversations, leaveMutation, timerMutation } = useConversations();
+  const conversation = conversations.find(c => c.id === selectedConversationId);
+  // The other participant of a direct conversation, whose identity can be verified
+  const contact = conversation && user ? otherMember(conversation, user.id) : undefined;
+  const contactIdentity = useContactIdentity(contact?.id);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isShowingMembers, setIsShowingMembers] = useState(false);
+  const [isShowingTwoFactor, setIsShowingTwoFactor] = useState(false);
+  const [isShowingPasskeys, setIsShowingPasskeys] = useState(false);
+  // Own message being corrected in the input, and message whose history is open
+  const [editingMessage, setEditingMessage] = useState<Message>();
+  const [historyMessage, setHistoryMessage] = useState<Message>();
+  // Someone else's message being reported, and who sent it
+  const [reportedMessage, setReportedMessage] = useState<Message>();
+  const reportedSender = conversation?.members.find(
+    member => member.id === reportedMessage?.senderId,
+  );
+  const { editMutation, deleteMutation } = useMessageActions();
+  const uploadMutation = useImageUpload();
+  const attachmentMutation = useAttachmentUpload();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  // Picture shown full size, with its caption
+  const [lightbox, setLightbox] = useState<{ url: string; caption: string }>();
+  const {
+    sendMessage,
+    subscribe,
+    isConnected,
+    editWindowMs,
+    sendTypingStatus,
+    sendReceipts,
+    recordReceipts,
+    getMessageStatus,
+  } = useWebSocket();
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
 
-  const { data: initialMessages } = useQuery<Message[]>({
-    queryKey: ["/api/messages"],
+  // Scroll position captured before loading an older page, restored once it
+  // has rendered so the visible messages don't jump
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+
+  const conversationId = conversation?.id;
+
+  const {
+    data: history,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey(conversationId ?? 0),
+    enabled: conversationId !== undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (pageParam) params.set("before", String(pageParam));
+      const res = await apiRequest(
+        "GET",
+        `/api/conversations/${conversationId}/messages?${params}`,
+      );
+      const page = (await res.json()) as MessagePage;
+      return {
+        ...page,
+        messages: await Promise.all(page.messages.map(msg => decryptMessage(msg, user!.id))),
+      };
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  // Pages arrive newest first; each page is oldest first
+  const messages: MessageWithReceipts[] = history
+    ? [...history.pages].reverse().flatMap(page => page.messages)
+    : [];
+
   useEffect(() => {
-    if (initialMessages) {
-      setMessages(initialMessages.filter(msg => 
-        !selectedUser || 
-        msg.senderId === selectedUser.id || 
-        msg.receiverId === selectedUser.id
-      ));
-    }
-  }, [initialMessages, selectedUser]);
+    if (!user) return;
+    const unsynced = messages.filter(msg => !syncedIdsRef.current.has(msg.id));
+    if (unsynced.length === 0) return;
+    unsynced.forEach(msg => syncedIdsRef.current.add(msg.id));
+
+    recordReceipts(
+      unsynced
+        .filter(msg => msg.senderId === user.id)
+        .flatMap(msg => msg.receipts)
+    );
+
+    const ownReceipt = (msg: MessageWithReceipts) =>
+      msg.receipts.find(receipt => receipt.userId === user.id);
+    unsynced.forEach(msg => {
+      if (ownReceipt(msg)?.readAt) readIdsRef.current.add(msg.id);
+    });
+
+    // Anything that arrived while this user was offline reaches this device now
+    sendReceipts(
+      "delivered",
+      unsynced
+        .filter(msg => msg.senderId !== user.id && !ownReceipt(msg)?.deliveredAt)
+        .map(msg => msg.id)
+    );
+  }, [history, user, recordReceipts, sendReceipts]);
+
+  // Report messages as read only while they are actually on screen
+  useEffect(() => {
+    const markVisibleAsRead = () => {
+      if (!user || !isConnected || document.visibilityState !== "visible") return;
+      const unread = messages
+        .filter(msg => msg.senderId !== user.id && !readIdsRef.current.has(msg.id))
+        .map(msg => msg.id);
+      unread.forEach(id => readIdsRef.current.add(id));
+      sendReceipts("read", unread);
+    };
+
+    markVisibleAsRead();
+    document.addEventListener("visibilitychange", markVisibleAsRead);
+    return () => document.removeEventListener("visibilitychange", markVisibleAsRead);
+  }, [messages, user, isConnected, sendReceipts]);
 
   useEffect(() => {
-    subscribe((message: Message) => {
-      setMessages(prev => {
-        if (!selectedUser || 
-            message.senderId === selectedUser.id || 
-            message.receiverId === selectedUser.id) {
-          return [...prev, message];
+    // Settles a pending send once the server has stored it
+    const settle = (clientId: string, message: Message) => {
+      setPendingMessages(prev => prev.filter(msg => msg.clientId !== clientId));
+      setClientKeys(prev => ({ ...prev, [message.id]: clientId }));
+    };
+    // Adds a live message to the newest loaded page of its conversation.
+    // Replays after a reconnect may repeat messages already on screen.
+    const append = (message: Message, attachments: Attachment[]) => {
+      queryClient.setQueryData<InfiniteData<MessagePage>>(
+        messagesQueryKey(message.conversationId),
+        (data) => {
+          if (!data) return data; // Not loaded; the fetch will include it
+          if (data.pages.some(page => page.messages.some(msg => msg.id === message.id))) {
+            return data;
+          }
+          const [newest, ...older] = data.pages;
+          return {
+            ...data,
+            pages: [
+              {
+                ...newest,
+                messages: [...newest.messages, { ...message, receipts: [], attachments }],
+              },
+              ...older,
+            ],
+          };
+        },
+      );
+
+      // Move the conversation to the top of the sidebar with a fresh preview
+      const list = queryClient.getQueryData<ConversationSummary[]>(conversationsQueryKey);
+      const summary = list?.find(c => c.id === message.conversationId);
+      if (!list || !summary) {
+        refreshConversations(); // New to this user, e.g. a first DM
+        return;
+      }
+      if (summary.lastMessage && summary.lastMessage.id >= message.id) return;
+      queryClient.setQueryData<ConversationSummary[]>(conversationsQueryKey, [
+        { ...summary, lastMessage: message },
+        ...list.filter(c => c.id !== summary.id),
+      ]);
+    };
+
+    // Swaps in a new version of a loaded message, e.g. after an edit or as a
+    // tombstone; receipts are kept, attachments too unless it was deleted
+    const replace = (message: Message) => {
+      queryClient.setQueryData<InfiniteData<MessagePage>>(
+        messagesQueryKey(message.conversationId),
+        (data) => data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            messages: page.messages.map(msg =>
+              msg.id === message.id
+                ? {
+                    ...message,
+                    receipts: msg.receipts,
+                    attachments: message.deletedAt ? [] : msg.attachments,
+                  }
+                : msg
+            ),
+          })),
+        },
+      );
+      queryClient.setQueryData<ConversationSummary[]>(conversationsQueryKey, (list) =>
+        list?.map(c => (c.lastMessage?.id === message.id ? { ...c, lastMessage: message } : c))
+      );
+    };
+
+    // Points out messages that arrive away from the conversation on screen,
+    // or while the tab is hidden, unless the sender is muted
+    const notify = (message: Message) => {
+      const hidden = document.visibilityState !== "visible";
+      if (message.conversationId === selectedConversationId && !hidden) return;
+      const blocks = queryClient.getQueryData<BlockSummary[]>(blocksQueryKey) ?? [];
+      if (blocks.some(block => block.user.id === message.senderId)) return;
+
+      const summary = queryClient
+        .getQueryData<ConversationSummary[]>(conversationsQueryKey)
+        ?.find(c => c.id === message.conversationId);
+      const sender = summary?.members.find(member => member.id === message.senderId);
+      const title = sender ? `New message from ${sender.username}` : "New message";
+      const description = summary?.type === "group" ? (summary.name ?? undefined) : undefined;
+      if (!hidden) {
+        toast({ title, description });
+      } else if ("Notification" in window && Notification.permission === "granted") {
+        new Notification(title, {
+          body: description,
+          tag: `conversation-${message.conversationId}`,
+        });
+      }
+    };
+
+    return subscribe({
+      message: ({ message, clientId, attachments }) => {
+        if (clientId) settle(clientId, message);
+        append(message, attachments);
+        if (message.senderId !== user?.id) {
+          setIsTyping(false);
+          notify(message);
+        }
+      },
+      ack: ({ clientId, message, attachments }) => {
+        settle(clientId, message);
+        append(message, attachments);
+      },
+      userStatus: () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+      },
+      presence: () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+      },
+      messageEdited: ({ message }) => {
+        replace(message);
+      },
+      messageDeleted: ({ message }) => {
+        replace(message);
+      },
+      messageExpired: ({ conversationId, messageIds }) => {
+        const expired = new Set(messageIds);
+        queryClient.setQueryData<InfiniteData<MessagePage>>(
+          messagesQueryKey(conversationId),
+          (data) => data && {
+            ...data,
+            pages: data.pages.map(page => ({
+              ...page,
+              messages: page.messages.filter(msg => !expired.has(msg.id)),
+            })),
+          },
+        );
+        // The sidebar preview may have been one of them
+        refreshConversations();
+      },
+      disappearingTimer: () => {
+        refreshConversations();
+      },
+      membership: ({ conversationId, userId, action }) => {
+        refreshConversations();
+        if (
+          action !== "joined" &&
+          userId === user?.id &&
+          conversationId === selectedConversationId
+        ) {
+          setSelectedConversationId(undefined);
+        }
+      },
+      typing: ({ conversationId, userId, isTyping }) => {
+        // Only show the indicator for the conversation on screen
+        if (userId !== user?.id && conversationId === selectedConversationId) {
+          setIsTyping(isTyping);
         }
-        return prev;
-      });
-      setIsTyping(false);
+      },
     });
-  }, [subscribe, selectedUser]);
+  }, [subscribe, selectedConversationId, user, refreshConversations, toast]);
 
+  const newestKey = messages.length ? messages[messages.length - 1].id : null;
+
+  // Follow the conversation only when something new arrives at the bottom,
+  // not when older history is prepended above
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [conversationId, newestKey, pendingMessages]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!el || !anchor || isFetchingNextPage) return;
+    el.scrollTop = el.scrollHeight - anchor.height + anchor.top;
+    scrollAnchorRef.current = null;
+  }, [history, isFetchingNextPage]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el || !hasNextPage || isFetchingNextPage) return;
+    if (el.scrollTop > LOAD_MORE_THRESHOLD_PX) return;
+    scrollAnchorRef.current = { height: el.scrollHeight, top: el.scrollTop };
+    fetchNextPage();
+  };
 
   const handleSend = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !user) return;
+    if (!newMessage.trim() || !user || conversationId === undefined) return;
+
+    if (editingMessage) {
+      editMutation.mutate({ message: editingMessage, content: newMessage });
+      setEditingMessage(undefined);
+      setNewMessage("");
+      return;
+    }
 
-    sendMessage({
-      content: newMessage,
-      senderId: user.id,
-      receiverId: selectedUser?.id,
+    send(conversationId, newMessage);
+  };
+
+  const send = (
+    conversationId: number,
+    content: string,
+    { imageUrl, attachments = [] }: { imageUrl?: string; attachments?: Attachment[] } = {},
+  ) => {
+    const clientId = sendMessage({
+      content,
+      conversationId,
+      imageUrl,
+      attachmentIds: attachments.map(attachment => attachment.id),
     });
+    setPendingMessages(prev => [...prev, {
+      clientId,
+      content,
+      conversationId,
+      imageUrl,
+      attachments,
+      createdAt: new Date(),
+    }]);
 
     setNewMessage("");
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = undefined;
+    }
+    sendTypingStatus(false, conversationId);
+  };
+
+  // Sends the picked picture with whatever is typed as its caption
+  const handleImageSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || conversationId === undefined) return;
+
+    uploadMutation.mutate(
+      { conversationId, file },
+      { onSuccess: (image) => send(conversationId, newMessage.trim(), { imageUrl: image.url }) },
+    );
+  };
+
+  // Sends the picked file, once it passed the virus scan, with whatever is
+  // typed as its caption
+  const handleAttachmentSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || conversationId === undefined) return;
+
+    attachmentMutation.mutate(
+      { conversationId, file },
+      {
+        onSuccess: (attachment) =>
+          send(conversationId, newMessage.trim(), { attachments: [attachment] }),
+      },
+    );
   };
 
   const handleTyping = (e: React.ChangeEvent<HTMLInputElement>) => {
     setNewMessage(e.target.value);
-    setIsTyping(true);
+    if (conversationId === undefined) return;
 
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
+    } else {
+      sendTypingStatus(true, conversationId);
     }
 
     typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
+      typingTimeoutRef.current = undefined;
+      sendTypingStatus(false, conversationId);
     }, 1000);
   };
 
@@ -147,11 +573,48 @@ export default function HomePage() {
     }, 0);
   };
 
+  // An edit in progress doesn't follow the user to another conversation
+  useEffect(() => {
+    setEditingMessage(undefined);
+  }, [conversationId]);
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setTimeout(() => inputRef.current?.focus(), 0);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(undefined);
+    setNewMessage("");
+  };
+
   // If no user, redirect to auth page
   if (!user) {
     return <Redirect to="/auth" />;
   }
 
+  // Authors may edit or delete within the window the server allows
+  const canChange = (message: Message) =>
+    message.senderId === user.id &&
+    !message.deletedAt &&
+    Date.now() - new Date(message.createdAt!).getTime() < editWindowMs;
+
+  const timeline = [
+    ...messages.map(message => ({
+      key: clientKeys[message.id] ?? message.id,
+      message,
+      status: message.senderId === user.id ? getMessageStatus(message.id) : undefined,
+    })),
+    ...pendingMessages
+      .filter(msg => msg.conversationId === conversationId)
+      .map(msg => ({
+        key: msg.clientId,
+        message: { ...msg, senderId: user.id },
+        status: "sending" as const,
+      })),
+  ];
+
   return (
     <div className="h-screen flex bg-gradient-to-br from-background to-muted/20">
       <AnimatePresence>
@@ -175,11 +638,12 @@ export default function HomePage() {
         className="fixed lg:relative lg:w-80 inset-y-0 left-0 z-50 lg:transform-none"
       >
         <ChatSidebar 
-          onSelectUser={(user) => {
-            setSelectedUser(user);
+          onSelectConversation={(id) => {
+            setSelectedConversationId(id);
+            setIsTyping(false);
             setIsSidebarOpen(false);
           }}
-          selectedUserId={selectedUser?.id}
+          selectedConversationId={selectedConversationId}
         />
       </motion.div>
 
@@ -202,7 +666,7 @@ export default function HomePage() {
               <AvatarImage src={user?.avatarUrl || ""} />
             </Avatar>
             <span className="font-medium truncate">
-              {selectedUser ? `Chat with ${selectedUser.username}` : "Group Chat"}
+              {conversation ? conversationTitle(conversation, user.id) : "Safe-massage"}
             </span>
             <motion.div 
               animate={{ scale: isConnected ? 1 : 0.8 }}
@@ -216,6 +680,103 @@ export default function HomePage() {
             </motion.div>
           </div>
           <div className="flex items-center gap-2">
+            {conversation && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label="Disappearing messages">
+                    <Timer
+                      className={`h-5 w-5 ${conversation.disappearAfter ? "text-primary" : ""}`}
+                    />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuRadioGroup
+                    value={String(conversation.disappearAfter)}
+                    onValueChange={(value) => timerMutation.mutate({
+                      conversationId: conversation.id,
+                      seconds: Number(value),
+                    })}
+                  >
+                    {disappearingTimers.map(seconds => (
+                      <DropdownMenuRadioItem key={seconds} value={String(seconds)}>
+                        {disappearingTimerLabels[seconds]}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {contact && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsVerifying(true)}
+                aria-label="Verify safety number"
+              >
+                {contactIdentity.verified ? (
+                  <ShieldCheck className="h-5 w-5 text-green-500" />
+                ) : contactIdentity.keyChanged ? (
+                  <ShieldAlert className="h-5 w-5 text-destructive" />
+                ) : (
+                  <Shield className="h-5 w-5" />
+                )}
+              </Button>
+            )}
+            {conversation?.type === "group" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsShowingMembers(true)}
+                aria-label="Group members"
+              >
+                <Users className="h-5 w-5" />
+              </Button>
+            )}
+            {conversation?.type === "group" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => leaveMutation.mutate(conversation.id, {
+                  onSuccess: () => setSelectedConversationId(undefined),
+                })}
+                disabled={leaveMutation.isPending}
+                aria-label="Leave group"
+              >
+                <DoorOpen className="h-5 w-5" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsShowingTwoFactor(true)}
+              aria-label="Two-factor authentication"
+              title="Two-factor authentication"
+            >
+              <KeyRound className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsShowingPasskeys(true)}
+              aria-label="Passkeys"
+              title="Passkeys"
+            >
+              <Fingerprint className="h-5 w-5" />
+            </Button>
+            {user?.isAdmin && (
+              <Button variant="ghost" size="icon" asChild aria-label="Moderation" title="Moderation">
+                <Link href="/moderation">
+                  <Flag className="h-5 w-5" />
+                </Link>
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" asChild aria-label="Settings" title="Settings">
+              <Link href="/settings">
+                <Settings className="h-5 w-5" />
+              </Link>
+            </Button>
             <ThemeToggle />
             <Button
               variant="ghost"
@@ -228,25 +789,97 @@ export default function HomePage() {
           </div>
         </motion.header>
 
-        <ScrollArea ref={scrollRef} className="flex-1 p-2 sm:p-4">
+        <DeviceLinkBanner />
+
+        {contact && contactIdentity.keyChanged && (
+          <Alert variant="destructive" className="m-2 sm:m-4 w-auto">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>{contact.username}'s security key has changed</AlertTitle>
+            <AlertDescription>
+              <p>
+                {contactIdentity.wasVerified && "You had verified this contact. "}
+                This happens when they reset their identity, or when someone is trying to
+                intercept your messages. Verify their safety number before sharing anything
+                sensitive.
+              </p>
+              <div className="mt-2 flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setIsVerifying(true)}>
+                  Verify
+                </Button>
+                <Button size="sm" variant="ghost" onClick={contactIdentity.acceptKeyChange}>
+                  Dismiss
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {contact && (
+          <SafetyNumberDialog
+            open={isVerifying}
+            onOpenChange={setIsVerifying}
+            contact={contact}
+            identityKey={contactIdentity.identityKey}
+            verified={contactIdentity.verified}
+            onVerifiedChange={(verified) => {
+              contactIdentity.setVerified(verified);
+              setIsVerifying(false);
+            }}
+          />
+        )}
+
+        <MessageHistoryDialog
+          message={historyMessage}
+          onOpenChange={(open) => !open && setHistoryMessage(undefined)}
+        />
+
+        {conversation?.type === "group" && (
+          <GroupMembersDialog
+            open={isShowingMembers}
+            onOpenChange={setIsShowingMembers}
+            conversation={conversation}
+          />
+        )}
+
+        {reportedMessage && reportedSender && (
+          <ReportDialog
+            open
+            onOpenChange={(open) => !open && setReportedMessage(undefined)}
+            user={reportedSender}
+            message={{ id: reportedMessage.id, content: reportedMessage.content }}
+          />
+        )}
+
+        <TwoFactorDialog open={isShowingTwoFactor} onOpenChange={setIsShowingTwoFactor} />
+        <PasskeysDialog open={isShowingPasskeys} onOpenChange={setIsShowingPasskeys} />
+
+        <ImageLightbox
+          imageUrl={lightbox?.url}
+          caption={lightbox?.caption}
+          onOpenChange={(open) => !open && setLightbox(undefined)}
+        />
+
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto p-2 sm:p-4"
+        >
+          {isFetchingNextPage && (
+            <div className="flex justify-center pb-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {!conversation && (
+            <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+              <MessagesSquare className="h-10 w-10" />
+              <p>Pick a conversation, or start one from the sidebar</p>
+            </div>
+          )}
           <AnimatePresence initial={false}>
-            {messages.map((message) => (
-              <motion.div
-                key={message.id}
-                variants={messageVariants}
-                initial="initial"
-                animate="animate"
-                exit="exit"
-                layout
-                className={`flex gap-2 mb-4 ${
-                  message.senderId === user?.id ? "justify-end" : "justify-start"
-                }`}
-              >
-                {message.senderId !== user?.id && message.senderId && (
-                  <Avatar className="h-8 w-8 hidden sm:block shrink-0">
-                    <AvatarImage src={`https://images.unsplash.com/photo-${1708860028064 + message.senderId}-3303a016e88f`} />
-                  </Avatar>
-                )}
+            {timeline.map(({ key, message, status }) => {
+              // Pending messages have no id yet and can't be acted on
+              const stored = "id" in message ? message : undefined;
+              const bubble = (
                 <motion.div
                   whileHover={{ scale: 1.02 }}
                   className={`max-w-[85%] sm:max-w-[70%] ${
@@ -255,13 +888,128 @@ export default function HomePage() {
                       : "bg-muted"
                   } rounded-lg p-3 shadow-sm`}
                 >
-                  <p className="break-words">{message.content}</p>
-                  <span className="text-xs opacity-70">
-                    {format(new Date(message.createdAt!), "HH:mm")}
-                  </span>
+                  {stored?.deletedAt ? (
+                    <p className="italic opacity-70">This message was deleted</p>
+                  ) : (
+                    <>
+                      {message.imageUrl && (
+                        <button
+                          type="button"
+                          className="block mb-1"
+                          onClick={() =>
+                            setLightbox({ url: message.imageUrl!, caption: message.content })
+                          }
+                        >
+                          <img
+                            src={`${message.imageUrl}/thumbnail`}
+                            alt={message.content || "Sent image"}
+                            loading="lazy"
+                            className="max-h-64 rounded-md"
+                          />
+                        </button>
+                      )}
+                      {message.attachments.map(attachment => (
+                        <AttachmentCard key={attachment.id} attachment={attachment} />
+                      ))}
+                      {message.content && <p className="break-words">{message.content}</p>}
+                    </>
+                  )}
+                  <div className="flex items-center justify-end gap-1">
+                    {stored?.expiresAt && (
+                      <span
+                        className="flex items-center gap-0.5 text-xs opacity-70"
+                        title={`Disappears at ${format(new Date(stored.expiresAt), "PPpp")}`}
+                      >
+                        <Timer className="h-3 w-3" />
+                        {formatDistanceToNowStrict(new Date(stored.expiresAt))}
+                      </span>
+                    )}
+                    {stored?.editedAt && !stored.deletedAt && (
+                      <span className="text-xs opacity-70">edited</span>
+                    )}
+                    <span className="text-xs opacity-70">
+                      {format(new Date(message.createdAt!), "HH:mm")}
+                    </span>
+                    {status && <MessageTicks status={status} />}
+                  </div>
+                </motion.div>
+              );
+
+              return (
+                <motion.div
+                  key={key}
+                  variants={messageVariants}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  layout
+                  className={`flex gap-2 mb-4 ${
+                    message.senderId === user?.id ? "justify-end" : "justify-start"
+                  }`}
+                >
+                  {message.senderId !== user?.id && message.senderId && (
+                    <Avatar className="h-8 w-8 hidden sm:block shrink-0">
+                      <AvatarImage src={`https://images.unsplash.com/photo-${1708860028064 + message.senderId}-3303a016e88f`} />
+                    </Avatar>
+                  )}
+                  {stored && !stored.deletedAt ? (
+                    <ContextMenu>
+                      <ContextMenuTrigger asChild>{bubble}</ContextMenuTrigger>
+                      <ContextMenuContent>
+                        {stored.content && (
+                          <ContextMenuItem
+                            onSelect={() => navigator.clipboard.writeText(stored.content)}
+                          >
+                            Copy text
+                          </ContextMenuItem>
+                        )}
+                        {stored.imageUrl && (
+                          <ContextMenuItem
+                            onSelect={() =>
+                              setLightbox({ url: stored.imageUrl!, caption: stored.content })
+                            }
+                          >
+                            View image
+                          </ContextMenuItem>
+                        )}
+                        {stored.editedAt && (
+                          <ContextMenuItem onSelect={() => setHistoryMessage(stored)}>
+                            View edit history
+                          </ContextMenuItem>
+                        )}
+                        {canChange(stored) && (
+                          <>
+                            <ContextMenuSeparator />
+                            <ContextMenuItem onSelect={() => startEditing(stored)}>
+                              Edit
+                            </ContextMenuItem>
+                            <ContextMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onSelect={() => deleteMutation.mutate(stored)}
+                            >
+                              Delete for everyone
+                            </ContextMenuItem>
+                          </>
+                        )}
+                        {stored.senderId && stored.senderId !== user?.id && (
+                          <>
+                            <ContextMenuSeparator />
+                            <ContextMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onSelect={() => setReportedMessage(stored)}
+                            >
+                              Report
+                            </ContextMenuItem>
+                          </>
+                        )}
+                      </ContextMenuContent>
+                    </ContextMenu>
+                  ) : (
+                    bubble
+                  )}
                 </motion.div>
-              </motion.div>
-            ))}
+              );
+            })}
           </AnimatePresence>
           {isTyping && (
             <motion.div
@@ -273,18 +1021,80 @@ export default function HomePage() {
               <TypingIndicator />
             </motion.div>
           )}
-        </ScrollArea>
+        </div>
 
         <Card className="m-2 sm:m-4 bg-card/80 backdrop-blur supports-[backdrop-filter]:bg-card/50">
+          {editingMessage && (
+            <div className="flex items-center justify-between px-3 pt-2 text-xs text-muted-foreground">
+              <span>Editing message</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={cancelEditing}
+                aria-label="Cancel editing"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
           <form onSubmit={handleSend} className="flex gap-2 p-2">
             <Input
               ref={inputRef}
               value={newMessage}
               onChange={handleTyping}
-              placeholder={`Message ${selectedUser ? selectedUser.username : 'everyone'}...`}
+              placeholder={conversation ? `Message ${conversationTitle(conversation, user.id)}...` : "Select a conversation"}
               className="flex-1 bg-background/50"
-              disabled={!isConnected}
+              disabled={!isConnected || !conversation}
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              className="hidden"
+              onChange={handleImageSelected}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="hover:bg-muted"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                !isConnected || !conversation || !!editingMessage || uploadMutation.isPending
+              }
+              aria-label="Send image"
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <ImagePlus className="h-5 w-5" />
+              )}
+            </Button>
+            <input
+              ref={attachmentInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleAttachmentSelected}
             />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="hover:bg-muted"
+              onClick={() => attachmentInputRef.current?.click()}
+              disabled={
+                !isConnected || !conversation || !!editingMessage || attachmentMutation.isPending
+              }
+              aria-label="Attach file"
+            >
+              {attachmentMutation.isPending ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <Paperclip className="h-5 w-5" />
+              )}
+            </Button>
             <Popover>
               <PopoverTrigger asChild>
                 <Button 
@@ -311,7 +1121,7 @@ export default function HomePage() {
             <Button 
               type="submit" 
               size="icon"
-              disabled={!isConnected}
+              disabled={!isConnected || !conversation}
               className="bg-primary hover:bg-primary/90"
             >
               <Send className="h-5 w-5" />
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import {
+  reportReasons,
+  reportStatuses,
+  type ReportReason,
+  type ReportStatus,
+  type ReportSummary,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useModeration, type ReportFilters } from "@/hooks/use-moderation";
+import { reportReasonLabels } from "@/components/report-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ArrowLeft, Flag, Loader2, Lock, Paperclip } from "lucide-react";
+
+// Suspension lengths offered to moderators; null suspends until lifted
+const suspensionLengths = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: null, label: "Until lifted" },
+];
+
+function ReportCard({ report, filters }: { report: ReportSummary; filters: ReportFilters }) {
+  const { resolveMutation, warnMutation, suspendMutation, liftMutation } = useModeration(filters);
+  const [action, setAction] = useState<"warn" | "suspend">();
+  const [reason, setReason] = useState("");
+  const [days, setDays] = useState<number | null>(7);
+  const { reportedUser, snapshot } = report;
+  const isOpen = report.status === "open";
+  const isActing =
+    resolveMutation.isPending ||
+    warnMutation.isPending ||
+    suspendMutation.isPending ||
+    liftMutation.isPending;
+
+  const submit = () => {
+    const onSuccess = () => {
+      setAction(undefined);
+      setReason("");
+    };
+    if (action === "warn") {
+      warnMutation.mutate(
+        { userId: reportedUser.id, reason, reportId: isOpen ? report.id : undefined },
+        { onSuccess },
+      );
+    } else if (action === "suspend") {
+      suspendMutation.mutate(
+        { userId: reportedUser.id, reason, days, reportId: isOpen ? report.id : undefined },
+        { onSuccess },
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+          <span>{reportedUser.username}</span>
+          <Badge variant="outline">{reportReasonLabels[report.reason]}</Badge>
+          {reportedUser.suspended && <Badge variant="destructive">Suspended</Badge>}
+          {reportedUser.warnings > 0 && (
+            <Badge variant="secondary">
+              {reportedUser.warnings} {reportedUser.warnings === 1 ? "warning" : "warnings"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Reported by {report.reporter.username} on{" "}
+          {format(new Date(report.createdAt), "PPp")}
+          {reportedUser.suspended &&
+            ` · suspended ${
+              reportedUser.suspendedUntil
+                ? `until ${format(new Date(reportedUser.suspendedUntil), "PPp")}`
+                : "until lifted"
+            }`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {snapshot.message ? (
+          <div className="space-y-1 rounded-lg bg-muted p-3 text-sm">
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              {snapshot.message.encrypted && (
+                <Lock className="h-3 w-3" aria-label="Encrypted, as the reporter saw it" />
+              )}
+              Sent {format(new Date(snapshot.message.sentAt), "PPp")}
+              {snapshot.message.editedAt && " · edited"}
+            </p>
+            {snapshot.message.imageUrl && (
+              <a
+                href={snapshot.message.imageUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="block"
+              >
+                <img
+                  src={`${snapshot.message.imageUrl}/thumbnail`}
+                  alt="Reported image"
+                  className="max-h-40 rounded-md"
+                />
+              </a>
+            )}
+            {snapshot.message.attachments.map((attachment, i) => (
+              <p key={i} className="flex items-center gap-1 text-xs">
+                <Paperclip className="h-3 w-3" />
+                {attachment.name}
+              </p>
+            ))}
+            {snapshot.message.content && (
+              <p className="whitespace-pre-wrap break-words">{snapshot.message.content}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Account report about {snapshot.user.username}
+          </p>
+        )}
+        {report.details && (
+          <p className="text-sm">
+            <span className="font-medium">Details: </span>
+            {report.details}
+          </p>
+        )}
+        {!isOpen && (
+          <p className="text-sm text-muted-foreground">
+            Resolved as {report.resolution}
+            {report.resolvedAt && ` on ${format(new Date(report.resolvedAt), "PPp")}`}
+            {report.moderatorNote && `: ${report.moderatorNote}`}
+          </p>
+        )}
+
+        {action ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <Input
+              placeholder={
+                action === "warn" ? "Warning sent to the user" : "Reason sent to the user"
+              }
+              maxLength={1000}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              autoFocus
+            />
+            {action === "suspend" && (
+              <Select
+                value={String(days)}
+                onValueChange={(value) => setDays(value === "null" ? null : Number(value))}
+              >
+                <SelectTrigger aria-label="Suspension length">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {suspensionLengths.map(({ days, label }) => (
+                    <SelectItem key={label} value={String(days)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setAction(undefined)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={action === "suspend" ? "destructive" : "default"}
+                disabled={!reason.trim() || isActing}
+              >
+                {action === "warn" ? "Send warning" : "Suspend"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap justify-end gap-2">
+            {isOpen && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isActing}
+                onClick={() => resolveMutation.mutate({ reportId: report.id })}
+              >
+                Dismiss
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isActing}
+              onClick={() => setAction("warn")}
+            >
+              Warn
+            </Button>
+            {reportedUser.suspended ? (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isActing}
+                onClick={() => liftMutation.mutate(reportedUser.id)}
+              >
+                Lift suspension
+              </Button>
+            ) : (
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={isActing}
+                onClick={() => setAction("suspend")}
+              >
+                Suspend
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReportQueue() {
+  const [status, setStatus] = useState<ReportStatus | undefined>("open");
+  const [reason, setReason] = useState<ReportReason>();
+  const filters = { status, reason };
+  const { reports, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useModeration(filters);
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Select
+          value={status ?? "all"}
+          onValueChange={(value) =>
+            setStatus(value === "all" ? undefined : (value as ReportStatus))
+          }
+        >
+          <SelectTrigger aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reports</SelectItem>
+            {reportStatuses.map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={reason ?? "all"}
+          onValueChange={(value) =>
+            setReason(value === "all" ? undefined : (value as ReportReason))
+          }
+        >
+          <SelectTrigger aria-label="Reason">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any reason</SelectItem>
+            {reportReasons.map((value) => (
+              <SelectItem key={value} value={value}>
+                {reportReasonLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+          <Flag className="h-10 w-10" />
+          <p>No reports here</p>
+        </div>
+      ) : (
+        reports.map((report) => <ReportCard key={report.id} report={report} filters={filters} />)
+      )}
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isFetchingNextPage}
+          onClick={() => fetchNextPage()}
+        >
+          Load more
+        </Button>
+      )}
+    </>
+  );
+}
+
+export default function ModerationPage() {
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between border-b p-2 sm:p-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild aria-label="Back to chats">
+            <Link href="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold">Moderation</h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="mx-auto max-w-2xl space-y-4 p-4">
+        {user?.isAdmin ? (
+          <ReportQueue />
+        ) : (
+          <p className="py-8 text-center text-muted-foreground">
+            Only moderators can see reports.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { formatDistanceToNowStrict, format } from "date-fns";
+import type { SessionSummary } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { usePassword } from "@/hooks/use-password";
+import { useSessions } from "@/hooks/use-sessions";
+import { describeUserAgent, isMobileUserAgent } from "@/lib/user-agent";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { PasswordStrengthMeter } from "@/components/password-strength-meter";
+import { ArrowLeft, Loader2, Monitor, Smartphone } from "lucide-react";
+
+function SessionRow({ session }: { session: SessionSummary }) {
+  const { revokeMutation } = useSessions();
+  const Icon = isMobileUserAgent(session.userAgent) ? Smartphone : Monitor;
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border p-3">
+      <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <span className="truncate">{describeUserAgent(session.userAgent)}</span>
+          {session.current && <Badge variant="secondary">This device</Badge>}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {session.ip} · signed in {format(new Date(session.createdAt), "PP")}
+          {!session.current &&
+            ` · active ${formatDistanceToNowStrict(new Date(session.lastActiveAt))} ago`}
+        </p>
+      </div>
+      {!session.current && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={revokeMutation.isPending}
+          onClick={() => revokeMutation.mutate(session.id)}
+        >
+          Sign out
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ChangePasswordCard() {
+  const { user } = useAuth();
+  const { changeMutation } = usePassword();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const mismatch = confirmation.length > 0 && newPassword !== confirmation;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>
+          Changing your password signs out every other device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            changeMutation.mutate(
+              { currentPassword, newPassword },
+              {
+                onSuccess: () => {
+                  setCurrentPassword("");
+                  setNewPassword("");
+                  setConfirmation("");
+                },
+              },
+            );
+          }}
+        >
+          <Input
+            type="password"
+            placeholder="Current password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="New password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+          <PasswordStrengthMeter password={newPassword} username={user?.username} />
+          <Input
+            type="password"
+            placeholder="Repeat new password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+          {mismatch && <p className="text-sm text-destructive">Passwords don't match</p>}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={
+              !currentPassword ||
+              !newPassword ||
+              newPassword !== confirmation ||
+              changeMutation.isPending
+            }
+          >
+            Change password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  const { sessions, isLoading, revokeOthersMutation } = useSessions();
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between border-b p-2 sm:p-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild aria-label="Back to chats">
+            <Link href="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold">Settings</h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="mx-auto max-w-2xl space-y-4 p-4">
+        <ChangePasswordCard />
+        <Card>
+          <CardHeader>
+            <CardTitle>Signed-in devices</CardTitle>
+            <CardDescription>
+              Sign out any device you don't recognise or no longer use. It loses access
+              straight away.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              sessions.map((session) => <SessionRow key={session.id} session={session} />)
+            )}
+            {hasOthers && (
+              <Button
+                variant="destructive"
+                className="w-full"
+                disabled={revokeOthersMutation.isPending}
+                onClick={() => revokeOthersMutation.mutate()}
+              >
+                Sign out of all other devices
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
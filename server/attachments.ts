@@ -0,0 +1,82 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import type { Attachment } from "@shared/schema";
+import { blobStore } from "./blob-store";
+import { storage } from "./storage";
+import { virusScanner } from "./virus-scan";
+
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+// Uploads not sent within this long, and files of deleted or expired
+// messages, are removed by the sweep
+export const UNSENT_ATTACHMENT_TTL_MS = 60 * 60 * 1000;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1, fields: 0 },
+});
+
+// Parses a single `file` field, answering 413 or 400 when it breaks the limits
+export function receiveAttachment(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).send(error.message);
+    }
+    if (error) return next(error);
+    next();
+  });
+}
+
+// Busboy hands over the name as latin1; keep only a plain, printable base name
+export function cleanFileName(original: string): string {
+  const name = Buffer.from(original, "latin1")
+    .toString("utf8")
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .trim()
+    .slice(0, 255);
+  return name || "file";
+}
+
+// The declared type is only used as a label; downloads are always served as
+// attachments with sniffing disabled
+function cleanContentType(declared: string): string {
+  return /^[\w.+-]+\/[\w.+-]+$/.test(declared) ? declared.toLowerCase() : "application/octet-stream";
+}
+
+// Stores the file in quarantine, then scans it. Infected files stay
+// quarantined, never downloadable, until the sweep removes them.
+export async function quarantineAndScan(
+  conversationId: number,
+  uploaderId: number,
+  file: Express.Multer.File,
+): Promise<Attachment> {
+  const id = randomUUID();
+  await blobStore.put(id, file.buffer);
+  const attachment = await storage.createAttachment({
+    id,
+    conversationId,
+    uploaderId,
+    name: cleanFileName(file.originalname),
+    contentType: cleanContentType(file.mimetype),
+    size: file.size,
+  });
+
+  const result = await virusScanner.scan(file.buffer);
+  if (!result.clean) {
+    console.warn(`Attachment ${id} quarantined: ${result.signature}`);
+  }
+  return (await storage.setAttachmentStatus(id, result.clean ? "clean" : "infected")) ?? attachment;
+}
+
+// Removes attachments no message holds any more, with their files
+export async function sweepAttachments() {
+  const unsent = await storage.deleteUnsentAttachments(
+    new Date(Date.now() - UNSENT_ATTACHMENT_TTL_MS),
+  );
+  for (const attachment of unsent) {
+    await blobStore.delete(attachment.id);
+  }
+}
@@ -1,11 +1,42 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
-import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { Express, type NextFunction, type Request, type Response } from "express";
+import session, { type SessionData } from "express-session";
+import type { IncomingMessage } from "http";
+import { scrypt, randomBytes, randomInt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import cookie from "cookie";
+import signature from "cookie-signature";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { delivery } from "./delivery";
+import { recordAuthEvent, startLoginAttempt, type LoginAttempt } from "./login-throttle";
+import { forgetSessions, trackActivity, trackSession } from "./sessions";
+import { checkPassword } from "./password-policy";
+import { grantListedAdmin, isSuspended } from "./moderation";
+import { toSelfUser } from "./blocks";
+import type { Realtime } from "./websocket";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpUri,
+  verifyTotp,
+} from "./totp";
+import {
+  User as SelectUser,
+  disableTwoFactorSchema,
+  loginSchema,
+  secondFactorSchema,
+  totpCodeSchema,
+  type SecondFactor,
+  type SecondFactorRequired,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  registerUserSchema,
+  verifyOtpSchema,
+  resendOtpSchema,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,24 +44,80 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user: number };
+    // Set once the password was right for an account with two-factor
+    // sign-in; the session is only logged in after the second step
+    secondFactor?: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+const SESSION_COOKIE = "connect.sid";
+const sessionSecret = process.env.REPL_ID!;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// How long after the password the second factor may be entered, and how
+// many wrong codes are allowed before the password is needed again
+const SECOND_FACTOR_TTL_MS = 5 * 60 * 1000;
+const MAX_SECOND_FACTOR_ATTEMPTS = 5;
+// How far back users can look through their own sign-in activity
+const AUTH_EVENT_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Last time a code was issued per username, to throttle resends
+const codeIssuedAt = new Map<string, number>();
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Checks an authenticator or recovery code, spending it when it is right
+export async function checkSecondFactor(
+  userId: number,
+  factor: SecondFactor,
+): Promise<"totp" | "recovery" | null> {
+  if ("recoveryCode" in factor) {
+    const used = await storage.useRecoveryCode(userId, hashRecoveryCode(factor.recoveryCode));
+    return used ? "recovery" : null;
+  }
+  const credential = await storage.getTotpCredential(userId);
+  if (!credential?.confirmedAt) return null;
+  const step = verifyTotp(credential.secret, factor.code);
+  return step !== null && (await storage.useTotpStep(userId, step)) ? "totp" : null;
+}
+
+// Issues a fresh set of recovery codes, returning them in the clear once
+async function issueRecoveryCodes(userId: number) {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+async function issueVerificationCode(user: SelectUser) {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await storage.storeVerificationCode(user.id, code);
+  codeIssuedAt.set(user.username, Date.now());
+  await delivery.send({
+    to: user.email ?? user.username,
+    subject: "Your Safe-massage verification code",
+    text: `Your verification code is ${code}. It expires in 10 minutes.`,
+  });
+}
+
+export function setupAuth(app: Express, realtime: Realtime) {
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.REPL_ID!,
+    name: SESSION_COOKIE,
+    secret: sessionSecret,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
@@ -43,12 +130,17 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackActivity);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       const user = await storage.getUserByUsername(username);
       if (!user || !(await comparePasswords(password, user.password))) {
         return done(null, false);
+      } else if (!user.isVerified) {
+        return done(null, false, { message: "Account not verified" });
+      } else if (isSuspended(user)) {
+        return done(null, false, { message: "Account suspended" });
       } else {
         return done(null, user);
       }
@@ -58,39 +150,356 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     const user = await storage.getUser(id);
+    // Suspension ends any session that is still signed in
+    if (user && isSuspended(user)) return done(null, false);
+    if (user) await grantListedAdmin(user);
     done(null, user);
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
+    const result = registerUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const { username, email, password } = result.data;
+    const weakness = await checkPassword(password, { username });
+    if (weakness) return res.status(400).send(weakness);
+
+    const existingUser = await storage.getUserByUsername(username);
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
 
     const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
+      username,
+      email,
+      password: await hashPassword(password),
     });
 
-    req.login(user, (err) => {
+    try {
+      await issueVerificationCode(user);
+    } catch (err) {
+      return next(err);
+    }
+
+    // The account stays unverified until the code is confirmed via /api/verify
+    res.status(201).json({ username: user.username });
+  });
+
+  app.post("/api/verify", async (req, res, next) => {
+    const result = verifyOtpSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const { username, code } = result.data;
+    if (!(await storage.verifyCode(username, code))) {
+      return res.status(400).send("Invalid or expired code");
+    }
+
+    const user = await storage.getUserByUsername(username);
+    if (!user) return res.status(400).send("Invalid or expired code");
+    await storage.setUserVerified(user.id);
+    user.isVerified = true;
+
+    req.login(user, async (err) => {
       if (err) return next(err);
-      res.status(201).json(user);
+      try {
+        await trackSession(req);
+      } catch (err) {
+        return next(err);
+      }
+      res.status(200).json(toSelfUser(user));
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/verify/resend", async (req, res, next) => {
+    const result = resendOtpSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const { username } = result.data;
+    const elapsed = Date.now() - (codeIssuedAt.get(username) ?? 0);
+    if (elapsed < RESEND_COOLDOWN_MS) {
+      res.set("Retry-After", Math.ceil((RESEND_COOLDOWN_MS - elapsed) / 1000).toString());
+      return res.status(429).send("Please wait before requesting another code");
+    }
+
+    const user = await storage.getUserByUsername(username);
+    if (user && !user.isVerified) {
+      try {
+        await issueVerificationCode(user);
+      } catch (err) {
+        return next(err);
+      }
+    }
+
+    // Same response whether or not a code was sent
+    res.sendStatus(202);
+  });
+
+  app.post("/api/login", async (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const { username } = result.data;
+    let attempt: LoginAttempt;
+    try {
+      const started = await startLoginAttempt(req, username);
+      if (started.refusal) {
+        res.set("Retry-After", Math.ceil(started.refusal.retryAfterMs / 1000).toString());
+        return res.status(429).send(started.refusal.message);
+      }
+      attempt = started.attempt;
+    } catch (err) {
+      return next(err);
+    }
+
+    passport.authenticate(
+      "local",
+      async (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
+        if (err) return next(err);
+        try {
+          if (!user) {
+            // Unverified and suspended accounts get a distinct status so the
+            // client can explain instead of showing a generic failure.
+            if (
+              info?.message === "Account not verified" ||
+              info?.message === "Account suspended"
+            ) {
+              await attempt.succeeded();
+              return res.status(403).send(info.message);
+            }
+            await attempt.failed();
+            return res.status(401).send("Invalid username or password");
+          }
+
+          await attempt.succeeded();
+          const credential = await storage.getTotpCredential(user.id);
+          if (credential?.confirmedAt) {
+            req.session.secondFactor = {
+              userId: user.id,
+              expiresAt: Date.now() + SECOND_FACTOR_TTL_MS,
+              attempts: 0,
+            };
+            const body: SecondFactorRequired = { twoFactorRequired: true };
+            return res.status(200).json(body);
+          }
+        } catch (err) {
+          return next(err);
+        }
+        completeLogin(req, res, next, user);
+      },
+    )(req, res, next);
+  });
+
+  // Second login step for accounts with two-factor sign-in
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const pending = req.session.secondFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.secondFactor;
+      return res.status(401).send("Sign in with your password again");
+    }
+    const result = secondFactorSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user) return res.status(401).send("Sign in with your password again");
+
+      const { refusal, attempt } = await startLoginAttempt(
+        req,
+        user.username,
+        user.id,
+        "second_factor_failed",
+      );
+      if (refusal) {
+        res.set("Retry-After", Math.ceil(refusal.retryAfterMs / 1000).toString());
+        return res.status(429).send(refusal.message);
+      }
+
+      const method = await checkSecondFactor(user.id, result.data);
+      if (!method) {
+        await attempt.failed();
+        pending.attempts++;
+        if (pending.attempts >= MAX_SECOND_FACTOR_ATTEMPTS) {
+          delete req.session.secondFactor;
+          return res.status(401).send("Too many wrong codes; sign in with your password again");
+        }
+        return res.status(400).send("Invalid code");
+      }
+
+      await attempt.succeeded();
+      if (method === "recovery") {
+        await recordAuthEvent(req, "recovery_code_used", user.username, user.id);
+      }
+      delete req.session.secondFactor;
+      completeLogin(req, res, next, user);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const credential = await storage.getTotpCredential(req.user!.id);
+    const status: TwoFactorStatus = {
+      enabled: !!credential?.confirmedAt,
+      recoveryCodesLeft: await storage.countRecoveryCodes(req.user!.id),
+    };
+    res.json(status);
+  });
+
+  // Starts enrolment with a new secret; nothing changes at login until the
+  // user confirms it with a code
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const existing = await storage.getTotpCredential(req.user!.id);
+    if (existing?.confirmedAt) {
+      return res
+        .status(409)
+        .send("Two-factor authentication is already on; turn it off to enrol again");
+    }
+
+    const secret = generateTotpSecret();
+    await storage.saveTotpCredential(req.user!.id, secret);
+    const setup: TwoFactorSetup = { secret, uri: totpUri(secret, req.user!.username) };
+    res.status(201).json(setup);
+  });
+
+  // Returns the recovery codes; they are never shown again
+  app.post("/api/2fa/confirm", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = totpCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const user = req.user!;
+    const credential = await storage.getTotpCredential(user.id);
+    if (!credential) return res.status(404).send("Start two-factor setup first");
+    if (credential.confirmedAt) {
+      return res.status(409).send("Two-factor authentication is already on");
+    }
+    const step = verifyTotp(credential.secret, result.data.code);
+    if (step === null || !(await storage.confirmTotpCredential(user.id, step))) {
+      return res.status(400).send("Invalid code");
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+    await recordAuthEvent(req, "two_factor_enabled", user.username, user.id);
+    res.json({ recoveryCodes });
+  });
+
+  // Replaces every recovery code, used or not
+  app.post("/api/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = totpCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+    if ((await checkSecondFactor(req.user!.id, result.data)) !== "totp") {
+      return res.status(400).send("Invalid code");
+    }
+    res.json({ recoveryCodes: await issueRecoveryCodes(req.user!.id) });
+  });
+
+  app.post("/api/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = disableTwoFactorSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const user = req.user!;
+    if (!(await comparePasswords(result.data.password, user.password))) {
+      return res.status(400).send("Incorrect password");
+    }
+    if (!(await checkSecondFactor(user.id, result.data))) {
+      return res.status(400).send("Invalid code");
+    }
+    await storage.deleteTotpCredential(user.id);
+    await recordAuthEvent(req, "two_factor_disabled", user.username, user.id);
+    res.sendStatus(204);
   });
 
   app.post("/api/logout", (req, res, next) => {
-    req.logout((err) => {
+    const user = req.user;
+    // Logging out starts a fresh session, so note which one is ending
+    const sessionId = req.sessionID;
+    req.logout(async (err) => {
       if (err) return next(err);
+      try {
+        await forgetSessions([sessionId]);
+        realtime.closeSessions([sessionId], "Signed out");
+        if (user) await recordAuthEvent(req, "logout", user.username, user.id);
+      } catch (err) {
+        return next(err);
+      }
       res.sendStatus(200);
     });
   });
 
+  // The signed-in user's recent sign-in activity, newest first
+  app.get("/api/auth-events", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const since = new Date(Date.now() - AUTH_EVENT_HISTORY_MS);
+    const events = await storage.getRecentAuthEvents({ username: req.user!.username }, since);
+    res.json(events.slice(0, 100));
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toSelfUser(req.user!));
+  });
+}
+
+// Logs the session in once every factor checked out
+export function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  // Passkeys skip the password check, which refuses suspended accounts
+  if (isSuspended(user)) return res.status(403).send("Account suspended");
+  req.login(user, async (err) => {
+    if (err) return next(err);
+    try {
+      await trackSession(req);
+      await recordAuthEvent(req, "login_succeeded", user.username, user.id);
+    } catch (err) {
+      return next(err);
+    }
+    res.status(200).json(toSelfUser(user));
+  });
+}
+
+/**
+ * Resolves the express-session behind a raw HTTP request (e.g. a WebSocket
+ * upgrade) by unsigning the session cookie and reading it through the same
+ * store the session middleware uses.
+ */
+export async function getSessionFromRequest(
+  req: IncomingMessage,
+): Promise<{ id: string; data: SessionData } | null> {
+  if (!req.headers.cookie) return null;
+
+  const raw = cookie.parse(req.headers.cookie)[SESSION_COOKIE];
+  if (!raw || !raw.startsWith("s:")) return null;
+
+  const id = signature.unsign(raw.slice(2), sessionSecret);
+  if (id === false) return null;
+
+  return new Promise((resolve) => {
+    storage.sessionStore.get(id, (err, data) => {
+      if (err || !data) {
+        if (err) console.log("Session retrieval error:", err);
+        resolve(null);
+      } else {
+        resolve({ id, data });
+      }
+    });
   });
 }
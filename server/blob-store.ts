@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+
+// Opaque binary storage for uploads. Keys are generated by the server and
+// never taken from user input.
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class DiskBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private resolve(key: string) {
+    if (!/^[\w-]+$/.test(key)) throw new Error(`Invalid blob key "${key}"`);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.root, { recursive: true });
+    await fs.promises.writeFile(this.resolve(key), data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// UPLOAD_DIR is where uploads are kept on disk; "uploads" by default.
+export const blobStore: BlobStore = new DiskBlobStore(process.env.UPLOAD_DIR ?? "uploads");
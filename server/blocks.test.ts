@@ -0,0 +1,135 @@
+import "./test-env";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { User } from "@shared/schema";
+import { withoutBlockers } from "./blocks";
+import { directKey, storage } from "./storage";
+import {
+  createUser,
+  deviceOf,
+  sealed,
+  signIn,
+  startServer,
+  stopServer,
+  type TestAgent,
+} from "./test-helpers";
+
+let server: Server;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(() => stopServer(server));
+
+// Both users signed in and connected, with a direct conversation between them
+async function pair(sender: User, receiver: User) {
+  const conversation = await storage.createConversation(
+    { type: "direct", directKey: directKey(sender.id, receiver.id), createdBy: sender.id },
+    [sender.id, receiver.id],
+  );
+  const senderAgent = await signIn(server, sender);
+  const receiverAgent = await signIn(server, receiver);
+  return {
+    conversationId: conversation.id,
+    senderAgent,
+    receiverAgent,
+    senderSocket: await senderAgent.connect(deviceOf(sender)),
+    receiverSocket: await receiverAgent.connect(deviceOf(receiver)),
+  };
+}
+
+function block(agent: TestAgent, user: User, type: "block" | "mute" = "block") {
+  return agent.request("PUT", `/api/blocks/${user.id}`, { type });
+}
+
+test("withoutBlockers drops those who blocked the sender, not those who muted them", async () => {
+  const sender = await createUser("filtered-sender");
+  const blocker = await createUser("filtered-blocker");
+  const muter = await createUser("filtered-muter");
+  const bystander = await createUser("filtered-bystander");
+  await storage.setBlock(blocker.id, sender.id, "block");
+  await storage.setBlock(muter.id, sender.id, "mute");
+  // Blocking runs one way: the sender blocking someone doesn't stop them
+  await storage.setBlock(sender.id, bystander.id, "block");
+
+  assert.deepEqual(
+    await withoutBlockers([blocker.id, muter.id, bystander.id], sender.id),
+    [muter.id, bystander.id],
+  );
+  assert.deepEqual(await withoutBlockers([blocker.id], bystander.id), [blocker.id]);
+});
+
+test("a blocked user's messages don't reach the blocker", async () => {
+  const sender = await createUser("blocked-sender");
+  const blocker = await createUser("message-blocker");
+  const { conversationId, senderSocket, receiverAgent, receiverSocket } = await pair(
+    sender,
+    blocker,
+  );
+  assert.equal((await block(receiverAgent, sender)).status, 200);
+
+  const first = sealed(sender, blocker, "not heard");
+  senderSocket.send({ type: "message", clientId: "blocked", conversationId, ...first });
+  // The sender isn't told
+  assert.equal((await senderSocket.next("ack")).clientId, "blocked");
+
+  // Events go out in order, so once a later message arrives the blocked one
+  // would have come first
+  assert.equal((await receiverAgent.request("DELETE", `/api/blocks/${sender.id}`)).status, 204);
+  const second = sealed(sender, blocker, "heard");
+  senderSocket.send({ type: "message", clientId: "unblocked", conversationId, ...second });
+  const { message } = await receiverSocket.next("message");
+  assert.equal(message.content, second.content);
+  assert.equal(
+    receiverSocket.frames.some((frame) => frame.type === "message"),
+    false,
+  );
+  senderSocket.close();
+  receiverSocket.close();
+});
+
+test("a blocked user's typing doesn't reach the blocker", async () => {
+  const sender = await createUser("blocked-typist");
+  const blocker = await createUser("typing-blocker");
+  const { conversationId, senderSocket, receiverAgent, receiverSocket } = await pair(
+    sender,
+    blocker,
+  );
+  await block(receiverAgent, sender);
+
+  senderSocket.send({ type: "typing", conversationId, isTyping: true });
+  // A socket's frames are handled in turn, so once a later one is acked the
+  // typing frame has been dealt with under the block
+  const message = sealed(sender, blocker, "still blocked");
+  senderSocket.send({ type: "message", clientId: "after-typing", conversationId, ...message });
+  await senderSocket.next("ack");
+
+  await receiverAgent.request("DELETE", `/api/blocks/${sender.id}`);
+  senderSocket.send({ type: "typing", conversationId, isTyping: false });
+  const typing = await receiverSocket.next("typing");
+  assert.equal(typing.isTyping, false);
+  assert.equal(
+    receiverSocket.frames.some((frame) => frame.type === "message"),
+    false,
+  );
+  senderSocket.close();
+  receiverSocket.close();
+});
+
+test("a muted user's messages still arrive", async () => {
+  const sender = await createUser("muted-sender");
+  const muter = await createUser("muter");
+  const { conversationId, senderSocket, receiverAgent, receiverSocket } = await pair(
+    sender,
+    muter,
+  );
+  assert.equal((await block(receiverAgent, sender, "mute")).status, 200);
+
+  const sent = sealed(sender, muter, "quietly");
+  senderSocket.send({ type: "message", clientId: "muted", conversationId, ...sent });
+  assert.equal((await receiverSocket.next("message")).message.content, sent.content);
+  senderSocket.close();
+  receiverSocket.close();
+});
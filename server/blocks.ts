@@ -0,0 +1,91 @@
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  setBlockSchema,
+  type Block,
+  type BlockSummary,
+  type PublicUser,
+  type SelfUser,
+  type User,
+} from "@shared/schema";
+import { idParam } from "./params";
+import { storage } from "./storage";
+import type { Realtime } from "./websocket";
+
+// Online status and last seen are left out for viewers the user has blocked
+export function toPublicUser(
+  { id, username, avatarUrl, isOnline, lastSeen }: User,
+  hidePresence = false,
+): PublicUser {
+  return hidePresence
+    ? { id, username, avatarUrl, isOnline: false, lastSeen: null }
+    : { id, username, avatarUrl, isOnline, lastSeen };
+}
+
+// The account as its owner sees it: everything but the password hash
+export function toSelfUser({ password: _password, ...user }: User): SelfUser {
+  return user;
+}
+
+// Users the given user has blocked, not just muted
+export async function blockedIds(userId: number) {
+  const blocks = await storage.getBlocks(userId);
+  return blocks.filter((block) => block.type === "block").map((block) => block.blockedUserId);
+}
+
+// The users among `userIds` who still hear from the sender: everyone but
+// those who blocked them
+export async function withoutBlockers(userIds: number[], senderId: number) {
+  const blockers = new Set(await storage.getBlockerIds(senderId));
+  return userIds.filter((userId) => !blockers.has(userId));
+}
+
+export function setupBlocks(app: Express, realtime: Realtime) {
+  async function summary(block: Block, hiddenFrom: Set<number>): Promise<BlockSummary> {
+    const user = (await storage.getUser(block.blockedUserId))!;
+    return {
+      type: block.type,
+      createdAt: block.createdAt,
+      user: toPublicUser(user, hiddenFrom.has(user.id)),
+    };
+  }
+
+  app.get("/api/blocks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const blocks = await storage.getBlocks(req.user!.id);
+    const hiddenFrom = new Set(await storage.getBlockerIds(req.user!.id));
+    res.json(await Promise.all(blocks.map((block) => summary(block, hiddenFrom))));
+  });
+
+  // Blocks or mutes the user, or switches between the two
+  app.put("/api/blocks/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = setBlockSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const userId = req.user!.id;
+    const blockedUserId = idParam(req, res, "userId");
+    if (blockedUserId === undefined) return;
+    if (blockedUserId === userId) {
+      return res.status(400).send("You can't block yourself");
+    }
+    if (!(await storage.getUser(blockedUserId))) return res.sendStatus(404);
+
+    const block = await storage.setBlock(userId, blockedUserId, result.data.type);
+    await realtime.refreshPresence(userId, blockedUserId);
+    res.json(await summary(block, new Set(await storage.getBlockerIds(userId))));
+  });
+
+  app.delete("/api/blocks/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const blockedUserId = idParam(req, res, "userId");
+    if (blockedUserId === undefined) return;
+    if (!(await storage.removeBlock(req.user!.id, blockedUserId))) {
+      return res.sendStatus(404);
+    }
+    await realtime.refreshPresence(req.user!.id, blockedUserId);
+    res.sendStatus(204);
+  });
+}
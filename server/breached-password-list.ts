@@ -0,0 +1,392 @@
+// SHA-1 hashes (upper-case hex) of passwords that top public breach
+// corpora, sorted. Only hashes are bundled, in the same form as the
+// Pwned Passwords range files, so a bigger list can be swapped in.
+export const BUNDLED_BREACHED_HASHES = [
+  "00619DFCEDB6C415286F4923575972C1C4AB4703",
+  "006839D264A38B7F58E5C8130447528BF4B7AEE1",
+  "011C945F30CE2CBAFC452F39840F025693339C42",
+  "018F4D7F06CB8626E1756452581373E05AE41C56",
+  "019DB0BFD5F85951CB46E4452E9642858C004155",
+  "01B307ACBA4F54F55AAFC33BB06BBBF6CA803E9A",
+  "01F6C861BF8C1DD06B55C19AF49328B66F754B46",
+  "02E0A999C50B1F88DF7A8F5A04E1B76B35EA6A88",
+  "03FDF1323C8D4770C90576CE2A1860D476DED8AB",
+  "043A558250409758B64F73D07D7F06B3DF654BC0",
+  "05B530AD0FB56286FE051D5F8BE5B8453F1CD93F",
+  "05FE7461C607C33229772D402505601016A7D0EA",
+  "068942C83F0E6994D046F7EC01B8F42BA8F317A7",
+  "0716B9029D0818CBABD7C69AA55D01C877982B54",
+  "08808065106E0F48E0D8EFBD4C492C633B4D69E8",
+  "08B314F0E1E2C41EC92C3735910658E5A82C6BA7",
+  "091B5035885C00170FEC9ECF24224933E3DE3FCC",
+  "0963992090AAC2D595B32D34E8A5FCAB9FAE3151",
+  "0CE7911E6479995D6C346D6F03EB723B5135309E",
+  "0D5591D63EC4950150E159FFE25CED4C8787D3BF",
+  "0E818BFA0679DF304036382AAA7667DF92CBE30E",
+  "0F12541AFCCE175FB34BB05A79C95B76E765488B",
+  "104E03314A82F3FBC0CE1C681CFDFA2D0542E492",
+  "10C28F9CF0668595D45C1090A7B4A2AE98EDFA58",
+  "10E4F3819007F514FB766FE23090FC7CFE370604",
+  "12E9293EC6B30C7FA8A0926AF42807E929C1684F",
+  "1411678A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5",
+  "153FA238CEC90E5A24B85A79109F91EBE68CA481",
+  "1645EE78DE0F7C73001E1A8ED1FACC25A72B6796",
+  "17B9E1C64588C7FA6419B4D29DC1F4426279BA01",
+  "18C28604DD31094A8D69DAE60F1BCD347F1AFC5A",
+  "19485E369C691FA8ECE1FABC8A6CEABFB5666B79",
+  "1999E4893F732BA38B948DBE8D34ED48CD54F058",
+  "1AA25EAD3880825480B6C0197552D90EB5D48D23",
+  "1C9059170910835368500990479A5CF828444D34",
+  "1C9E4D0D9B5045F69AB72E9FA07AC5AB0B497260",
+  "1CB5BD5A9E45420321F44C72DA5D90D7F0432FFB",
+  "1E41C981637834CAEC149B4D33F7F8566076DDFA",
+  "1EE7760A3190C95641442F2BE0EF7774E139FB1F",
+  "1EF41AF4175FE164BF14A260FDF226218961C106",
+  "1F5523A8F535289B3401B29958D01B2966ED61D2",
+  "1F82C942BEFDA29B6ED487A51DA199F78FCE7F05",
+  "1F8AC10F23C5B5BC1167BDA84B833E5C057A77D2",
+  "1FC854110E5532480000542834F453DE31936C2F",
+  "1FD1B4516473C36C8FB30BBF7C4490FC20419A10",
+  "1FFF8C7BE7829FB657F9CDF5D55334999C9DD6A3",
+  "20EABE5D64B0E216796E834F52D61FD0B70332FC",
+  "22942B7C5CDF7813BA3C1EA82FF3A2B406486271",
+  "2394EEAC9FC3DB56189A894E221220B6089E78D3",
+  "23F2916E01209D6282F226BE9677AFFAEC44A8D6",
+  "248510136410798C784BA702DF249756AD286BE4",
+  "250E77F12A5AB6972A0895D290C4792F0A326EA8",
+  "2539D3DF1FCFA43CD1D5F5D55901F6718A10C595",
+  "258465759831222D475216E3266E71E3567310DD",
+  "263D00820F9F5E0ACC0274DA747E0A9B6868145E",
+  "269A03F47F0550E98664C4A542EA78A23B305A82",
+  "26F3CD230E935F8BEF3596727F75448CB446120B",
+  "2736FAB291F04E69B62D490C3C09361F5B82461A",
+  "273A0C7BD3C679BA9A6F5D99078E36E85D02B952",
+  "27E72DBA56CBC8AD7DC2FD00F42B2D369C44A02E",
+  "2C4C3891E2AC6958E9810A1E49C6705784FBFA1A",
+  "2D27B62C597EC858F6E7B54E7E58525E6A95E6D8",
+  "2FB5E13419FC89246865E7A324F476EC624E8740",
+  "3179A65EFF2523BBDE53C99B299B719C10A35235",
+  "320BCA71FC381A4A025636043CA86E734E31CF8B",
+  "327156AB287C6AA52C8670E13163FC1BF660ADD4",
+  "32CA9FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573",
+  "345120426285FF8B1D43653A4D078170B4761F75",
+  "3559EFC37C61A31AA9DA4F2E4ECD952192CD9DA0",
+  "35675E68F4B5AF7B995D9205AD0FC43842F16450",
+  "360E46F15F432AF83C77017177A759ABA8A58519",
+  "3674951EC264A72168CB2D89A5F634E512F6629D",
+  "36E618512A68721F032470BB0891ADEF3362CFA9",
+  "39DFA55283318D31AFE5A3FF4A0E3253E2045E43",
+  "3ACD0BE86DE7DCCCDBF91B20F94A68CEA535922D",
+  "3D0F3B9DDCACEC30C4008C5E030E6C13A478CB4F",
+  "3D4F2BF07DC1BE38B20CD6E46949A1071F9D0E3D",
+  "3DD635A808DDB6DD4B6731F7C409D53DD4B14DF2",
+  "3F3C58AE42B9B422897FFC175014A2A4FCF16D7B",
+  "3FB372A9023613ACE074B4E66ECC4360A00F03B4",
+  "3FCFC1F7F34E78A937E81171BA51DC39538DB993",
+  "40123E9C6273385EA69892C48C80AA6CB25B9113",
+  "4068F0880B399410602D694B3CC711C8A8F4727E",
+  "40D35D55F267E36711ECB6DCA59DF4036A1DD556",
+  "41880EE3438C878762E9A1A0FEC66BCC23DAC767",
+  "420FCC63481AC21FDCA8F011608A9F8731609CFA",
+  "4233137D1C510F2E55BA5CB220B864B11033F156",
+  "425AF12A0743502B322E93A015BCF868E324D56A",
+  "4317D573CF3D89B5562DFEF9F1B75186D99C46B1",
+  "435B41068E8665513A20070C033B08B9C66E4332",
+  "44213F9F4D59B557314FADCD233232EEBCAC8012",
+  "449938CD38C82BCDDC2B534548DDBE984ADB8EFC",
+  "461476587780AA9FA5611EA6DC3912C146A91760",
+  "46DCD4DD65B63D106B8CFB4AAD906B23716CC613",
+  "473C2D0D0950352C9927B3EADD71015C390478CB",
+  "474BA67BDB289C6263B36DFD8A7BED6C85B04943",
+  "475A74E3C0C82094CAE9BDC8E0DD34FFC78770FB",
+  "48058E0C99BF7D689CE71C360699A14CE2F99774",
+  "482FA19D5C487CB69ACDA19EEE861CC69D82CC94",
+  "48EFC4851E15940AF5D477D3C0CE99211A70A3BE",
+  "494559CA59368D9B044021BCC5546ADB2C47A599",
+  "4D0FB475B242228032CBDF6D53924D2538DF037B",
+  "4D9012B4A77A9524D675DAD27C3276AB5705E5E8",
+  "4E17A448E043206801B95DE317E07C839770C8B8",
+  "4F26AEAFDB2367620A393C973EDDBE8F8B846EBD",
+  "5116E40694AC48F654CB7B6816177E0E717237C6",
+  "519BC3F0FDA96312357E1409DE278BFF4D5F5B25",
+  "54669547A225FF20CBA8B75A4ADCA540EEF25858",
+  "5479F2FA49524ADACFF538D1CB23DF73200D0EC6",
+  "55B5A0F748D3A82DCE10B205ECB0A0D8916C66A1",
+  "56259DD1C4EA0117CD601FFF7AEFA0E8892A3B25",
+  "57B2AD99044D337197C0C39FD3823568FF81E48A",
+  "59033478180D07080D5E4F3BAA0099996C364162",
+  "59C826FC854197CBD4D1083BCE8FC00D0761E8B3",
+  "5A46B8253D07320A14CACE9B4DCBF80F93DCEF04",
+  "5A4F26B21EBC770C5837D49E7C35574B29654610",
+  "5AC1733A124130C7426BAB67F540A8E7F9BF3FD9",
+  "5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8",
+  "5BC1824930FFBBAFC27E7EB204260A4017859A35",
+  "5BFD08BDAC5988B8C1D14A86BF8AB736DB159E9F",
+  "5C17FA03E6D5FC247565E1CD8FFA70E1BFE5B8D9",
+  "5C6D9EDC3A951CDA763F650235CFC41A3FC23FE8",
+  "5C9688A59F3FCBFDBFEEA06378A76AF06A09AA95",
+  "5C995BBB81B028B869EE4EA7C44BB1A9EA6152BC",
+  "5CBABD43E49A1FEDBBC3B86311AA6C8FE446ABF9",
+  "5CEC175B165E3D5E62C9E13CE848EF6FEAC81BFF",
+  "5D70C3D101EFD9CC0A69F4DF2DDF33B21E641F6A",
+  "5D74AE093A16A00E5AF127763F2DC7E13988F162",
+  "5F50A84C1FA3BCFF146405017F36AEC1A10A9E38",
+  "5FA339BBBB1EEACED3B52E54F44576AAF0D77D96",
+  "5FEE00239940F883D4C2854E41C7F989E75278A3",
+  "601F1889667EFAEBB33B8C12572835DA3F027F78",
+  "6092A032351D76D6AACE89D4467BAC17E09B52CE",
+  "624C22A8C8F8C93F18FE5ECD4713100C8D754507",
+  "62A56A64C1489FBE3BAD6983401EF58E0CC26B41",
+  "62B487BC84825B3DF028A932F082526E195EEFF2",
+  "6367C48DD193D56EA7B0BAAD25B19455E529F5EE",
+  "640FB06193D8F2177C0FBF84F172DC686D33DD00",
+  "6420ED4D831B436D1E92D25605D18297296374E3",
+  "64356BCFAE350C970263C1CE575185B289F7B836",
+  "64438EE426438161DA88554B3E2DE796B0CA265E",
+  "64814A3B7FD8444A56AD3641FD3451C6DEAF0757",
+  "658DEA946B9E9A54BC3059ADA2B245256992FD8A",
+  "65B3DD225FE19C6A9EC4383161EA00FE0F161157",
+  "675131969B5F6AB48B27DD3BD7E7535FD5B2DC93",
+  "675DC611BAFB0B7348DD3BAF7E005B6916FB954D",
+  "6ADFB183A4A2C94A2F92DAB5ADE762A47889A5A1",
+  "6C616F7C2D2FDE9018A09F06EAEFCFC7582BC7BA",
+  "6D0EBBBDCE32474DB8141D23D2C01BD9628D6E5F",
+  "6E1A438CFE5A6C9E2165665F8C2258849CCC43F0",
+  "6E2F9E6111E77EDD0C446EA7A84E25323D137A61",
+  "701B389B848A2B1CFAB867093101D8D5AC56ADDD",
+  "70352F41061EDA4FF3C322094AF068BA70C3B38B",
+  "7073D0FAB1EA36CD0C0F1F603A2A5E44B931B31C",
+  "70CCD9007338D6D81DD3B6271621B9CF9A97EA00",
+  "7110EDA4D09E062AA5E4A390B0A572AC0D2C0220",
+  "711C73F64AFDCE07B7E38039A96D2224209E9A6C",
+  "7148686369B144C8E4147A0C9BA3E45FECEFD6B3",
+  "7212A9E01329EA93A57F574BD9BF77695D5FDCA4",
+  "721D65122734734800A1EDD6E68C03210E7B2ACA",
+  "74A871ACBF060DDA5FC7260D05A5924A34E4C0E7",
+  "7505D64A54E061B7ACD54CCD58B49DC43500B635",
+  "759730A97E4373F3A0EE12805DB065E3A4A649A5",
+  "75A0A1C981FEA69A013811B3091B66D8E1457FC6",
+  "7728240C80B6BFD450849405E8500D6D207783B6",
+  "775BB961B81DA1CA49217A48E533C832C337154A",
+  "77BCE9FB18F977EA576BBCD143B2B521073F0CD6",
+  "782F9B10621E362D5BD0DEF3A279B5E0908C9EBB",
+  "797009CA0DDC4EDE177EED0558234C5FE2C08376",
+  "79B333C96EC99512A3BF72653B23C7ED8A52DC42",
+  "7AB515D12BD2CF431745511AC4EE13FED15AB578",
+  "7AFAA0A74C41394C7122FE61723DDC365F322A55",
+  "7B21848AC9AF35BE0DDB2D6B9FC3851934DB8420",
+  "7C222FB2927D828AF22F592134E8932480637C0D",
+  "7C4A8D09CA3762AF61E59520943DC26494F8941B",
+  "7C6A61C68EF8B9B6B061B28C348BC1ED7921CB53",
+  "7CC918F959308C71F292F9308E7A748ADF4D1434",
+  "7CE0359F12857F2A90C7DE465F40A95F01CB5DA9",
+  "7D4EEBAB7CE33F2C5D6D8C6240CC8FE65EA14CD7",
+  "7D8F4B4B4613DC7E15333E6449692AD4AF502D1D",
+  "7EA35D812706D9213868749011AF1ED4FA2F6AA0",
+  "7ECFD8F97B4729C6FF0799B0B4D40F870083B461",
+  "7F1964E8A865667A0766CAC6801875E21FD7CC14",
+  "7F2BE99D71F38FEEF79D926C8F8FFA7A41C7D7DC",
+  "8104BA1DC0409B259F487ED07DB477C38F205A30",
+  "814FF90C56A74B5E2BB48CD240331867A95357E1",
+  "81CCA42DE0D0308B5E55FB3D3F5246CC5F47A486",
+  "83E8CEF8D84F02139290F90F29C0338EE7B4C246",
+  "8473D7D363BAA4CEA898D9C0752FF0FC8EF425CC",
+  "85F940C72D551AB70C79A22134A14DC2838D31AB",
+  "863DAE13577340B98C4C247F4A05B204A3543248",
+  "889C6853A117ACA83EF9D6523335DC065213AE86",
+  "88EA39439E74FA27C09A4FC0BC8EBE6D00978392",
+  "895B317C76B8E504C2FB32DBB4420178F60CE321",
+  "89E89C17F877CA2821B557F633CEC3253B0AA941",
+  "8A1621DAE39BF1D91D372C77F441E80B8F68B9B6",
+  "8A6B3C5E6BA4DA6EBFDF08B068CA74F7D99ED161",
+  "8BB0B97698F489D41B6955A46383FA1F2D9001C5",
+  "8BC5DE83CF1DAF79ED5B2F13F93D7C05D01D0388",
+  "8BE9377EB23A3A1FF6EDAA540117CFC75C183C93",
+  "8C258085654083B891CB5125CB6DCB740C8A73F8",
+  "8CB2237D0679CA88DB6464EAC60DA96345513964",
+  "8D6E34F987851AA599257D3831A1AF040886842F",
+  "8F2174C83B060AD8A652B5070A46CF2CC46314F0",
+  "9009337CF16333F07109B593405CF7552ED8059A",
+  "9048EAD9080D9B27D6B2B6ED363CBF8CCE795F7F",
+  "92119E2C63E9366ACFEFE818B50537A85577E2DB",
+  "92429D82A41E930486C6DE5EBDA9602D55C39986",
+  "929D3BA22D02B494DD0971784A3700C3DBF1D89F",
+  "93EC71B22793A81569C94CA17E4D9C293D8E201F",
+  "947C844D900B26A575AEAF8EF37C3851E8BE474B",
+  "9653AF05F246108D5724E5DA6F5ED0E89FC69C02",
+  "96DE5543D183D7DE52AC5FA21C46FC811F673F89",
+  "9752FB540F7084FF266A7A6439FE883C380CF49F",
+  "976272B40FB37F813D4A0104C7C8310FA8D0E85F",
+  "9796809F7DAE482D3123C16585F2B60F97407796",
+  "99996B911567C83CCE17CDF194F314975C57DDF1",
+  "9C881BDB6BC930D18797D72D07BB9E01EEB40D8B",
+  "9D4E1E23BD5B727046A9E3B4B7DB57BD8D6EE684",
+  "9D61BA84065FC83956CDFC63E49BC7A9D21D8665",
+  "9DC7226A87062ACBF9F614CDC26FCC847A47D3DB",
+  "9EC4236A09D01395A838F2E774923B4E8548FD19",
+  "9F2FEB0F1EF425B292F2F94BC8482494DF430413",
+  "9FD8DE5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA",
+  "A08670FF00AB376DFCA8A7542DCCE81626B2B469",
+  "A0C849D62D67126BB39974573611F1CDF03FBCA4",
+  "A1F0280EDDD46E463B6AC45B98D3A87B6C002358",
+  "A2C901C8C6DEA98958C219F6F2D038C44DC5D362",
+  "A2D445FE78F64EA1290F519E676536312581EFB1",
+  "A36E1F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C",
+  "A47B5CC8F06168F0EC3832A99894834E1D27F744",
+  "A4AC914C09D7C097FE1F4F96B897E625B6922069",
+  "A642A77ABD7D4F51BF9226CEAF891FCBB5B299B8",
+  "A6F375A196CD4C89C41DBB4500553EBF3BAB0A41",
+  "A77591BE2044AFCD45B50ACDFCE3A585CAAE257C",
+  "A7D579BA76398070EAE654C30FF153A4C273272A",
+  "A94A8FE5CCB19BA61C4C0873D391E987982FBBD3",
+  "AAF4C61DDCC5E8A2DABEDE0F3B482CD9AEA9434D",
+  "AB378B80A8A4AAFABAC7DB7AE169F25796E65994",
+  "AB87D24BDC7452E55738DEB5F868E1F16DEA5ACE",
+  "ABCCF54B832D256110CD9DB45C5391DA9AB6AB33",
+  "ABF7AAD6438836DBE526AA231ABDE2D0EEF74D42",
+  "AC137C6AE0947718332991E7CB2F50EB20B62AAA",
+  "AD70AB97AE1376E656002641CFB067C9C94906A2",
+  "AD9056406390CFAA42B23010B8287717EB0AAA46",
+  "AE9030C665364EB2651D450E8321AE62DD51A726",
+  "AF2C41EB4E034ED0A417D1EC637082072A4D3AAE",
+  "AF8978B1797B72ACFFF9595A5A2A373EC3D9106D",
+  "AFAED75406BD414820CEA4A5119F90C259C05755",
+  "B0399D2029F64D445BD131FFAA399A42D2F8E7DC",
+  "B03B74363BBB6EE42CE248C7A5344E92FFE76CC7",
+  "B09833CEC69EFF1BB667940A45E311262E85A422",
+  "B14AB480028768CB748FD97DE56144A304EB8A1A",
+  "B1B3773A05C0ED0176787A4F1574FF0075F7521E",
+  "B1F45ED147D6803AC1A2A91BDEA1FAB603F910A5",
+  "B2E98AD6F6EB8508DD6A14CFA704BAD7F05F6FB1",
+  "B2EE60370AD57D9BC3877E9024C507AB99303A64",
+  "B363C6EF45640A79DDC7BBC826A87E02734D88F0",
+  "B3ACA92C793EE0E9B1A9B0A5F5FC044E05140DF3",
+  "B487AF41779CFFB9572B982E1A0BF83F0EAFBE05",
+  "B66806F4D55C4A9E01DE69F4F38E621817931B81",
+  "B6B0546CCBB573171234D3F56B8C6E5154DB531A",
+  "B7A875FC1EA228B9061041B7CEC4BD3C52AB3CE3",
+  "B7C40B9C66BC88D38A59E554C639D743E77F1B65",
+  "B80A9AED8AF17118E51D4D0C2D7872AE26E2109E",
+  "B84689B769AB3D929F7CC14EE35E77C4AE6427C8",
+  "B986415C93241513D33D01FCF532A6C47AC4F3EE",
+  "BA5D8027D4FBAF0E92582959DECFE1A2E20FD300",
+  "BADCFA3C62742B3BCC1DCD893E78713BD36AA430",
+  "BCD5917B85289CF889711720CE741F75C47ADD13",
+  "BCEF7A046258082993759BADE995B3AE8BEE26C7",
+  "BD5E5EB049F3907175F54F5A571BA6B9FDEA36AB",
+  "BDE4FCFE6CC9FBF17E4812357CF570F80AE4718B",
+  "BF2F749E80C970F50552E9D5F3E8434E78B88D35",
+  "BFD3617727EAB0E800E62A776C76381DEFBC4145",
+  "BFE54CAA6D483CC3887DCE9D1B8EB91408F1EA7A",
+  "C05E0CAFDD73DEC4CCCF30461D084811A94A7617",
+  "C0B137FE2D792459F26FF763CCE44574A5B5AB03",
+  "C0D821EEFE9E6CC9BDE6046BE1FD6EB9E23B26A4",
+  "C1AB9924ECDA1BEAF8BBAA1EB8238B83E0ED8C63",
+  "C2577430D91716490DC5D33C20D901E008B696E7",
+  "C31405B16FBB48ADB41B8F6505E788FCB13EBD91",
+  "C3F63EE769C8F251565E45CF724F6E4EFAEE0387",
+  "C539153BA1F947BD4B6F910263B967C4A0A62357",
+  "C590AFA9BB59191FFAB30F223791E82D3FD3E3AF",
+  "C60266A8ADAD2F8EE67D793B4FD3FD0FFD73CC61",
+  "C6922B6BA9E0939583F973BC1682493351AD4FE8",
+  "C824FE0AFE16857DD6F587AA7C4044D2642D60FB",
+  "C8A50F632C3C4BAF27FC05FACB1883104E1D16EF",
+  "C95259DE1FD719814DAEF8F1DC4BD64F9D885FF0",
+  "C984AED014AEC7623A54F0591DA07A85FD4B762D",
+  "CAE355B615B61313E7A2D42D0C650F705DC3D94E",
+  "CB047D26CECB70DE3B7E682FA5E9D6C5539F7603",
+  "CB45C671CBC500627EA424EEA5F91996221B5935",
+  "CBB7353E6D953EF360BAF960C122346276C6E320",
+  "CBDB0CC7F3F5B4BE81A75FA7242590E3E9882E1E",
+  "CBE648909034C0624C205FE219D3FBD10052C715",
+  "CBF2510A5F9F7EECE23428DA7125C06115839E2B",
+  "CBFDAC6008F9CAB4083784CBD1874F76618D2A97",
+  "CDF547ED4C64E6994AF35CFCD69C4204C9227A97",
+  "CEDF41FCCB586DC39E1CE34BB482F0AFE557B49F",
+  "CEF7E59218E3A7E18AAF7FAA4A23BCD964323A66",
+  "CF6795DA1EF2AB0D009F075C796E5773327E4699",
+  "D033E22AE348AEB5660FC2140AEC35850C4DA997",
+  "D04C1675B232C6ECE69ED95E189E95D589F217B0",
+  "D0A65436A81128B4FAC0F27A75B9A15CFD6F07C9",
+  "D11760DC49721E0824405A6354821BAB3D3BF40A",
+  "D5244A331AAD290F924ED5ED8C070D65D2E0633E",
+  "D53652DE63B26F2B99ABFC5699FAC10F3F95E1F7",
+  "D6955D9721560531274CB8F50FF595A9BD39D66F",
+  "D6CFE5E76C8347BC803168FE861F69FCC69CC79C",
+  "D6F7DC74A8B9C6AEC2753204C6136FE6F516C929",
+  "D714D8456935FA20E60BD9E661423CB2583C79D9",
+  "D7966074B3D619B43EE1C6296AE5332C48D6CB1C",
+  "D81B69B3443BE6529521AE051E08515F45B39BF1",
+  "D869DB7FE62FB07C25A0403ECAEA55031744B5FB",
+  "D8CD10B920DCBDB5163CA0185E402357BC27C265",
+  "D986F637E0EC09FD413A5107B0A202A86CB326DA",
+  "D9C691D27B3766353BA245739E91737B922AD20A",
+  "DB25F2FC14CD2D2B1E7AF307241F548FB03C312A",
+  "DC76E9F0C0006E8F919E0C515C66DBBA3982F785",
+  "DD08B58E1D30DAD48D37A35A8760CFFE8D756CFA",
+  "DD5FEF9C1C1DA1394D6D34B248C51BE2AD740840",
+  "DDF45997A7E18A25AD5F5CF222DA64814DD060D5",
+  "DE3460832EA070EFFABBC7032D7594BBDE1BB120",
+  "DE4AB6E26DB462B930510BA83E9F80B7DB2BEF88",
+  "DEA742E166979027AE70B28E0A9006FB1010E760",
+  "DF70F9B975B42116EE6C0231A7E6EAD0BBB283AA",
+  "E07F8C4AB682212744526982F0F08D336E1C9041",
+  "E0C95748A455C27A80FD289269120D4944D1F318",
+  "E101FD352E2D56EC1FDDEECB5164592CC49F3ABD",
+  "E279E02360FCC33D70DB6C32C23454BB466E2D55",
+  "E286977B13F1A89E20D0459207545D15FE1EBA08",
+  "E35BECE6C5E6E0E86CA51D0440E92282A9D6AC8A",
+  "E38AD214943DAAD1D64C102FAEC29DE4AFE9DA3D",
+  "E3CD9F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD",
+  "E46FC836CCA3ACEC03944314D1457C2AE6C68EF3",
+  "E5E0213249CD5BD8FB9D09BB50854072D3DFA7DB",
+  "E5E9FA1BA31ECD1AE84F75CAAA474F3A663F05F4",
+  "E6852777C0260493DE41FB43918AB07BBB3A659C",
+  "E68E11BE8B70E435C65AEF8BA9798FF7775C361E",
+  "E6B6AFBD6D76BB5D2041542D7D2E3FAC5BB05593",
+  "E7D537E128158790157EA057BB883E0292A84930",
+  "E8126C64C3486E84081FFFAD6A0AB22D4267BB41",
+  "E8248CBE79A288FFEC75D7300AD2E07172F487F6",
+  "EAB0F0D675765E4F0E8773762673A9D86F53028C",
+  "EACB0D1B53A6F12893E95C7C5AEC16DE3FF2A939",
+  "EB3B0C150D06E5AA2E8D921FEA8C1056C1FEA6F8",
+  "EBE53C61982711F13AF8BBC09844E4E2849268BA",
+  "EC1E7FB8656DBA32737ACABC2E5A1FB2D02A973F",
+  "EC30ADC79E734900430E4174CF0A36C2D0C42272",
+  "EC461B5480380ECF863D9802EDBE70152AEE1C46",
+  "EC5A7C3E21436A8E76716710CE551356F9AA745E",
+  "ECE4E6B27CF0A2C5C9D83E44BFD5A71795F8A6E0",
+  "ED9D3D832AF899035363A69FD53CD3BE8F71501C",
+  "EE8D8728F435FD550F83852AABAB5234CE1DA528",
+  "EF0EBBB77298E1FBD81F756A4EFC35B977C93DAE",
+  "EF7830DB5BFBF3536820C00105AB5734EF4609FC",
+  "EF971EE38BBA25D9AC8A840D235457A038448B09",
+  "EFEBDFC78EA1935C4B926324522B452B766FBC76",
+  "F0744D60DD500C92C0D37C16174CC58D3C4BDD8E",
+  "F0D61723FDF7301391BEA5FFF1EF28FA3C7D0EEA",
+  "F11EA658082349955674A565FE658AD5BEDFB328",
+  "F15E518A239A5DDBC4E7F942B93B7FBD60C1048D",
+  "F1BA847181793B3BABD9059E9EAA6A3D1EE9D95D",
+  "F25B72CF45C8EF0687D919E455F9064205653713",
+  "F2847B1BD9624F927E979C1846D9FE17DD65F518",
+  "F2B14F68EB995FACB3A1C35287B778D5BD785511",
+  "F32157A45887E4FE5ADC0B5198F7EC4920A526D7",
+  "F4A69973E7B0BF9D160F9F60E3C3ACD2494BEB0D",
+  "F4CC6E82140048EAD7015F2917EB56E3E50A1F00",
+  "F4EE7415066B23ED0C5555E3A10AA76726A995D7",
+  "F71B47E5F8BE4C6E31DAD9F5BB646B0D544B5A90",
+  "F732DFDBD0AED62727F958CCCCA9EC3A5CB13EDA",
+  "F7A9E24777EC23212C54D7A350BC5BEA5477FDBB",
+  "F7C3BC1D808E04732ADF679965CCC34CA7AE3441",
+  "F80D0CA101E967B50B730DDF8E8ACA0DE85E8DF6",
+  "F8248E12727710C946F73D8F6E02EB93530DD9DE",
+  "F865B53623B121FD34EE5426C792E5C33AF8C227",
+  "F872CAAD177D67BBE18C119D0505F2D3CAA02AF3",
+  "FA9BEB99E4029AD5A6615399E7BBAE21356086B3",
+  "FAC673092FBDCAB2CD92EFC19675F2750ED97CA1",
+  "FBA9F1C9AE2A8AFE7815C9CDD492512622A66302",
+  "FC4549F4726319B9151374ADF6D50FCBDA01D6D9",
+  "FC84AAA687374AED41957693F32664E5F4981862",
+  "FDB87DFD199045AF7165780B11640B83768A0D57",
+  "FFAAAFBDEE1DE041310096E1FF171618A2049F6E",
+];
@@ -0,0 +1,49 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import { BUNDLED_BREACHED_HASHES } from "./breached-password-list";
+
+// Hashes are looked up by range, as with Pwned Passwords: only this many
+// leading hex digits of a password's SHA-1 are used to fetch a range
+export const BREACH_PREFIX_LENGTH = 5;
+
+export interface BreachedPasswordList {
+  // Hash suffixes in the range sharing the prefix
+  range(prefix: string): Promise<string[]>;
+}
+
+export class InMemoryBreachList implements BreachedPasswordList {
+  private ranges = new Map<string, string[]>();
+
+  constructor(hashes: Iterable<string>) {
+    for (const line of Array.from(hashes)) {
+      const hash = line.trim().toUpperCase();
+      if (!/^[0-9A-F]{40}$/.test(hash)) continue;
+      const prefix = hash.slice(0, BREACH_PREFIX_LENGTH);
+      const range = this.ranges.get(prefix) ?? [];
+      range.push(hash.slice(BREACH_PREFIX_LENGTH));
+      this.ranges.set(prefix, range);
+    }
+  }
+
+  async range(prefix: string): Promise<string[]> {
+    return this.ranges.get(prefix.toUpperCase()) ?? [];
+  }
+}
+
+// BREACHED_PASSWORDS_FILE swaps the bundled list for a bigger one: a SHA-1
+// per line, optionally followed by ":count" as in the Pwned Passwords
+// downloads.
+function createBreachList(): BreachedPasswordList {
+  const file = process.env.BREACHED_PASSWORDS_FILE;
+  if (!file) return new InMemoryBreachList(BUNDLED_BREACHED_HASHES);
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  return new InMemoryBreachList(lines.map((line) => line.split(":")[0]));
+}
+
+export const breachList = createBreachList();
+
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  const hash = createHash("sha1").update(password).digest("hex").toUpperCase();
+  const range = await breachList.range(hash.slice(0, BREACH_PREFIX_LENGTH));
+  return range.includes(hash.slice(BREACH_PREFIX_LENGTH));
+}
@@ -0,0 +1,14 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any drizzle Postgres driver works here (node-postgres in production,
+// pglite or a local server in tests), so storage only depends on this type.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
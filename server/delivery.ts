@@ -0,0 +1,69 @@
+import fs from "fs";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export type OutgoingMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface DeliveryChannel {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export class ConsoleChannel implements DeliveryChannel {
+  async send(message: OutgoingMessage): Promise<void> {
+    console.log(`[delivery] to ${message.to} :: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Appends one JSON object per line so scripts and tests can tail the file
+// for the latest code.
+export class FileChannel implements DeliveryChannel {
+  constructor(private path: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await fs.promises.appendFile(this.path, JSON.stringify(entry) + "\n");
+  }
+}
+
+export class SmtpChannel implements DeliveryChannel {
+  private transporter: Transporter;
+
+  constructor(
+    url: string,
+    private from: string,
+  ) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    if (!message.to.includes("@")) {
+      throw new Error(`Cannot send email to "${message.to}"`);
+    }
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// DELIVERY_TRANSPORT selects the channel: "console" (default), "file" (writes
+// to DELIVERY_FILE) or "smtp" (SMTP_URL, e.g. smtp://localhost:1025 for a
+// local mail catcher).
+function createDeliveryChannel(): DeliveryChannel {
+  switch (process.env.DELIVERY_TRANSPORT) {
+    case "file":
+      return new FileChannel(process.env.DELIVERY_FILE ?? "outbox.log");
+    case "smtp":
+      if (!process.env.SMTP_URL) {
+        throw new Error("SMTP_URL must be set when DELIVERY_TRANSPORT=smtp");
+      }
+      return new SmtpChannel(
+        process.env.SMTP_URL,
+        process.env.SMTP_FROM ?? "Safe-massage <no-reply@localhost>",
+      );
+    default:
+      return new ConsoleChannel();
+  }
+}
+
+export const delivery = createDeliveryChannel();
@@ -0,0 +1,49 @@
+import type { Conversation, MessageEnvelope, User } from "@shared/schema";
+import type { ErrorCode } from "@shared/protocol";
+import { storage } from "./storage";
+
+export type EnvelopeProblem = { code: ErrorCode; message: string };
+
+// The server never sees plaintext; it can only check that the envelope comes
+// from the sending device and can be opened by members alone. Direct
+// messages wrap a key per device, groups use sender keys.
+export async function checkEnvelope(
+  conversation: Conversation,
+  members: User[],
+  sender: { userId: number; deviceId?: string },
+  envelope: MessageEnvelope | null | undefined,
+): Promise<EnvelopeProblem | null> {
+  const expected = conversation.type === "direct" ? 1 : 2;
+  if (envelope?.v !== expected) {
+    return { code: "ENCRYPTION_REQUIRED", message: "Messages must be end-to-end encrypted" };
+  }
+  if (envelope.senderDeviceId !== sender.deviceId) {
+    return { code: "INVALID_FRAME", message: "Envelope was not sealed by this device" };
+  }
+  if (
+    envelope.v === 1 &&
+    envelope.keys.some((key) => !members.some((m) => m.id === key.userId))
+  ) {
+    return { code: "INVALID_FRAME", message: "Envelope addresses users outside the conversation" };
+  }
+  if (envelope.v === 2) {
+    const senderKey = await storage.getSenderKey(envelope.keyId);
+    if (
+      !senderKey ||
+      senderKey.conversationId !== conversation.id ||
+      senderKey.userId !== sender.userId ||
+      senderKey.deviceId !== sender.deviceId
+    ) {
+      return { code: "INVALID_FRAME", message: "Unknown sender key" };
+    }
+    // Membership changed since the key was shared, so it may be held by
+    // someone who is no longer a member
+    if (senderKey.epoch !== conversation.epoch) {
+      return {
+        code: "STALE_SENDER_KEY",
+        message: "Group membership changed; the sender key must be rotated",
+      };
+    }
+  }
+  return null;
+}
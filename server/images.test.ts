@@ -0,0 +1,66 @@
+import "./test-env";
+import { randomUUID } from "crypto";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { blobStore } from "./blob-store";
+import { discardImages, imageUrl, thumbnailKey } from "./images";
+import { storage } from "./storage";
+
+// A stored picture with its files, in a group of its uploader's
+async function uploadedImage() {
+  const uploader = await storage.createUser({
+    username: `uploader-${randomUUID()}`,
+    password: "x",
+  });
+  const conversation = await storage.createConversation(
+    { type: "group", name: "Pictures", createdBy: uploader.id },
+    [uploader.id],
+  );
+  const id = randomUUID();
+  await blobStore.put(id, Buffer.from("picture"));
+  await blobStore.put(thumbnailKey(id), Buffer.from("thumbnail"));
+  await storage.createImage({
+    id,
+    conversationId: conversation.id,
+    uploaderId: uploader.id,
+    contentType: "image/png",
+    size: 7,
+    width: 1,
+    height: 1,
+  });
+  const message = () =>
+    storage.createMessage({
+      content: "picture",
+      senderId: uploader.id,
+      conversationId: conversation.id,
+      imageUrl: imageUrl(id),
+    });
+  return { id, message };
+}
+
+test("deleting a message removes its picture and files", async () => {
+  const { id, message } = await uploadedImage();
+  const shown = await message();
+
+  await storage.deleteMessage(shown.id);
+  await discardImages([shown]);
+  assert.equal(await storage.getImage(id), undefined);
+  assert.equal(await blobStore.get(id), undefined);
+  assert.equal(await blobStore.get(thumbnailKey(id)), undefined);
+});
+
+test("a picture another message still shows is kept", async () => {
+  const { id, message } = await uploadedImage();
+  const first = await message();
+  const second = await message();
+
+  await storage.deleteMessage(first.id);
+  await discardImages([first]);
+  assert.ok(await storage.getImage(id));
+  assert.ok(await blobStore.get(id));
+
+  await storage.deleteMessage(second.id);
+  await discardImages([second]);
+  assert.equal(await storage.getImage(id), undefined);
+  assert.equal(await blobStore.get(id), undefined);
+});
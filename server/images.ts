@@ -0,0 +1,144 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import sharp from "sharp";
+import { imageTypes, type ImageType, type Message } from "@shared/schema";
+import { blobStore } from "./blob-store";
+import { storage } from "./storage";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Guards against decompression bombs: small files that decode to huge images
+const MAX_IMAGE_PIXELS = 40_000_000;
+const THUMBNAIL_SIZE = 320;
+// Uploads not sent within this long are removed by the sweep
+const UNSENT_IMAGE_TTL_MS = 60 * 60 * 1000;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1, fields: 0 },
+  // Only a first filter; the bytes themselves are checked once received
+  fileFilter: (_req, file, done) => {
+    done(null, (imageTypes as readonly string[]).includes(file.mimetype));
+  },
+});
+
+// Parses a single `image` file field, answering 413 or 400 when it breaks
+// the limits
+export function receiveImage(req: Request, res: Response, next: NextFunction) {
+  upload.single("image")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).send(error.message);
+    }
+    if (error) return next(error);
+    next();
+  });
+}
+
+// What the file really is, going by its leading bytes rather than the name
+// or declared type
+export function detectImageType(data: Buffer): ImageType | undefined {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, i) => data[offset + i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (data.subarray(0, 6).toString("latin1").match(/^GIF8[79]a$/)) return "image/gif";
+  if (
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+const outputFormats = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+} as const;
+
+export type ProcessedImage = {
+  data: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+};
+
+// Re-encodes the image, which drops EXIF (GPS included) and any other
+// metadata since sharp only copies it when asked to. JPEG orientation is
+// applied to the pixels first so photos still display the right way up.
+export async function processImage(data: Buffer, type: ImageType): Promise<ProcessedImage> {
+  const animated = type === "image/gif" || type === "image/webp";
+  let pipeline = sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS, animated });
+  if (type === "image/jpeg") pipeline = pipeline.rotate();
+  const cleaned = await pipeline.toFormat(outputFormats[type]).toBuffer();
+  const metadata = await sharp(cleaned, { animated }).metadata();
+
+  const thumbnail = await sharp(cleaned, { limitInputPixels: MAX_IMAGE_PIXELS })
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp()
+    .toBuffer();
+
+  return {
+    data: cleaned,
+    thumbnail,
+    width: metadata.width!,
+    // Animated images report the height of all frames stacked
+    height: metadata.pageHeight ?? metadata.height!,
+  };
+}
+
+export const imageUrl = (id: string) => `/api/images/${id}`;
+export const thumbnailKey = (id: string) => `${id}-thumbnail`;
+
+export function imageIdFromUrl(url: string): string | undefined {
+  return url.match(/^\/api\/images\/([0-9a-f-]{36})$/)?.[1];
+}
+
+// Stores a processed upload for a conversation
+export async function saveImage(
+  conversationId: number,
+  uploaderId: number,
+  type: ImageType,
+  processed: ProcessedImage,
+) {
+  const id = randomUUID();
+  await blobStore.put(id, processed.data);
+  await blobStore.put(thumbnailKey(id), processed.thumbnail);
+  return storage.createImage({
+    id,
+    conversationId,
+    uploaderId,
+    contentType: type,
+    size: processed.data.length,
+    width: processed.width,
+    height: processed.height,
+  });
+}
+
+// Removes the pictures of messages that were deleted or expired, unless
+// another message still shows them
+export async function discardImages(messages: Message[]) {
+  for (const message of messages) {
+    const id = message.imageUrl && imageIdFromUrl(message.imageUrl);
+    if (!id || (await storage.isImageShown(message.imageUrl!))) continue;
+    await storage.deleteImage(id);
+    await deleteImageFiles(id);
+  }
+}
+
+// Removes uploads that were never sent, with their files
+export async function sweepImages() {
+  const unsent = await storage.deleteUnsentImages(new Date(Date.now() - UNSENT_IMAGE_TTL_MS));
+  for (const image of unsent) {
+    await deleteImageFiles(image.id);
+  }
+}
+
+async function deleteImageFiles(id: string) {
+  await blobStore.delete(id);
+  await blobStore.delete(thumbnailKey(id));
+}
@@ -1,4 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
+// Lets rejected async route handlers reach the error handler below instead
+// of crashing the process
+import "express-async-errors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
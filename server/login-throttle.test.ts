@@ -0,0 +1,96 @@
+import "./test-env";
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { startLoginAttempt } from "./login-throttle";
+import { storage } from "./storage";
+
+const MINUTE = 60 * 1000;
+
+// Just what the throttle reads from a request
+const from = (ip: string) => ({ ip, get: () => undefined }) as unknown as Request;
+
+// Starts an attempt and reports it wrong, failing the test if it is refused
+async function fail(ip: string, username: string, type?: "second_factor_failed") {
+  const { refusal, attempt } = await startLoginAttempt(from(ip), username, undefined, type);
+  assert.equal(refusal, null, `attempt for ${username} from ${ip} was refused`);
+  await attempt!.failed();
+}
+
+async function refusalFor(ip: string, username: string) {
+  return (await startLoginAttempt(from(ip), username)).refusal;
+}
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+test("an address is refused after 20 failures, whatever the usernames", async () => {
+  for (let i = 0; i < 20; i++) await fail("10.0.0.1", `spray-${i}`);
+
+  const refusal = await refusalFor("10.0.0.1", "spray-new");
+  assert.ok(refusal);
+  assert.equal(refusal.retryAfterMs, 15 * MINUTE);
+  // Other addresses are unaffected
+  assert.equal(await refusalFor("10.0.0.2", "spray-new"), null);
+
+  // The window slides: the address may try again once failures age out
+  mock.timers.tick(15 * MINUTE + 1);
+  assert.equal(await refusalFor("10.0.0.1", "spray-new"), null);
+});
+
+test("wrong second-factor codes count toward the address limit", async () => {
+  for (let i = 0; i < 20; i++) await fail("10.0.1.1", `codes-${i}`, "second_factor_failed");
+  assert.ok(await refusalFor("10.0.1.1", "codes-new"));
+});
+
+test("failures on a username make each further attempt wait longer", async () => {
+  // Every attempt from its own address, so only the username limits apply
+  let ip = 0;
+  const next = () => `10.0.2.${++ip}`;
+
+  for (let i = 0; i < 3; i++) await fail(next(), "slowed");
+  assert.equal((await refusalFor(next(), "slowed"))?.retryAfterMs, 1000);
+
+  mock.timers.tick(1000);
+  await fail(next(), "slowed");
+  assert.equal((await refusalFor(next(), "slowed"))?.retryAfterMs, 2000);
+
+  mock.timers.tick(2000);
+  await fail(next(), "slowed");
+  const refusal = await refusalFor(next(), "slowed");
+  assert.equal(refusal?.retryAfterMs, 4000);
+  assert.equal(refusal?.message, "Too many failed attempts. Try again in 4 seconds.");
+});
+
+test("ten failures lock the username for 15 minutes", async () => {
+  let ip = 0;
+  const next = () => `10.0.3.${++ip}`;
+
+  for (let i = 0; i < 10; i++) {
+    // Sit out the growing delay before each attempt
+    mock.timers.tick(MINUTE);
+    await fail(next(), "locked");
+  }
+  const locks = await storage.getRecentAuthEvents(
+    { username: "locked" },
+    new Date(Date.now() - MINUTE),
+  );
+  assert.equal(locks.filter((event) => event.type === "account_locked").length, 1);
+
+  // Even past the longest delay the username stays locked
+  mock.timers.tick(2 * MINUTE);
+  const refusal = await refusalFor(next(), "locked");
+  assert.equal(refusal?.retryAfterMs, 13 * MINUTE);
+  assert.equal(refusal?.message, "Too many failed attempts. Try again in 13 minutes.");
+
+  // The lock resets the count, so the next attempt starts afresh
+  mock.timers.tick(13 * MINUTE);
+  const { refusal: none, attempt } = await startLoginAttempt(from(next()), "locked");
+  assert.equal(none, null);
+  await attempt!.succeeded();
+});
@@ -0,0 +1,133 @@
+import type { Request } from "express";
+import type { AuthEvent, AuthEventType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Failed attempts are counted over this sliding window
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Failures from one address before it is refused, whatever the usernames
+const MAX_FAILURES_PER_IP = 20;
+// Failures on one username before each further attempt must wait, doubling
+// from one second up to MAX_DELAY_MS
+const FREE_FAILURES = 3;
+const MAX_DELAY_MS = 60 * 1000;
+// Failures on one username that lock it, and for how long
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export type LoginRefusal = { retryAfterMs: number; message: string };
+
+export function recordAuthEvent(
+  req: Request,
+  type: AuthEventType,
+  username: string,
+  userId?: number,
+) {
+  return storage.recordAuthEvent({
+    type,
+    username,
+    userId,
+    ip: req.ip ?? "unknown",
+    userAgent: req.get("user-agent")?.slice(0, 512),
+  });
+}
+
+// Wrong second-factor codes count like wrong passwords
+function isFailure(event: AuthEvent) {
+  return event.type === "login_failed" || event.type === "second_factor_failed";
+}
+
+// Failures on the username since it last signed in or was locked, newest first
+function failuresSinceReset(events: AuthEvent[]) {
+  const reset = events.findIndex(
+    (event) => event.type === "login_succeeded" || event.type === "account_locked",
+  );
+  return (reset === -1 ? events : events.slice(0, reset)).filter(isFailure);
+}
+
+function waitMessage(ms: number) {
+  const [amount, unit] =
+    ms < 60000 ? [Math.ceil(ms / 1000), "second"] : [Math.ceil(ms / 60000), "minute"];
+  return `Too many failed attempts. Try again in ${amount} ${unit}${amount === 1 ? "" : "s"}.`;
+}
+
+// Whether the attempt logged as `attempt` may go ahead, judged by the events
+// logged before it. Checked before the password so a refused attempt reveals
+// nothing about it.
+async function checkLoginAllowed(
+  attempt: AuthEvent,
+  now = Date.now(),
+): Promise<LoginRefusal | null> {
+  const refuse = (until: number): LoginRefusal => ({
+    retryAfterMs: until - now,
+    message: waitMessage(until - now),
+  });
+  const earlier = (events: AuthEvent[]) => events.filter((event) => event.id < attempt.id);
+
+  const since = new Date(now - Math.max(FAILURE_WINDOW_MS, LOCKOUT_MS));
+  const fromIp = earlier(await storage.getRecentAuthEvents({ ip: attempt.ip }, since)).filter(
+    (event) => isFailure(event) && event.createdAt.getTime() > now - FAILURE_WINDOW_MS,
+  );
+  if (fromIp.length >= MAX_FAILURES_PER_IP) {
+    // Allowed again once enough failures have slid out of the window
+    return refuse(fromIp[MAX_FAILURES_PER_IP - 1].createdAt.getTime() + FAILURE_WINDOW_MS);
+  }
+
+  const forUsername = earlier(
+    await storage.getRecentAuthEvents({ username: attempt.username }, since),
+  );
+  const lock = forUsername.find((event) => event.type === "account_locked");
+  if (lock && lock.createdAt.getTime() + LOCKOUT_MS > now) {
+    return refuse(lock.createdAt.getTime() + LOCKOUT_MS);
+  }
+
+  const failures = failuresSinceReset(forUsername).filter(
+    (event) => event.createdAt.getTime() > now - FAILURE_WINDOW_MS,
+  );
+  if (failures.length >= FREE_FAILURES) {
+    const delay = Math.min(1000 * 2 ** (failures.length - FREE_FAILURES), MAX_DELAY_MS);
+    const until = failures[0].createdAt.getTime() + delay;
+    if (until > now) return refuse(until);
+  }
+  return null;
+}
+
+export type LoginAttempt = {
+  // The credential was right; the attempt stops counting as a failure
+  succeeded(): Promise<void>;
+  // The credential was wrong; locks the username once it has failed too often
+  failed(): Promise<void>;
+};
+
+// Logs the attempt as failed before anything is checked, so requests sent in
+// parallel each see the ones started before them and can't all slip under
+// the limits. Refused attempts are logged as throttled instead.
+export async function startLoginAttempt(
+  req: Request,
+  username: string,
+  userId?: number,
+  type: "login_failed" | "second_factor_failed" = "login_failed",
+): Promise<{ refusal: LoginRefusal; attempt: null } | { refusal: null; attempt: LoginAttempt }> {
+  const pending = await recordAuthEvent(req, type, username, userId);
+  const refusal = await checkLoginAllowed(pending);
+  if (refusal) {
+    await storage.deleteAuthEvent(pending.id);
+    await recordAuthEvent(req, "login_throttled", username, userId);
+    return { refusal, attempt: null };
+  }
+
+  return {
+    refusal: null,
+    attempt: {
+      succeeded: () => storage.deleteAuthEvent(pending.id),
+      failed: async () => {
+        const recent = await storage.getRecentAuthEvents(
+          { username },
+          new Date(Date.now() - FAILURE_WINDOW_MS),
+        );
+        if (failuresSinceReset(recent).length >= LOCKOUT_THRESHOLD) {
+          await recordAuthEvent(req, "account_locked", username, userId);
+        }
+      },
+    },
+  };
+}
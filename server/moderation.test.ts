@@ -0,0 +1,186 @@
+import "./test-env";
+import { after, afterEach, before, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { Report, User } from "@shared/schema";
+import type { OutgoingMessage } from "./delivery";
+import type * as Helpers from "./test-helpers";
+
+// Read when moderation.ts loads, so the server modules are imported in
+// `before`. The moderator is the first account created.
+process.env.ADMIN_USER_IDS = "1";
+
+let helpers: typeof Helpers;
+let server: Server;
+let moderator: Helpers.TestAgent;
+let moderatorUser: User;
+let sent: OutgoingMessage[];
+
+before(async () => {
+  helpers = await import("./test-helpers");
+  server = await helpers.startServer();
+  moderatorUser = await helpers.createUser("moderator");
+  assert.equal(moderatorUser.id, 1);
+  moderator = await helpers.signIn(server, moderatorUser);
+});
+
+after(() => helpers.stopServer(server));
+
+beforeEach(async () => {
+  const { delivery } = await import("./delivery");
+  sent = [];
+  mock.method(delivery, "send", async (message: OutgoingMessage) => {
+    sent.push(message);
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// A signed-in account and its browser
+async function member(username: string) {
+  const user = await helpers.createUser(username);
+  return { user, agent: await helpers.signIn(server, user) };
+}
+
+async function report(reporter: Helpers.TestAgent, user: User) {
+  const res = await reporter.post("/api/reports", {
+    type: "user",
+    userId: user.id,
+    reason: "harassment",
+    details: "Keeps messaging me",
+  });
+  assert.equal(res.status, 201, res.text);
+  return res.body as Report;
+}
+
+test("only moderators listed in ADMIN_USER_IDS reach the moderation API", async () => {
+  const { user, agent } = await member("ordinary");
+
+  assert.equal((await moderator.get("/api/moderation/reports")).status, 200);
+  assert.equal((await agent.get("/api/moderation/reports")).status, 403);
+  assert.equal((await new helpers.TestAgent(server).get("/api/moderation/reports")).status, 401);
+  const warn = await agent.post(`/api/moderation/users/${moderatorUser.id}/warn`, {
+    reason: "Turnabout",
+  });
+  assert.equal(warn.status, 403);
+  assert.equal(
+    (await agent.post(`/api/moderation/users/${user.id}/suspend`, { reason: "Self" })).status,
+    403,
+  );
+});
+
+test("a report reaches the moderators once", async () => {
+  const { agent: reporter, user: reporterUser } = await member("reporter");
+  const { user: reported } = await member("reported");
+
+  const filed = await report(reporter, reported);
+  assert.equal(filed.status, "open");
+  assert.equal(filed.snapshot.user.username, "reported");
+  const again = await reporter.post("/api/reports", {
+    type: "user",
+    userId: reported.id,
+    reason: "spam",
+  });
+  assert.equal(again.status, 409);
+  const self = await reporter.post("/api/reports", {
+    type: "user",
+    userId: reporterUser.id,
+    reason: "spam",
+  });
+  assert.equal(self.status, 400);
+
+  const page = (await moderator.get(`/api/moderation/reports?userId=${reported.id}`)).body;
+  assert.deepEqual(
+    page.reports.map((summary: { id: number; reporter: { id: number } }) => [
+      summary.id,
+      summary.reporter.id,
+    ]),
+    [[filed.id, reporterUser.id]],
+  );
+});
+
+test("a warning settles the report and tells the account", async () => {
+  const { agent: reporter } = await member("warn-reporter");
+  const { user: warned } = await member("warned");
+  const filed = await report(reporter, warned);
+
+  const res = await moderator.post(`/api/moderation/users/${warned.id}/warn`, {
+    reason: "Be civil",
+    reportId: filed.id,
+  });
+  assert.equal(res.status, 201, res.text);
+  assert.equal(res.body.type, "warn");
+
+  const [summary] = (await moderator.get(`/api/moderation/reports?userId=${warned.id}`)).body
+    .reports;
+  assert.equal(summary.status, "resolved");
+  assert.equal(summary.resolution, "warned");
+  assert.equal(summary.reportedUser.warnings, 1);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, "warned");
+  assert.match(sent[0].text, /Be civil/);
+
+  // A settled report can't be settled again
+  const twice = await moderator.post(`/api/moderation/users/${warned.id}/warn`, {
+    reason: "Again",
+    reportId: filed.id,
+  });
+  assert.equal(twice.status, 409);
+});
+
+test("suspending signs the account out everywhere and refuses its sign-ins", async () => {
+  const { user: suspended, agent: laptop } = await member("suspended");
+  const phone = await helpers.signIn(server, suspended);
+  const socket = await laptop.connect();
+
+  const res = await moderator.post(`/api/moderation/users/${suspended.id}/suspend`, {
+    reason: "Spamming",
+  });
+  assert.equal(res.status, 201, res.text);
+
+  assert.equal(await socket.closed(), 1008);
+  assert.equal((await laptop.get("/api/user")).status, 401);
+  assert.equal((await phone.get("/api/user")).status, 401);
+  const login = await new helpers.TestAgent(server).post("/api/login", {
+    username: suspended.username,
+    password: helpers.PASSWORD,
+  });
+  assert.equal(login.status, 403);
+  assert.equal(login.text, "Account suspended");
+  assert.match(sent[0].text, /until further notice/);
+});
+
+test("moderators can't suspend themselves or each other", async () => {
+  const self = await moderator.post(`/api/moderation/users/${moderatorUser.id}/suspend`, {
+    reason: "Oops",
+  });
+  assert.equal(self.status, 400);
+
+  const { user: colleague } = await member("colleague");
+  const { storage } = await import("./storage");
+  await storage.setUserAdmin(colleague.id);
+  const other = await moderator.post(`/api/moderation/users/${colleague.id}/suspend`, {
+    reason: "Oops",
+  });
+  assert.equal(other.status, 400);
+  assert.equal(other.text, "Moderators can't be suspended");
+});
+
+test("lifting a suspension lets the account sign in again", async () => {
+  const { user } = await member("pardoned");
+  await moderator.post(`/api/moderation/users/${user.id}/suspend`, {
+    reason: "Spamming",
+    days: 7,
+  });
+
+  const lifted = await moderator.delete(`/api/moderation/users/${user.id}/suspension`);
+  assert.equal(lifted.status, 204);
+  const agent = await helpers.signIn(server, user);
+  assert.equal((await agent.get("/api/user")).status, 200);
+  assert.equal(
+    (await moderator.delete(`/api/moderation/users/${user.id}/suspension`)).status,
+    409,
+  );
+});
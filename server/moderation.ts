@@ -0,0 +1,323 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { format } from "date-fns";
+import { fromZodError } from "zod-validation-error";
+import {
+  createReportSchema,
+  reportQuerySchema,
+  resolveReportSchema,
+  suspendUserSchema,
+  warnUserSchema,
+  type ModeratedUser,
+  type Report,
+  type ReportPage,
+  type ReportSnapshot,
+  type ReportSummary,
+  type User,
+} from "@shared/schema";
+import { toPublicUser } from "./blocks";
+import { delivery } from "./delivery";
+import { idParam } from "./params";
+import { endSessions } from "./sessions";
+import { storage } from "./storage";
+import type { Realtime } from "./websocket";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts made moderators the next time they use the app, so the first
+// one needs no database access. Listed by id rather than username, which
+// whoever registers it first would get.
+const adminUserIds = new Set(
+  (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0),
+);
+
+export async function grantListedAdmin(user: User) {
+  if (user.isAdmin || !adminUserIds.has(user.id)) return;
+  await storage.setUserAdmin(user.id);
+  user.isAdmin = true;
+}
+
+export function isSuspended(user: User, now = new Date()) {
+  return !!user.suspendedAt && (!user.suspendedUntil || user.suspendedUntil > now);
+}
+
+// Answers 401 or 403 unless a moderator is signed in
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  if (!req.user!.isAdmin) return res.sendStatus(403);
+  next();
+}
+
+// Emails the account about a moderation decision; a failed send doesn't
+// undo the decision
+function notify(user: User, subject: string, lines: string[]) {
+  delivery
+    .send({ to: user.email ?? user.username, subject, text: lines.join("\n\n") })
+    .catch(console.error);
+}
+
+async function moderatedUser(user: User): Promise<ModeratedUser> {
+  const actions = await storage.getModerationActions(user.id);
+  return {
+    ...toPublicUser(user),
+    suspended: isSuspended(user),
+    suspendedUntil: user.suspendedUntil,
+    warnings: actions.filter((action) => action.type === "warn").length,
+  };
+}
+
+async function summarize(report: Report): Promise<ReportSummary> {
+  const reporter = await storage.getUser(report.reporterId);
+  const reported = await storage.getUser(report.reportedUserId);
+  return {
+    ...report,
+    reporter: toPublicUser(reporter!),
+    reportedUser: await moderatedUser(reported!),
+  };
+}
+
+export function setupModeration(app: Express, realtime: Realtime) {
+  // Resolves `:id` to the account a moderator acts on, answering 404 when
+  // it does not exist and 400 for a malformed id or the moderator's own
+  // account
+  async function findTarget(req: Request, res: Response): Promise<User | undefined> {
+    const id = idParam(req, res);
+    if (id === undefined) return;
+    const user = await storage.getUser(id);
+    if (!user) {
+      res.sendStatus(404);
+      return;
+    }
+    if (user.id === req.user!.id) {
+      res.status(400).send("You can't moderate your own account");
+      return;
+    }
+    return user;
+  }
+
+  // The report an action settles must be open and about the same account
+  async function checkReport(res: Response, user: User, reportId?: number) {
+    if (reportId === undefined) return true;
+    const report = await storage.getReport(reportId);
+    if (!report || report.reportedUserId !== user.id) {
+      res.status(400).send("That report isn't about this account");
+      return false;
+    }
+    if (report.status !== "open") {
+      res.status(409).send("Report already resolved");
+      return false;
+    }
+    return true;
+  }
+
+  app.post("/api/reports", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = createReportSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const input = result.data;
+    const reporterId = req.user!.id;
+    let reported: User | undefined;
+    let messageId: number | null = null;
+    let snapshotMessage: ReportSnapshot["message"];
+
+    if (input.type === "message") {
+      const message = await storage.getMessage(input.messageId);
+      if (!message || message.deletedAt) return res.sendStatus(404);
+      if (!(await storage.isConversationMember(message.conversationId, reporterId))) {
+        return res.status(403).send("Not a member of this conversation");
+      }
+      if (message.senderId === null || message.senderId === reporterId) {
+        return res.status(400).send("You can't report your own message");
+      }
+      const encrypted = !!message.envelope;
+      if (encrypted && input.content === undefined) {
+        return res.status(400).send("Include the message as you see it");
+      }
+
+      const attachments = await storage.getMessageAttachments([message.id]);
+      reported = await storage.getUser(message.senderId);
+      messageId = message.id;
+      snapshotMessage = {
+        id: message.id,
+        conversationId: message.conversationId,
+        sentAt: message.createdAt!.toISOString(),
+        editedAt: message.editedAt?.toISOString() ?? null,
+        content: encrypted ? input.content! : message.content,
+        encrypted,
+        imageUrl: message.imageUrl,
+        attachments: attachments.map(({ name, contentType, size }) => ({
+          name,
+          contentType,
+          size,
+        })),
+      };
+    } else {
+      if (input.userId === reporterId) {
+        return res.status(400).send("You can't report yourself");
+      }
+      reported = await storage.getUser(input.userId);
+    }
+    if (!reported) return res.sendStatus(404);
+
+    if (await storage.findOpenReport(reporterId, reported.id, messageId)) {
+      return res.status(409).send("You've already reported this");
+    }
+    const report = await storage.createReport({
+      reporterId,
+      reportedUserId: reported.id,
+      messageId,
+      reason: input.reason,
+      details: input.details || null,
+      snapshot: {
+        user: { username: reported.username, avatarUrl: reported.avatarUrl },
+        message: snapshotMessage,
+      },
+    });
+    res.status(201).json(report);
+  });
+
+  app.get("/api/moderation/reports", requireAdmin, async (req, res) => {
+    const query = reportQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).send(fromZodError(query.error).message);
+    }
+
+    const { limit } = query.data;
+    // One extra row tells us whether an older page exists
+    const page = await storage.getReports({ ...query.data, limit: limit + 1 });
+    const reports = page.slice(0, limit);
+    const body: ReportPage = {
+      reports: await Promise.all(reports.map(summarize)),
+      nextCursor: page.length > limit ? reports[reports.length - 1].id : null,
+    };
+    res.json(body);
+  });
+
+  // Closes a report without acting on the account
+  app.post("/api/moderation/reports/:id/resolve", requireAdmin, async (req, res) => {
+    const result = resolveReportSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const id = idParam(req, res);
+    if (id === undefined) return;
+    const report = await storage.resolveReport(id, {
+      resolution: "dismissed",
+      resolvedBy: req.user!.id,
+      moderatorNote: result.data.note || null,
+    });
+    if (!report) {
+      return (await storage.getReport(id))
+        ? res.status(409).send("Report already resolved")
+        : res.sendStatus(404);
+    }
+    res.json(await summarize(report));
+  });
+
+  app.post("/api/moderation/users/:id/warn", requireAdmin, async (req, res) => {
+    const result = warnUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const user = await findTarget(req, res);
+    if (!user) return;
+    const { reason, reportId } = result.data;
+    if (!(await checkReport(res, user, reportId))) return;
+
+    const action = await storage.recordModerationAction({
+      userId: user.id,
+      moderatorId: req.user!.id,
+      reportId,
+      type: "warn",
+      reason,
+    });
+    if (reportId !== undefined) {
+      await storage.resolveReport(reportId, {
+        resolution: "warned",
+        resolvedBy: req.user!.id,
+        moderatorNote: reason,
+      });
+    }
+    notify(user, "A warning about your Safe-massage account", [
+      `A moderator reviewed a report about ${user.username} and issued a warning:`,
+      reason,
+      "Further reports may lead to your account being suspended.",
+    ]);
+    res.status(201).json(action);
+  });
+
+  // Signs the account out everywhere and refuses it until the suspension
+  // ends or is lifted
+  app.post("/api/moderation/users/:id/suspend", requireAdmin, async (req, res) => {
+    const result = suspendUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const user = await findTarget(req, res);
+    if (!user) return;
+    if (user.isAdmin) {
+      return res.status(400).send("Moderators can't be suspended");
+    }
+    const { reason, reportId, days } = result.data;
+    if (!(await checkReport(res, user, reportId))) return;
+
+    const now = new Date();
+    const until = days ? new Date(now.getTime() + days * DAY_MS) : null;
+    await storage.setUserSuspension(user.id, { suspendedAt: now, suspendedUntil: until });
+    const action = await storage.recordModerationAction({
+      userId: user.id,
+      moderatorId: req.user!.id,
+      reportId,
+      type: "suspend",
+      reason,
+      until,
+    });
+    if (reportId !== undefined) {
+      await storage.resolveReport(reportId, {
+        resolution: "suspended",
+        resolvedBy: req.user!.id,
+        moderatorNote: reason,
+      });
+    }
+
+    // Sockets close with their own reason first, so clients can tell the
+    // user why they were signed out
+    realtime.disconnectUser(user.id, "Account suspended");
+    await endSessions(realtime, user.id);
+    notify(user, "Your Safe-massage account is suspended", [
+      until
+        ? `A moderator suspended ${user.username} until ${format(until, "PPpp")}:`
+        : `A moderator suspended ${user.username} until further notice:`,
+      reason,
+    ]);
+    res.status(201).json(action);
+  });
+
+  app.delete("/api/moderation/users/:id/suspension", requireAdmin, async (req, res) => {
+    const user = await findTarget(req, res);
+    if (!user) return;
+    if (!isSuspended(user)) {
+      return res.status(409).send("This account isn't suspended");
+    }
+
+    await storage.setUserSuspension(user.id, { suspendedAt: null, suspendedUntil: null });
+    await storage.recordModerationAction({
+      userId: user.id,
+      moderatorId: req.user!.id,
+      type: "unsuspend",
+      reason: "Suspension lifted",
+    });
+    notify(user, "Your Safe-massage account is active again", [
+      `A moderator lifted the suspension of ${user.username}. You can sign in again.`,
+    ]);
+    res.sendStatus(204);
+  });
+}
@@ -0,0 +1,16 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+
+// Serial ids fit in a Postgres integer, which rejects NaN and anything larger
+const idSchema = z.coerce.number().int().positive().max(2 ** 31 - 1);
+
+// Reads a numeric route parameter such as `:id`, answering 400 when it isn't
+// a valid id
+export function idParam(req: Request, res: Response, name = "id"): number | undefined {
+  const result = idSchema.safeParse(req.params[name]);
+  if (!result.success) {
+    res.status(400).send(`Invalid ${name}`);
+    return;
+  }
+  return result.data;
+}
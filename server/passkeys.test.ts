@@ -0,0 +1,261 @@
+import "./test-env";
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { isoCBOR } from "@simplewebauthn/server/helpers";
+import type { User } from "@shared/schema";
+import {
+  PASSWORD,
+  TestAgent,
+  createUser,
+  signIn,
+  startServer,
+  stopServer,
+} from "./test-helpers";
+import { totpCode } from "./totp";
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+const sha256 = (data: Buffer | string) => createHash("sha256").update(data).digest();
+const base64url = (data: Buffer | string) => Buffer.from(data).toString("base64url");
+
+interface CeremonyOptions {
+  challenge: string;
+  rpId?: string;
+  rp?: { id: string };
+  user?: { id: string };
+}
+
+// A platform authenticator in software: one P-256 credential, attestation
+// "none", and a signature counter that goes up on every use
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly keys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  private userHandle = "";
+  counter = 0;
+
+  constructor(readonly origin: string) {}
+
+  get id() {
+    return base64url(this.credentialId);
+  }
+
+  register(options: CeremonyOptions, { userVerified = true } = {}) {
+    this.userHandle = options.user!.id;
+    const jwk = this.keys.publicKey.export({ format: "jwk" });
+    const publicKey = isoCBOR.encode(
+      new Map<number, number | Uint8Array>([
+        [1, 2], // kty: EC2
+        [3, -7], // alg: ES256
+        [-1, 1], // crv: P-256
+        [-2, Buffer.from(jwk.x!, "base64url")],
+        [-3, Buffer.from(jwk.y!, "base64url")],
+      ]),
+    );
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authData(options.rp!.id, FLAG_ATTESTED_CREDENTIAL, userVerified),
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      Buffer.from(publicKey),
+    ]);
+    const attestationObject = isoCBOR.encode(
+      new Map<string, unknown>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", new Uint8Array(authData)],
+      ]) as never,
+    );
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: "public-key",
+      response: {
+        clientDataJSON: base64url(this.clientData("webauthn.create", options.challenge)),
+        attestationObject: base64url(Buffer.from(attestationObject)),
+        transports: ["internal"],
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: "platform",
+    };
+  }
+
+  authenticate(options: CeremonyOptions, { userVerified = true } = {}) {
+    const authData = this.authData(options.rpId!, 0, userVerified);
+    const clientData = this.clientData("webauthn.get", options.challenge);
+    const signed = Buffer.concat([authData, sha256(clientData)]);
+    const signature = sign("sha256", signed, this.keys.privateKey);
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: "public-key",
+      response: {
+        clientDataJSON: base64url(clientData),
+        authenticatorData: base64url(authData),
+        signature: base64url(signature),
+        userHandle: this.userHandle,
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: "platform",
+    };
+  }
+
+  private authData(rpId: string, flags: number, userVerified: boolean) {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(++this.counter);
+    const allFlags = flags | FLAG_USER_PRESENT | (userVerified ? FLAG_USER_VERIFIED : 0);
+    return Buffer.concat([sha256(rpId), Buffer.from([allFlags]), signCount]);
+  }
+
+  private clientData(type: string, challenge: string) {
+    return JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false });
+  }
+}
+
+let server: Server;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(() => stopServer(server));
+
+// Signs in with the password and adds a passkey held by a new authenticator
+async function addPasskey(user: User) {
+  const agent = await signIn(server, user);
+  const authenticator = new SoftwareAuthenticator(agent.origin);
+  const options = await agent.post("/api/passkeys/register/options", { password: PASSWORD });
+  assert.equal(options.status, 200, options.text);
+  const registered = await agent.post("/api/passkeys/register", {
+    name: "Laptop",
+    response: authenticator.register(options.body),
+  });
+  assert.equal(registered.status, 201, registered.text);
+  return authenticator;
+}
+
+// Runs the sign-in ceremony in a fresh browser
+async function passkeyLogin(
+  authenticator: SoftwareAuthenticator,
+  respond: (options: CeremonyOptions) => object = (options) => authenticator.authenticate(options),
+) {
+  const agent = new TestAgent(server);
+  const options = await agent.post("/api/passkeys/login/options");
+  const response = respond(options.body);
+  return { agent, response, res: await agent.post("/api/passkeys/login", { response }) };
+}
+
+test("a registered passkey signs in without the password", async () => {
+  const user = await createUser("pk-login");
+  const authenticator = await addPasskey(user);
+
+  const { agent, res } = await passkeyLogin(authenticator);
+  assert.equal(res.status, 200, res.text);
+  assert.equal(res.body.id, user.id);
+  const me = await agent.get("/api/user");
+  assert.equal(me.body.id, user.id);
+
+  const passkeys = await agent.get("/api/passkeys");
+  assert.equal(passkeys.body.length, 1);
+  assert.equal(passkeys.body[0].id, authenticator.id);
+  assert.ok(passkeys.body[0].lastUsedAt);
+});
+
+test("registration without user verification is refused", async () => {
+  const user = await createUser("pk-no-uv-register");
+  const agent = await signIn(server, user);
+  const options = await agent.post("/api/passkeys/register/options", { password: PASSWORD });
+  const res = await agent.post("/api/passkeys/register", {
+    name: "Key",
+    response: new SoftwareAuthenticator(agent.origin).register(options.body, {
+      userVerified: false,
+    }),
+  });
+  assert.equal(res.status, 400);
+  assert.deepEqual((await agent.get("/api/passkeys")).body, []);
+});
+
+test("sign-in without user verification is refused", async () => {
+  const user = await createUser("pk-no-uv-login");
+  const authenticator = await addPasskey(user);
+
+  const { agent, res } = await passkeyLogin(authenticator, (options) =>
+    authenticator.authenticate(options, { userVerified: false }),
+  );
+  assert.equal(res.status, 401);
+  assert.equal((await agent.get("/api/user")).status, 401);
+});
+
+test("a replayed assertion or a counter that went backwards is refused", async () => {
+  const user = await createUser("pk-counter");
+  const authenticator = await addPasskey(user);
+  const first = await passkeyLogin(authenticator);
+  assert.equal(first.res.status, 200, first.res.text);
+
+  // The challenge was spent by the first sign-in
+  const replayed = await first.agent.post("/api/passkeys/login", { response: first.response });
+  assert.equal(replayed.status, 400);
+
+  // A fresh challenge signed by a cloned authenticator still at the old count
+  const cloned = await passkeyLogin(authenticator, (options) => {
+    authenticator.counter -= 1;
+    return authenticator.authenticate(options);
+  });
+  assert.equal(cloned.res.status, 401);
+  assert.equal((await cloned.agent.get("/api/user")).status, 401);
+});
+
+test("adding a passkey needs the password again", async () => {
+  const user = await createUser("pk-reauth");
+  const agent = await signIn(server, user);
+
+  assert.equal((await agent.post("/api/passkeys/register/options", {})).status, 400);
+  const wrong = await agent.post("/api/passkeys/register/options", { password: "guess" });
+  assert.equal(wrong.status, 400);
+  assert.equal(wrong.text, "Incorrect password");
+
+  // Without options from a re-authenticated request there is no challenge
+  const res = await agent.post("/api/passkeys/register", {
+    name: "Key",
+    response: new SoftwareAuthenticator(agent.origin).register({
+      challenge: base64url("made up"),
+      rp: { id: "127.0.0.1" },
+      user: { id: base64url(String(user.id)) },
+    }),
+  });
+  assert.equal(res.status, 400);
+  assert.deepEqual((await agent.get("/api/passkeys")).body, []);
+});
+
+test("with two-factor on, adding a passkey needs a current code too", async () => {
+  const user = await createUser("pk-reauth-totp");
+  const agent = await signIn(server, user);
+  const { secret } = (await agent.post("/api/2fa/setup")).body;
+  const confirm = await agent.post("/api/2fa/confirm", { code: totpCode(secret) });
+  assert.equal(confirm.status, 200, confirm.text);
+
+  const withoutCode = await agent.post("/api/passkeys/register/options", { password: PASSWORD });
+  assert.equal(withoutCode.status, 400);
+  assert.equal(withoutCode.text, "Invalid code");
+
+  // The step confirming enrolment is spent, so use the next one
+  const code = totpCode(secret, Date.now() + 30_000);
+  const options = await agent.post("/api/passkeys/register/options", { password: PASSWORD, code });
+  assert.equal(options.status, 200, options.text);
+  const authenticator = new SoftwareAuthenticator(agent.origin);
+  const registered = await agent.post("/api/passkeys/register", {
+    name: "Phone",
+    response: authenticator.register(options.body),
+  });
+  assert.equal(registered.status, 201, registered.text);
+
+  // The passkey stands in for both factors
+  const { res } = await passkeyLogin(authenticator);
+  assert.equal(res.status, 200, res.text);
+  assert.equal(res.body.id, user.id);
+});
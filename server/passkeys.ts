@@ -0,0 +1,260 @@
+import type { Express, Request } from "express";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { fromZodError } from "zod-validation-error";
+import {
+  namePasskeySchema,
+  passkeyLoginSchema,
+  passkeyReauthSchema,
+  registerPasskeySchema,
+  type Passkey,
+  type PasskeySummary,
+} from "@shared/schema";
+import { checkSecondFactor, comparePasswords, completeLogin } from "./auth";
+import { recordAuthEvent, startLoginAttempt } from "./login-throttle";
+import { storage } from "./storage";
+
+const RP_NAME = "Safe-massage";
+// How long the browser has to finish a ceremony
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+declare module "express-session" {
+  interface SessionData {
+    // The challenge of the ceremony in progress; each is good for one attempt
+    passkeyChallenge?: {
+      challenge: string;
+      purpose: "register" | "login";
+      expiresAt: number;
+    };
+  }
+}
+
+// WEBAUTHN_RP_ID and WEBAUTHN_ORIGIN pin the relying party, e.g.
+// "chat.example.com" and "https://chat.example.com". Without them the
+// request's own host is used, which suits development.
+function relyingParty(req: Request) {
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID ?? req.hostname,
+    origin: process.env.WEBAUTHN_ORIGIN ?? `${req.protocol}://${req.get("host")}`,
+  };
+}
+
+// Returns the stored challenge for the purpose, clearing it either way
+function takeChallenge(req: Request, purpose: "register" | "login") {
+  const stored = req.session.passkeyChallenge;
+  delete req.session.passkeyChallenge;
+  if (!stored || stored.purpose !== purpose || stored.expiresAt < Date.now()) return undefined;
+  return stored.challenge;
+}
+
+function summary({ id, name, createdAt, lastUsedAt }: Passkey): PasskeySummary {
+  return { id, name, createdAt, lastUsedAt };
+}
+
+function credential(passkey: Passkey) {
+  return {
+    id: passkey.id,
+    publicKey: new Uint8Array(Buffer.from(passkey.publicKey, "base64url")),
+    counter: passkey.counter,
+    transports: (passkey.transports ?? undefined) as AuthenticatorTransportFuture[] | undefined,
+  };
+}
+
+export function setupPasskeys(app: Express) {
+  app.get("/api/passkeys", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const passkeys = await storage.getUserPasskeys(req.user!.id);
+    res.json(passkeys.map(summary));
+  });
+
+  app.post("/api/passkeys/register/options", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = passkeyReauthSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    // A borrowed session must not be able to plant a passkey, so the owner
+    // proves themselves as at login, with guesses counting the same way
+    const user = req.user!;
+    const { refusal, attempt } = await startLoginAttempt(req, user.username, user.id);
+    if (refusal) {
+      res.set("Retry-After", Math.ceil(refusal.retryAfterMs / 1000).toString());
+      return res.status(429).send(refusal.message);
+    }
+    if (!(await comparePasswords(result.data.password, user.password))) {
+      await attempt.failed();
+      return res.status(400).send("Incorrect password");
+    }
+    const totp = await storage.getTotpCredential(user.id);
+    if (
+      totp?.confirmedAt &&
+      !(result.data.code && (await checkSecondFactor(user.id, { code: result.data.code })))
+    ) {
+      await attempt.failed();
+      return res.status(400).send("Invalid code");
+    }
+    await attempt.succeeded();
+
+    const existing = await storage.getUserPasskeys(user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID: relyingParty(req).rpID,
+      userName: user.username,
+      userID: new TextEncoder().encode(String(user.id)),
+      attestationType: "none",
+      // Discoverable, so signing in needs no username, and guarded by a PIN
+      // or biometric, so it counts as a second factor by itself
+      authenticatorSelection: { residentKey: "required", userVerification: "required" },
+      excludeCredentials: existing.map((passkey) => ({
+        id: passkey.id,
+        transports: credential(passkey).transports,
+      })),
+    });
+    req.session.passkeyChallenge = {
+      challenge: options.challenge,
+      purpose: "register",
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    };
+    res.json(options);
+  });
+
+  app.post("/api/passkeys/register", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = registerPasskeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+    const expectedChallenge = takeChallenge(req, "register");
+    if (!expectedChallenge) return res.status(400).send("Passkey setup expired; try again");
+
+    const { rpID, origin } = relyingParty(req);
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: result.data.response as unknown as RegistrationResponseJSON,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      return res.status(400).send((error as Error).message);
+    }
+    if (!verification.verified) return res.status(400).send("Passkey could not be verified");
+
+    const { credential: registered } = verification.registrationInfo;
+    if (await storage.getPasskey(registered.id)) {
+      return res.status(409).send("This passkey is already registered");
+    }
+    const user = req.user!;
+    const passkey = await storage.createPasskey({
+      id: registered.id,
+      userId: user.id,
+      name: result.data.name,
+      publicKey: Buffer.from(registered.publicKey).toString("base64url"),
+      counter: registered.counter,
+      transports: registered.transports ?? null,
+    });
+    await recordAuthEvent(req, "passkey_added", user.username, user.id);
+    res.status(201).json(summary(passkey));
+  });
+
+  app.patch("/api/passkeys/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = namePasskeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+    const passkey = await storage.getPasskey(req.params.id);
+    if (!passkey || passkey.userId !== req.user!.id) return res.sendStatus(404);
+    const updated = await storage.updatePasskey(passkey.id, { name: result.data.name });
+    res.json(summary(updated!));
+  });
+
+  app.delete("/api/passkeys/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const user = req.user!;
+    const passkey = await storage.getPasskey(req.params.id);
+    if (!passkey || passkey.userId !== user.id) return res.sendStatus(404);
+    await storage.deletePasskey(passkey.id);
+    await recordAuthEvent(req, "passkey_removed", user.username, user.id);
+    res.sendStatus(204);
+  });
+
+  // Any passkey for this site will do; the authenticator says whose it is
+  app.post("/api/passkeys/login/options", async (req, res) => {
+    const options = await generateAuthenticationOptions({
+      rpID: relyingParty(req).rpID,
+      userVerification: "required",
+    });
+    req.session.passkeyChallenge = {
+      challenge: options.challenge,
+      purpose: "login",
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    };
+    res.json(options);
+  });
+
+  // A passkey proves possession and, with user verification required, a
+  // local PIN or biometric, so it stands in for both the password and the
+  // TOTP step
+  app.post("/api/passkeys/login", async (req, res, next) => {
+    const result = passkeyLoginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+    const response = result.data.response as unknown as AuthenticationResponseJSON;
+    const expectedChallenge = takeChallenge(req, "login");
+    if (!expectedChallenge) return res.status(400).send("Sign-in expired; try again");
+
+    try {
+      const passkey = typeof response.id === "string" && (await storage.getPasskey(response.id));
+      const user = passkey && (await storage.getUser(passkey.userId));
+      if (!passkey || !user) return res.status(401).send("Unknown passkey");
+
+      const { refusal, attempt } = await startLoginAttempt(req, user.username, user.id);
+      if (refusal) {
+        res.set("Retry-After", Math.ceil(refusal.retryAfterMs / 1000).toString());
+        return res.status(429).send(refusal.message);
+      }
+
+      const { rpID, origin } = relyingParty(req);
+      let verification;
+      try {
+        verification = await verifyAuthenticationResponse({
+          response,
+          expectedChallenge,
+          expectedOrigin: origin,
+          expectedRPID: rpID,
+          credential: credential(passkey),
+          requireUserVerification: true,
+        });
+      } catch {
+        verification = { verified: false } as const;
+      }
+      if (!verification.verified) {
+        await attempt.failed();
+        return res.status(401).send("Passkey could not be verified");
+      }
+      await attempt.succeeded();
+      if (!user.isVerified) return res.status(403).send("Account not verified");
+
+      await storage.updatePasskey(passkey.id, {
+        counter: verification.authenticationInfo.newCounter,
+        lastUsedAt: new Date(),
+      });
+      completeLogin(req, res, next, user);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
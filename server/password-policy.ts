@@ -0,0 +1,33 @@
+import type { PasswordPolicy } from "@shared/schema";
+import { estimateEntropyBits } from "@shared/password-strength";
+import { isBreachedPassword } from "./breached-passwords";
+
+// PASSWORD_MIN_LENGTH and PASSWORD_MIN_ENTROPY_BITS tune the rules; the
+// client fetches them for its strength meter
+export const passwordPolicy: PasswordPolicy = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH ?? 10),
+  minEntropyBits: Number(process.env.PASSWORD_MIN_ENTROPY_BITS ?? 40),
+};
+
+// Why a new password is refused, or null when it will do
+export async function checkPassword(
+  password: string,
+  account: { username: string },
+): Promise<string | null> {
+  if (Array.from(password).length < passwordPolicy.minLength) {
+    return `Password must be at least ${passwordPolicy.minLength} characters`;
+  }
+  if (
+    account.username.length >= 3 &&
+    password.toLowerCase().includes(account.username.toLowerCase())
+  ) {
+    return "Password must not contain your username";
+  }
+  if (estimateEntropyBits(password) < passwordPolicy.minEntropyBits) {
+    return "Password is too easy to guess; try a longer mix of words, numbers and symbols";
+  }
+  if (await isBreachedPassword(password)) {
+    return "This password has appeared in a data breach; choose another";
+  }
+  return null;
+}
@@ -0,0 +1,139 @@
+import "./test-env";
+import { createHash } from "crypto";
+import { after, afterEach, before, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { User } from "@shared/schema";
+import { delivery, type OutgoingMessage } from "./delivery";
+import { storage } from "./storage";
+import {
+  PASSWORD,
+  TestAgent,
+  createUser,
+  signIn,
+  startServer,
+  stopServer,
+} from "./test-helpers";
+
+const NEW_PASSWORD = "violet-Harbor-92-lantern";
+
+let server: Server;
+let sent: OutgoingMessage[];
+
+before(async () => {
+  server = await startServer();
+});
+
+after(() => stopServer(server));
+
+beforeEach(() => {
+  sent = [];
+  mock.method(delivery, "send", async (message: OutgoingMessage) => {
+    sent.push(message);
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  mock.timers.reset();
+});
+
+// Asks for a reset and returns the code from the email, which is sent after
+// the response
+async function requestReset(user: User) {
+  const res = await new TestAgent(server).post("/api/password/forgot", {
+    username: user.username,
+  });
+  assert.equal(res.status, 202);
+  for (let waited = 0; sent.length === 0; waited += 10) {
+    if (waited > 2000) throw new Error("No reset email");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  const email = sent.shift()!;
+  assert.equal(email.to, user.username);
+  return email.text.match(/reset code: (\S+)/)![1];
+}
+
+function reset(token: string, password = NEW_PASSWORD) {
+  return new TestAgent(server).post("/api/password/reset", { token, password });
+}
+
+test("a reset code sets a new password once and signs everyone out", async () => {
+  const user = await createUser("forgetful");
+  const signedIn = await signIn(server, user);
+  const token = await requestReset(user);
+
+  // A refused password leaves the code usable
+  assert.equal((await reset(token, "short")).status, 400);
+  assert.equal((await reset(token)).status, 204);
+
+  assert.equal((await signedIn.get("/api/user")).status, 401);
+  const login = await new TestAgent(server).post("/api/login", {
+    username: user.username,
+    password: NEW_PASSWORD,
+  });
+  assert.equal(login.status, 200);
+
+  const again = await reset(token, "another-Harbor-93-lantern");
+  assert.equal(again.status, 400);
+  assert.equal(again.text, "Invalid or expired reset code");
+});
+
+test("only a hash of the reset code is stored", async () => {
+  const user = await createUser("hashed");
+  const token = await requestReset(user);
+
+  assert.equal(await storage.findPasswordResetToken(token), undefined);
+  const tokenHash = createHash("sha256").update(token).digest("hex");
+  assert.equal(await storage.findPasswordResetToken(tokenHash), user.id);
+  assert.equal((await reset(tokenHash)).status, 400);
+});
+
+test("a reset code expires after 30 minutes", async () => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const user = await createUser("late");
+  const token = await requestReset(user);
+
+  mock.timers.tick(30 * 60 * 1000 + 1);
+  assert.equal((await reset(token)).status, 400);
+  const login = await new TestAgent(server).post("/api/login", {
+    username: user.username,
+    password: PASSWORD,
+  });
+  assert.equal(login.status, 200);
+});
+
+test("a newer reset code replaces the older one", async () => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const user = await createUser("twice");
+  const first = await requestReset(user);
+
+  // Resends for one username are held back for a minute
+  await new TestAgent(server).post("/api/password/forgot", { username: user.username });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(sent.length, 0);
+
+  mock.timers.tick(60 * 1000);
+  const second = await requestReset(user);
+  assert.equal((await reset(first)).status, 400);
+  assert.equal((await reset(second)).status, 204);
+});
+
+test("guessing the current password is throttled like a login", async () => {
+  const user = await createUser("guesser");
+  const agent = await signIn(server, user);
+  const change = (currentPassword: string) =>
+    agent.post("/api/password/change", { currentPassword, newPassword: NEW_PASSWORD });
+
+  for (let i = 0; i < 3; i++) {
+    const res = await change("wrong guess");
+    assert.equal(res.status, 400);
+    assert.equal(res.text, "Incorrect password");
+  }
+  const refused = await change(PASSWORD);
+  assert.equal(refused.status, 429);
+  assert.equal(refused.text, "Too many failed attempts. Try again in 1 second.");
+
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+  assert.equal((await change(PASSWORD)).status, 204);
+});
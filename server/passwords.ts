@@ -0,0 +1,152 @@
+import type { Express } from "express";
+import { createHash, randomBytes } from "crypto";
+import { fromZodError } from "zod-validation-error";
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  type User,
+} from "@shared/schema";
+import { comparePasswords, hashPassword } from "./auth";
+import { BREACH_PREFIX_LENGTH, breachList } from "./breached-passwords";
+import { delivery } from "./delivery";
+import { recordAuthEvent, startLoginAttempt } from "./login-throttle";
+import { checkPassword, passwordPolicy } from "./password-policy";
+import { endSessions } from "./sessions";
+import { storage } from "./storage";
+import type { Realtime } from "./websocket";
+
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+// How often one username may be sent a reset token
+const RESET_COOLDOWN_MS = 60 * 1000;
+
+// Last time a reset was requested per username
+const resetRequestedAt = new Map<string, number>();
+
+// Tokens carry 256 random bits, so a plain hash keeps a leaked table useless
+function hashResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// APP_URL, e.g. "https://chat.example.com", adds a link to the email. It is
+// never taken from the request: a forged Host header would point the link,
+// token and all, at someone else's site.
+function resetLink(token: string) {
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, "");
+  return appUrl ? `${appUrl}/auth?reset=${token}` : undefined;
+}
+
+async function sendResetToken(user: User) {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createPasswordResetToken(
+    user.id,
+    hashResetToken(token),
+    new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  );
+  const link = resetLink(token);
+  await delivery.send({
+    to: user.email ?? user.username,
+    subject: "Reset your Safe-massage password",
+    text: [
+      `Someone asked to reset the password for ${user.username}.`,
+      link ? `Open this link to choose a new one: ${link}` : undefined,
+      `${link ? "Or enter" : "Enter"} this reset code: ${token}`,
+      "It works once, within 30 minutes. If you didn't ask, ignore this email.",
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  });
+}
+
+export function setupPasswords(app: Express, realtime: Realtime) {
+  app.get("/api/password/policy", (_req, res) => {
+    res.json(passwordPolicy);
+  });
+
+  // One range of the breached-password list, for the strength meter. The
+  // browser hashes the password and sends only the first few hex digits, so
+  // the password never leaves it.
+  app.get("/api/password/breached/:prefix", async (req, res) => {
+    const pattern = new RegExp(`^[0-9A-Fa-f]{${BREACH_PREFIX_LENGTH}}$`);
+    if (!pattern.test(req.params.prefix)) return res.sendStatus(400);
+    res.set("Cache-Control", "public, max-age=86400");
+    res.json(await breachList.range(req.params.prefix));
+  });
+
+  // Answers the same whether or not the account exists, and before anything
+  // is sent, so it can't be used to find accounts
+  app.post("/api/password/forgot", async (req, res) => {
+    const result = forgotPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const { username } = result.data;
+    if (Date.now() - (resetRequestedAt.get(username) ?? 0) >= RESET_COOLDOWN_MS) {
+      resetRequestedAt.set(username, Date.now());
+      const user = await storage.getUserByUsername(username);
+      if (user) {
+        sendResetToken(user)
+          .then(() => recordAuthEvent(req, "password_reset_requested", user.username, user.id))
+          .catch(console.error);
+      }
+    }
+    res.sendStatus(202);
+  });
+
+  // Doesn't sign in: accounts with two-factor sign-in still need their
+  // second factor, so everyone goes through the login form afterwards
+  app.post("/api/password/reset", async (req, res) => {
+    const result = resetPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const tokenHash = hashResetToken(result.data.token);
+    const userId = await storage.findPasswordResetToken(tokenHash);
+    const user = userId === undefined ? undefined : await storage.getUser(userId);
+    if (!user) return res.status(400).send("Invalid or expired reset code");
+    // Checked before spending the token, so a refused password can be retried
+    const weakness = await checkPassword(result.data.password, user);
+    if (weakness) return res.status(400).send(weakness);
+    if ((await storage.usePasswordResetToken(tokenHash)) !== user.id) {
+      return res.status(400).send("Invalid or expired reset code");
+    }
+
+    await storage.updateUserPassword(user.id, await hashPassword(result.data.password));
+    // Whoever knew the old password is signed out, this browser included
+    await endSessions(realtime, user.id);
+    await recordAuthEvent(req, "password_reset", user.username, user.id);
+    res.sendStatus(204);
+  });
+
+  app.post("/api/password/change", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = changePasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    // Guessing the current password from a borrowed session counts against
+    // the account like guessing it at login
+    const user = req.user!;
+    const { refusal, attempt } = await startLoginAttempt(req, user.username, user.id);
+    if (refusal) {
+      res.set("Retry-After", Math.ceil(refusal.retryAfterMs / 1000).toString());
+      return res.status(429).send(refusal.message);
+    }
+    if (!(await comparePasswords(result.data.currentPassword, user.password))) {
+      await attempt.failed();
+      return res.status(400).send("Incorrect password");
+    }
+    await attempt.succeeded();
+
+    const weakness = await checkPassword(result.data.newPassword, user);
+    if (weakness) return res.status(400).send(weakness);
+
+    await storage.updateUserPassword(user.id, await hashPassword(result.data.newPassword));
+    await endSessions(realtime, user.id, req.sessionID);
+    await recordAuthEvent(req, "password_changed", user.username, user.id);
+    res.sendStatus(204);
+  });
+}
@@ -1,217 +1,666 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertMessageSchema } from "@shared/schema";
-import cookie from "cookie";
+import { blockedIds, setupBlocks, toPublicUser, withoutBlockers } from "./blocks";
+import { setupModeration } from "./moderation";
+import { setupPasskeys } from "./passkeys";
+import { setupPasswords } from "./passwords";
+import { setupSessions } from "./sessions";
+import { MESSAGE_EDIT_WINDOW_MS, setupWebSocket } from "./websocket";
+import { checkEnvelope } from "./encryption";
+import { blobStore } from "./blob-store";
+import { quarantineAndScan, receiveAttachment } from "./attachments";
+import {
+  detectImageType,
+  discardImages,
+  imageUrl,
+  processImage,
+  receiveImage,
+  saveImage,
+  thumbnailKey,
+} from "./images";
+import { directKey, storage } from "./storage";
+import { idParam } from "./params";
+import { fromZodError } from "zod-validation-error";
+import {
+  createConversationSchema,
+  createSenderKeySchema,
+  editMessageSchema,
+  setDisappearingTimerSchema,
+  messagePageQuerySchema,
+  registerDeviceKeySchema,
+  registerIdentityKeySchema,
+  signDeviceKeySchema,
+  type Attachment,
+  type KeyBundle,
+  type Conversation,
+  type ConversationSummary,
+  type Message,
+  type MessagePage,
+  type MessageReceipt,
+  type MessageWithReceipts,
+} from "@shared/schema";
 
-type WebSocketClient = WebSocket & {
-  userId?: number;
-  isAlive?: boolean;
-};
+// Message previews are only included for conversations the caller is in.
+// Members who blocked the caller show no presence, and previews skip
+// messages from people the caller blocked.
+async function summarize(
+  conversations: Conversation[],
+  userId: number,
+  includeLastMessage: boolean,
+): Promise<ConversationSummary[]> {
+  const lastMessages = includeLastMessage
+    ? await storage.getLastMessages(
+        conversations.map((c) => c.id),
+        await blockedIds(userId),
+      )
+    : [];
+  const hiddenFrom = new Set(await storage.getBlockerIds(userId));
+  const summaries = await Promise.all(
+    conversations.map(async (conversation) => ({
+      ...conversation,
+      members: (await storage.getConversationMembers(conversation.id)).map((member) =>
+        toPublicUser(member, hiddenFrom.has(member.id)),
+      ),
+      lastMessage:
+        lastMessages.find((message) => message.conversationId === conversation.id) ?? null,
+    })),
+  );
+  // Most recently active first
+  const activity = (summary: ConversationSummary) =>
+    new Date(summary.lastMessage?.createdAt ?? summary.createdAt).getTime();
+  return summaries.sort((a, b) => activity(b) - activity(a));
+}
 
-export function registerRoutes(app: Express): Server {
-  setupAuth(app);
+// Resolves `:id` to a conversation, answering 400 for a malformed id, 404
+// when it does not exist and 403 when the caller must be a member but is not
+async function findConversation(
+  req: Request,
+  res: Response,
+  { requireMember }: { requireMember: boolean },
+): Promise<Conversation | undefined> {
+  const id = idParam(req, res);
+  if (id === undefined) return;
+  const conversation = await storage.getConversation(id);
+  if (!conversation) {
+    res.sendStatus(404);
+    return;
+  }
+  if (requireMember && !(await storage.isConversationMember(conversation.id, req.user!.id))) {
+    res.sendStatus(403);
+    return;
+  }
+  return conversation;
+}
 
+// Resolves `:id` to a message the caller sent and may still change:
+// 404 when it is missing or already deleted, 403 when someone else sent it
+// or the edit window has passed
+async function findEditableMessage(req: Request, res: Response): Promise<Message | undefined> {
+  const id = idParam(req, res);
+  if (id === undefined) return;
+  const message = await storage.getMessage(id);
+  if (!message || message.deletedAt) {
+    res.sendStatus(404);
+    return;
+  }
+  if (message.senderId !== req.user!.id) {
+    res.status(403).send("Only the author can change a message");
+    return;
+  }
+  if (Date.now() - new Date(message.createdAt!).getTime() > MESSAGE_EDIT_WINDOW_MS) {
+    res.status(403).send("This message can no longer be changed");
+    return;
+  }
+  return message;
+}
+
+// Senders see every recipient's receipts; recipients only see their own
+function withReceipts(
+  messages: Message[],
+  receipts: MessageReceipt[],
+  attachments: Attachment[],
+  userId: number,
+): MessageWithReceipts[] {
+  return messages.map((message) => ({
+    ...message,
+    receipts: receipts.filter(
+      (receipt) =>
+        receipt.messageId === message.id &&
+        (message.senderId === userId || receipt.userId === userId),
+    ),
+    attachments: attachments.filter((attachment) => attachment.messageId === message.id),
+  }));
+}
+
+export function registerRoutes(app: Express): Server {
   const httpServer = createServer(app);
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+  const realtime = setupWebSocket(httpServer);
+  setupAuth(app, realtime);
+  setupPasskeys(app);
+  setupSessions(app, realtime);
+  setupPasswords(app, realtime);
+  setupBlocks(app, realtime);
+  setupModeration(app, realtime);
 
-  app.get("/api/messages", async (req, res) => {
+  // Public key directory: only public halves are ever uploaded, so any
+  // signed-in user may look up anyone's keys. Signatures are checked by
+  // clients, which don't trust the server with them anyway.
+  app.put("/api/keys/identity", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const messages = await storage.getMessages();
-    res.json(messages);
+    const result = registerIdentityKeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+    res.json(await storage.setIdentityKey(req.user!.id, result.data.publicKey));
   });
 
-  app.get("/api/users/online", async (req, res) => {
+  app.put("/api/keys/devices/:deviceId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const { deviceId } = req.params;
+    if (deviceId.length > 64) {
+      return res.status(400).send("Device id is too long");
+    }
+    const result = registerDeviceKeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const deviceKey = await storage.setDeviceKey(
+      req.user!.id,
+      deviceId,
+      result.data.publicKey,
+      result.data.signature,
+    );
+    res.json(deviceKey);
+  });
+
+  // Links another of the caller's devices by signing its key
+  app.put("/api/keys/devices/:deviceId/signature", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const users = await storage.getOnlineUsers();
-    res.json(users);
+    const result = signDeviceKeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const deviceKey = await storage.signDeviceKey(
+      req.user!.id,
+      req.params.deviceId,
+      result.data.signature,
+    );
+    if (!deviceKey) return res.sendStatus(404);
+    res.json(deviceKey);
   });
 
-  // Map to store user sessions and their WebSocket connections
-  const sessions = new Map<string, number>();
-  const connections = new Map<number, WebSocketClient>();
+  app.get("/api/users/:id/keys", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const id = idParam(req, res);
+    if (id === undefined) return;
+    const user = await storage.getUser(id);
+    if (!user) return res.sendStatus(404);
+
+    const bundle: KeyBundle = {
+      identityKey: (await storage.getIdentityKey(user.id)) ?? null,
+      devices: await storage.getDeviceKeys(user.id),
+    };
+    res.json(bundle);
+  });
+
+  app.get("/api/conversations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversations = await storage.getUserConversations(req.user!.id);
+    res.json(await summarize(conversations, req.user!.id, true));
+  });
+
+  app.get("/api/conversations/joinable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversations = await storage.getJoinableConversations(req.user!.id);
+    res.json(await summarize(conversations, req.user!.id, false));
+  });
+
+  app.post("/api/conversations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const result = createConversationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
 
-  // Heartbeat to keep track of connected clients
-  const interval = setInterval(() => {
-    wss.clients.forEach((ws: WebSocketClient) => {
-      if (ws.isAlive === false) {
-        handleDisconnection(ws);
-        return ws.terminate();
+    const userId = req.user!.id;
+    const input = result.data;
+    const memberIds =
+      input.type === "direct" ? [userId, input.userId] : [userId, ...input.memberIds];
+    for (const memberId of memberIds) {
+      if (!(await storage.getUser(memberId))) {
+        return res.status(400).send(`Unknown user ${memberId}`);
       }
+    }
 
-      ws.isAlive = false;
-      ws.ping();
-    });
-  }, 30000);
+    if (input.type === "direct") {
+      const existing = await storage.getDirectConversation(userId, input.userId);
+      if (existing) {
+        const [summary] = await summarize([existing], userId, true);
+        return res.json(summary);
+      }
+    }
+
+    const conversation = await storage.createConversation(
+      {
+        type: input.type,
+        name: input.type === "group" ? input.name : null,
+        directKey: input.type === "direct" ? directKey(userId, input.userId) : null,
+        createdBy: userId,
+      },
+      memberIds,
+    );
 
-  wss.on("close", () => {
-    clearInterval(interval);
+    // Everyone added, creator included, gets it in their sidebar right away
+    for (const memberId of Array.from(new Set(memberIds))) {
+      await realtime.publish([memberId], {
+        type: "membership",
+        conversationId: conversation.id,
+        userId: memberId,
+        action: "joined",
+      });
+    }
+
+    const [summary] = await summarize([conversation], userId, true);
+    res.status(201).json(summary);
   });
 
-  function handleDisconnection(ws: WebSocketClient) {
-    if (ws.userId) {
-      storage.setUserOnlineStatus(ws.userId, false).catch(console.error);
-      broadcastUserStatus(ws.userId, false);
-      connections.delete(ws.userId);
+  app.post("/api/conversations/:id/join", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: false });
+    if (!conversation) return;
+    if (conversation.type !== "group") {
+      return res.status(400).send("Only group conversations can be joined");
     }
-    const wsKey = ws.toString();
-    if (sessions.has(wsKey)) {
-      sessions.delete(wsKey);
+
+    const userId = req.user!.id;
+    if (await storage.isBannedFromConversation(conversation.id, userId)) {
+      return res.status(403).send("You were removed from this group");
+    }
+    if (await storage.addConversationMember(conversation.id, userId)) {
+      const members = await storage.getConversationMembers(conversation.id);
+      await realtime.publish(
+        members.map((member) => member.id),
+        { type: "membership", conversationId: conversation.id, userId, action: "joined" },
+      );
     }
-  }
 
-  wss.on("connection", async (ws: WebSocketClient, req) => {
-    console.log("New WebSocket connection attempt");
-    ws.isAlive = true;
-    ws.on("pong", () => {
-      ws.isAlive = true;
-    });
+    // Joining moved the membership epoch on
+    const joined = await storage.getConversation(conversation.id);
+    const [summary] = await summarize([joined!], userId, true);
+    res.json(summary);
+  });
 
-    const cookieHeader = req.headers.cookie;
-    if (!cookieHeader) {
-      console.log("No cookie header found");
-      ws.close(1008, "No session cookie found");
-      return;
+  app.post("/api/conversations/:id/leave", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+    if (conversation.type !== "group") {
+      return res.status(400).send("Direct conversations cannot be left");
     }
 
-    const cookies = cookie.parse(cookieHeader);
-    const sessionId = cookies["connect.sid"];
+    const userId = req.user!.id;
+    const members = await storage.getConversationMembers(conversation.id);
+    if (await storage.removeConversationMember(conversation.id, userId)) {
+      // The leaving user is told too, so their other devices drop it
+      await realtime.publish(
+        members.map((member) => member.id),
+        { type: "membership", conversationId: conversation.id, userId, action: "left" },
+      );
+    }
+    res.sendStatus(204);
+  });
 
-    if (!sessionId) {
-      console.log("No session ID found in cookies");
-      ws.close(1008, "No session ID found");
-      return;
+  // The group's creator can remove other members, who can't join again.
+  // Their epoch bump means every remaining sender rotates keys before
+  // writing again.
+  app.delete("/api/conversations/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+    if (conversation.type !== "group") {
+      return res.status(400).send("Members cannot be removed from direct conversations");
+    }
+    if (conversation.createdBy !== req.user!.id) {
+      return res.status(403).send("Only the group's creator can remove members");
     }
 
-    // Get the session from storage
-    const session = await new Promise((resolve) => {
-      storage.sessionStore.get(sessionId.substring(2), (err, session) => {
-        if (err || !session) {
-          console.log("Session retrieval error:", err);
-          resolve(null);
-        } else {
-          resolve(session);
-        }
-      });
-    });
+    const userId = idParam(req, res, "userId");
+    if (userId === undefined) return;
+    if (userId === req.user!.id) {
+      return res.status(400).send("Leave the group instead");
+    }
+    const members = await storage.getConversationMembers(conversation.id);
+    if (!(await storage.banConversationMember(conversation.id, userId, req.user!.id))) {
+      return res.sendStatus(404);
+    }
+    await realtime.publish(
+      members.map((member) => member.id),
+      { type: "membership", conversationId: conversation.id, userId, action: "removed" },
+    );
+    res.sendStatus(204);
+  });
+
+  app.get("/api/conversations/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+    const [summary] = await summarize([conversation], req.user!.id, true);
+    res.json(summary);
+  });
+
+  // Applies to messages sent from now on; earlier ones keep their expiry
+  app.put("/api/conversations/:id/disappearing", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
 
-    if (!session || !session.passport || !session.passport.user) {
-      console.log("Invalid session:", session);
-      ws.close(1008, "Invalid session");
-      return;
+    const result = setDisappearingTimerSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
     }
 
-    const userId = session.passport.user;
-    console.log("WebSocket authenticated for user:", userId);
-    ws.userId = userId;
-    sessions.set(ws.toString(), userId);
-    connections.set(userId, ws);
+    const { seconds } = result.data;
+    const changed = conversation.disappearAfter !== seconds;
+    const updated = await storage.setDisappearingTimer(conversation.id, seconds);
+    if (changed) {
+      const members = await storage.getConversationMembers(conversation.id);
+      await realtime.publish(
+        members.map((member) => member.id),
+        {
+          type: "disappearingTimer",
+          conversationId: conversation.id,
+          userId: req.user!.id,
+          seconds,
+        },
+      );
+    }
 
-    // Set user as online
-    await storage.setUserOnlineStatus(userId, true);
-    broadcastUserStatus(userId, true);
+    const [summary] = await summarize([updated!], req.user!.id, true);
+    res.json(summary);
+  });
 
-    ws.on("message", async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-
-        switch (message.type) {
-          case 'message':
-            // Handle chat message
-            const validatedMessage = insertMessageSchema.parse(message);
-            const savedMessage = await storage.createMessage(validatedMessage);
-
-            // Send delivery confirmation to sender
-            const senderWs = connections.get(validatedMessage.senderId!);
-            if (senderWs?.readyState === WebSocket.OPEN) {
-              senderWs.send(JSON.stringify({
-                type: 'messageStatus',
-                messageId: message.id,
-                status: 'delivered'
-              }));
-            }
-
-            if (validatedMessage.receiverId) {
-              // Private message
-              const receiverWs = connections.get(validatedMessage.receiverId);
-
-              if (receiverWs?.readyState === WebSocket.OPEN) {
-                receiverWs.send(JSON.stringify(savedMessage));
-                // Send read receipt
-                senderWs?.send(JSON.stringify({
-                  type: 'messageStatus',
-                  messageId: message.id,
-                  status: 'read'
-                }));
-              }
-            } else {
-              // Broadcast to all connected clients
-              wss.clients.forEach((client) => {
-                if (client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify(savedMessage));
-                }
-              });
-            }
-            break;
-
-          case 'typing':
-            // Broadcast typing status
-            if (message.receiverId) {
-              const receiverWs = connections.get(message.receiverId);
-              if (receiverWs?.readyState === WebSocket.OPEN) {
-                receiverWs.send(JSON.stringify({
-                  type: 'typing',
-                  userId: ws.userId,
-                  isTyping: message.isTyping
-                }));
-              }
-            } else {
-              // Broadcast typing status to all
-              wss.clients.forEach((client) => {
-                if (client !== ws && client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify({
-                    type: 'typing',
-                    userId: ws.userId,
-                    isTyping: message.isTyping
-                  }));
-                }
-              });
-            }
-            break;
-        }
-      } catch (error) {
-        console.error("Error processing message:", error);
-        ws.send(JSON.stringify({ 
-          type: 'error',
-          message: "Failed to process message" 
-        }));
-      }
-    });
+  // Sender keys are only accepted for the current membership epoch and only
+  // wrapped for current members, so whoever left can't read what follows.
+  app.post("/api/conversations/:id/sender-keys", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+    if (conversation.type !== "group") {
+      return res.status(400).send("Sender keys are only used in group conversations");
+    }
 
-    ws.on("close", () => {
-      handleDisconnection(ws);
-    });
+    const result = createSenderKeySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
 
-    ws.on("error", () => {
-      handleDisconnection(ws);
-    });
+    const userId = req.user!.id;
+    const { keyId, deviceId, epoch, distributions } = result.data;
+    if (epoch !== conversation.epoch) {
+      return res.status(409).send("Membership has changed; fetch the conversation again");
+    }
+    const devices = await storage.getDeviceKeys(userId);
+    if (!devices.some((device) => device.deviceId === deviceId)) {
+      return res.status(400).send("Unknown device");
+    }
+    const memberIds = new Set(
+      (await storage.getConversationMembers(conversation.id)).map((member) => member.id),
+    );
+    if (distributions.some((distribution) => !memberIds.has(distribution.userId))) {
+      return res.status(409).send("Sender keys can only be shared with members");
+    }
+    if (await storage.getSenderKey(keyId)) {
+      return res.status(409).send("Sender key already exists");
+    }
+
+    const senderKey = await storage.createSenderKey(
+      { keyId, conversationId: conversation.id, userId, deviceId, epoch },
+      distributions,
+    );
+    res.status(201).json(senderKey);
+  });
+
+  app.get("/api/conversations/:id/sender-keys/:keyId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+
+    const deviceId = req.query.deviceId;
+    if (typeof deviceId !== "string") {
+      return res.status(400).send("deviceId is required");
+    }
+    const senderKey = await storage.getSenderKeyForDevice(
+      req.params.keyId,
+      req.user!.id,
+      deviceId,
+    );
+    if (!senderKey || senderKey.conversationId !== conversation.id) {
+      return res.sendStatus(404);
+    }
+    res.json(senderKey);
   });
 
-  function broadcastUserStatus(userId: number, isOnline: boolean) {
-    const statusUpdate = {
-      type: "userStatus",
-      userId,
-      isOnline,
+  app.get("/api/conversations/:id/messages", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = messagePageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).send(fromZodError(query.error).message);
+    }
+
+    const conversation = await findConversation(req, res, { requireMember: true });
+    if (!conversation) return;
+
+    const { limit } = query.data;
+    // One extra row tells us whether an older page exists. Messages from
+    // people the caller blocked stay hidden.
+    const page = await storage.getConversationMessages(
+      conversation.id,
+      { ...query.data, limit: limit + 1 },
+      await blockedIds(req.user!.id),
+    );
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit).reverse();
+    const ids = messages.map((m) => m.id);
+    const receipts = await storage.getReceipts(ids);
+    const attachments = await storage.getMessageAttachments(ids);
+
+    const body: MessagePage = {
+      messages: withReceipts(messages, receipts, attachments, req.user!.id),
+      nextCursor: hasMore ? messages[0].id : null,
     };
+    res.json(body);
+  });
+
+  // The new version is sealed by the client like any message, so the same
+  // envelope checks apply
+  app.patch("/api/messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const result = editMessageSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(fromZodError(result.error).message);
+    }
+
+    const message = await findEditableMessage(req, res);
+    if (!message) return;
+    const userId = req.user!.id;
+    const members = await storage.getConversationMembers(message.conversationId);
+    if (!members.some((member) => member.id === userId)) {
+      return res.status(403).send("Not a member of this conversation");
+    }
+
+    const { envelope } = result.data;
+    const devices = await storage.getDeviceKeys(userId);
+    const device = devices.find((key) => key.deviceId === envelope.senderDeviceId);
+    const conversation = (await storage.getConversation(message.conversationId))!;
+    const problem = await checkEnvelope(
+      conversation,
+      members,
+      { userId, deviceId: device?.deviceId },
+      envelope,
+    );
+    if (problem) {
+      return res.status(problem.code === "STALE_SENDER_KEY" ? 409 : 400).send(problem.message);
+    }
+
+    const edited = await storage.editMessage(message.id, result.data);
+    await realtime.publish(
+      await withoutBlockers(members.map((member) => member.id), userId),
+      { type: "messageEdited", message: edited! },
+    );
+    res.json(edited);
+  });
 
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(statusUpdate));
+  app.delete("/api/messages/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const message = await findEditableMessage(req, res);
+    if (!message) return;
+
+    const tombstone = await storage.deleteMessage(message.id);
+    await discardImages([message]);
+    const members = await storage.getConversationMembers(message.conversationId);
+    await realtime.publish(
+      await withoutBlockers(members.map((member) => member.id), message.senderId!),
+      { type: "messageDeleted", message: tombstone! },
+    );
+    res.sendStatus(204);
+  });
+
+  // Membership is checked before the body is read, so outsiders can't make
+  // the server buffer uploads. The returned URL goes into a message.
+  app.post(
+    "/api/conversations/:id/images",
+    async (req, res, next) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      if (await findConversation(req, res, { requireMember: true })) next();
+    },
+    receiveImage,
+    async (req, res) => {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).send("Attach a JPEG, PNG, WebP or GIF image as `image`");
+      }
+      const type = detectImageType(file.buffer);
+      if (!type) {
+        return res.status(415).send("File is not a supported image");
+      }
+
+      let processed;
+      try {
+        processed = await processImage(file.buffer, type);
+      } catch (error) {
+        return res.status(400).send("Image could not be processed");
       }
+
+      const image = await saveImage(Number(req.params.id), req.user!.id, type, processed);
+      res.status(201).json({ ...image, url: imageUrl(image.id) });
+    },
+  );
+
+  // Images are served only to members of the conversation they were sent in
+  for (const variant of ["original", "thumbnail"] as const) {
+    const path = variant === "original" ? "/api/images/:id" : "/api/images/:id/thumbnail";
+    app.get(path, async (req, res) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      const image = await storage.getImage(req.params.id);
+      if (!image) return res.sendStatus(404);
+      if (!(await storage.isConversationMember(image.conversationId, req.user!.id))) {
+        return res.sendStatus(403);
+      }
+
+      const data = await blobStore.get(
+        variant === "original" ? image.id : thumbnailKey(image.id),
+      );
+      if (!data) return res.sendStatus(404);
+      res
+        .type(variant === "original" ? image.contentType : "image/webp")
+        .set({
+          "Cache-Control": "private, max-age=31536000, immutable",
+          "Content-Disposition": "inline",
+          "X-Content-Type-Options": "nosniff",
+        })
+        .send(data);
     });
   }
 
+  // Files are scanned before this answers; only clean ones come back as 201
+  // and can be sent
+  app.post(
+    "/api/conversations/:id/attachments",
+    async (req, res, next) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      if (await findConversation(req, res, { requireMember: true })) next();
+    },
+    receiveAttachment,
+    async (req, res) => {
+      if (!req.file) return res.status(400).send("Attach a file as `file`");
+
+      let attachment;
+      try {
+        attachment = await quarantineAndScan(Number(req.params.id), req.user!.id, req.file);
+      } catch (error) {
+        console.error("Virus scan failed:", error);
+        return res.status(503).send("File could not be scanned; try again later");
+      }
+      if (attachment.status !== "clean") {
+        return res.status(422).send("File was rejected by the virus scanner");
+      }
+      res.status(201).json(attachment);
+    },
+  );
+
+  // Members may download files sent in the conversation; unsent uploads are
+  // visible to their uploader alone
+  app.get("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const [attachment] = await storage.getAttachments([req.params.id]);
+    if (!attachment || attachment.status !== "clean") return res.sendStatus(404);
+    if (!(await storage.isConversationMember(attachment.conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+    if (attachment.messageId === null && attachment.uploaderId !== req.user!.id) {
+      return res.sendStatus(404);
+    }
+
+    const data = await blobStore.get(attachment.id);
+    if (!data) return res.sendStatus(404);
+    res
+      .type(attachment.contentType)
+      .attachment(attachment.name)
+      .set({
+        "Cache-Control": "private, no-cache",
+        "X-Content-Type-Options": "nosniff",
+      })
+      .send(data);
+  });
+
+  // Earlier versions, oldest first, still sealed as they were sent
+  app.get("/api/messages/:id/edits", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const id = idParam(req, res);
+    if (id === undefined) return;
+    const message = await storage.getMessage(id);
+    if (!message) return res.sendStatus(404);
+    if (!(await storage.isConversationMember(message.conversationId, req.user!.id))) {
+      return res.sendStatus(403);
+    }
+    res.json(await storage.getMessageEdits(message.id));
+  });
+
+  app.get("/api/users/online", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    // Whoever blocked the caller appears offline to them
+    const hiddenFrom = new Set(await storage.getBlockerIds(req.user!.id));
+    const users = await storage.getUsers(
+      realtime.onlineUserIds().filter((id) => !hiddenFrom.has(id)),
+    );
+    res.json(users.map((user) => ({ ...toPublicUser(user), isOnline: true })));
+  });
+
   return httpServer;
-}
\ No newline at end of file
+}
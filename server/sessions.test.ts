@@ -0,0 +1,101 @@
+import "./test-env";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { storage } from "./storage";
+import { PASSWORD, createUser, signIn, startServer, stopServer } from "./test-helpers";
+
+const NEW_PASSWORD = "violet-Harbor-92-lantern";
+
+let server: Server;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(() => stopServer(server));
+
+test("changing the password ends the other sessions, tracked or not", async () => {
+  const user = await createUser("changer");
+  const current = await signIn(server, user);
+  const tracked = await signIn(server, user);
+  const untracked = await signIn(server, user);
+  // As if its tracking write had failed, or it predated tracking
+  await storage.deleteUserSessions([untracked.sessionId]);
+  const socket = await untracked.connect();
+
+  const res = await current.post("/api/password/change", {
+    currentPassword: PASSWORD,
+    newPassword: NEW_PASSWORD,
+  });
+  assert.equal(res.status, 204, res.text);
+
+  assert.equal((await tracked.get("/api/user")).status, 401);
+  assert.equal((await untracked.get("/api/user")).status, 401);
+  assert.equal(await socket.closed(), 1008);
+  assert.equal((await current.get("/api/user")).status, 200);
+});
+
+test("signing out everywhere ends every other session and closes its sockets", async () => {
+  const user = await createUser("everywhere");
+  const current = await signIn(server, user);
+  const tracked = await signIn(server, user);
+  const untracked = await signIn(server, user);
+  await storage.deleteUserSessions([untracked.sessionId]);
+  const own = await current.connect("own");
+  const trackedSocket = await tracked.connect("tracked");
+  const untrackedSocket = await untracked.connect("untracked");
+
+  assert.equal((await current.delete("/api/sessions")).status, 204);
+  assert.equal(await trackedSocket.closed(), 1008);
+  assert.equal(await untrackedSocket.closed(), 1008);
+  assert.equal((await tracked.get("/api/user")).status, 401);
+  assert.equal((await untracked.get("/api/user")).status, 401);
+
+  // This device stays signed in and connected
+  assert.equal((await current.get("/api/user")).status, 200);
+  assert.equal(own.ws.readyState, own.ws.OPEN);
+  const events = (await current.get("/api/auth-events")).body as Array<{ type: string }>;
+  assert.equal(events.filter((event) => event.type === "session_revoked").length, 2);
+  own.close();
+});
+
+test("revoking one session signs it out and closes its socket", async () => {
+  const user = await createUser("revoker");
+  const current = await signIn(server, user);
+  const other = await signIn(server, user);
+  const bystander = await signIn(server, user);
+  const socket = await other.connect();
+
+  const sessions = (await current.get("/api/sessions")).body as Array<{
+    id: number;
+    current: boolean;
+  }>;
+  assert.equal(sessions.length, 3);
+  const target = (await storage.getUserSessions(user.id)).find(
+    (session) => session.sessionId === other.sessionId,
+  )!;
+
+  assert.equal((await current.delete(`/api/sessions/${target.id}`)).status, 204);
+  assert.equal(await socket.closed(), 1008);
+  assert.equal((await other.get("/api/user")).status, 401);
+  assert.equal((await bystander.get("/api/user")).status, 200);
+  const ownId = sessions.find((session) => session.current)!.id;
+  assert.equal((await current.delete(`/api/sessions/${ownId}`)).status, 400);
+});
+
+test("logging out ends the session and closes its socket", async () => {
+  const user = await createUser("leaver");
+  const agent = await signIn(server, user);
+  const sessionId = agent.sessionId;
+  const socket = await agent.connect();
+
+  assert.equal((await agent.post("/api/logout")).status, 200);
+  assert.equal(await socket.closed(), 1008);
+  assert.equal((await agent.get("/api/user")).status, 401);
+  assert.deepEqual(await storage.getStoredSessionIds(user.id), []);
+  assert.equal(
+    (await storage.getUserSessions(user.id)).some((session) => session.sessionId === sessionId),
+    false,
+  );
+});
@@ -0,0 +1,125 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import type { SessionSummary, UserSession } from "@shared/schema";
+import { recordAuthEvent } from "./login-throttle";
+import { idParam } from "./params";
+import { storage } from "./storage";
+import type { Realtime } from "./websocket";
+
+// Last-active times are written at most this often per session
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+// When each session's activity was last written
+const touchedAt = new Map<string, number>();
+
+// Records the signed-in session, or refreshes its address and activity
+export function trackSession(req: Request) {
+  touchedAt.set(req.sessionID, Date.now());
+  return storage.saveUserSession({
+    sessionId: req.sessionID,
+    userId: req.user!.id,
+    userAgent: req.get("user-agent")?.slice(0, 512),
+    ip: req.ip ?? "unknown",
+  });
+}
+
+// Keeps the signed-in session's address and last-active time current.
+// Sessions from before tracking existed are picked up here too.
+export function trackActivity(req: Request, _res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+  if (Date.now() - (touchedAt.get(req.sessionID) ?? 0) < ACTIVITY_RESOLUTION_MS) return next();
+  trackSession(req).then(() => next(), next);
+}
+
+// Drops the records of sessions that have already ended
+export async function forgetSessions(sessionIds: string[]) {
+  sessionIds.forEach((sessionId) => touchedAt.delete(sessionId));
+  await storage.deleteUserSessions(sessionIds);
+}
+
+// Ends the sessions in the store, so their cookies no longer sign anyone in
+export async function revokeSessions(sessionIds: string[]) {
+  await Promise.all(
+    sessionIds.map(
+      (sessionId) =>
+        new Promise<void>((resolve, reject) =>
+          storage.sessionStore.destroy(sessionId, (err) => (err ? reject(err) : resolve())),
+        ),
+    ),
+  );
+  await forgetSessions(sessionIds);
+}
+
+function sessionExists(sessionId: string) {
+  return new Promise<boolean>((resolve, reject) =>
+    storage.sessionStore.get(sessionId, (err, data) => (err ? reject(err) : resolve(!!data))),
+  );
+}
+
+// The user's sessions that are still live, tidying away any that expired
+async function liveSessions(userId: number): Promise<UserSession[]> {
+  const sessions = await storage.getUserSessions(userId);
+  const exists = await Promise.all(sessions.map((session) => sessionExists(session.sessionId)));
+  const ended = sessions.filter((_, i) => !exists[i]).map((session) => session.sessionId);
+  if (ended.length > 0) await forgetSessions(ended);
+  return sessions.filter((_, i) => exists[i]);
+}
+
+// Signs the user out everywhere but the given session, closing the sockets
+// of the sessions it ends. The store decides what still signs in: a session
+// whose tracking write failed, or that predates tracking, has no row yet but
+// ends too. Returns the ids of the live sessions ended.
+export async function endSessions(realtime: Realtime, userId: number, exceptSessionId?: string) {
+  const stored = await storage.getStoredSessionIds(userId);
+  const tracked = (await storage.getUserSessions(userId)).map((session) => session.sessionId);
+  const sessionIds = Array.from(new Set([...stored, ...tracked])).filter(
+    (sessionId) => sessionId !== exceptSessionId,
+  );
+  await revokeSessions(sessionIds);
+  realtime.closeSessions(sessionIds);
+  return stored.filter((sessionId) => sessionId !== exceptSessionId);
+}
+
+function summary(
+  { sessionId, userId, ...session }: UserSession,
+  currentSessionId: string,
+): SessionSummary {
+  return { ...session, current: sessionId === currentSessionId };
+}
+
+export function setupSessions(app: Express, realtime: Realtime) {
+  function recordRevoked(req: Request, sessionIds: string[]) {
+    return Promise.all(
+      sessionIds.map(() =>
+        recordAuthEvent(req, "session_revoked", req.user!.username, req.user!.id),
+      ),
+    );
+  }
+
+  app.get("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const sessions = await liveSessions(req.user!.id);
+    res.json(sessions.map((session) => summary(session, req.sessionID)));
+  });
+
+  // Signs out every device but this one
+  app.delete("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    await recordRevoked(req, await endSessions(realtime, req.user!.id, req.sessionID));
+    res.sendStatus(204);
+  });
+
+  app.delete("/api/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const id = idParam(req, res);
+    if (id === undefined) return;
+    const session = (await liveSessions(req.user!.id)).find((session) => session.id === id);
+    if (!session) return res.sendStatus(404);
+    if (session.sessionId === req.sessionID) {
+      return res.status(400).send("Sign out to end this session");
+    }
+    await revokeSessions([session.sessionId]);
+    realtime.closeSessions([session.sessionId]);
+    await recordRevoked(req, [session.sessionId]);
+    res.sendStatus(204);
+  });
+}
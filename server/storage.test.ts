@@ -0,0 +1,144 @@
+import "./test-env";
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import session from "express-session";
+import { sessions } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { createTestDatabase } from "./test-helpers";
+
+// Both implementations have to behave the same, so every test runs on each
+const implementations: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+  [
+    "DatabaseStorage",
+    async () => new DatabaseStorage(await createTestDatabase(), new session.MemoryStore()),
+  ],
+];
+
+for (const [name, createStorage] of implementations) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      storage = await createStorage();
+    });
+
+    test("new users start offline", async () => {
+      const user = await storage.createUser({ username: "newcomer", password: "x" });
+      assert.equal(user.isOnline, false);
+    });
+
+    test("clearing online status marks everyone offline", async () => {
+      const first = await storage.createUser({ username: "stale-1", password: "x" });
+      const second = await storage.createUser({ username: "stale-2", password: "x" });
+      await storage.setUserOnlineStatus(first.id, true);
+      await storage.setUserOnlineStatus(second.id, true);
+      assert.equal((await storage.getUser(first.id))!.isOnline, true);
+
+      await storage.clearOnlineStatus();
+      const users = await storage.getUsers([first.id, second.id]);
+      assert.deepEqual(
+        users.map((user) => user.isOnline),
+        [false, false],
+      );
+    });
+
+    test("getUsers returns just the users asked for", async () => {
+      const wanted = await storage.createUser({ username: "wanted", password: "x" });
+      await storage.createUser({ username: "unwanted", password: "x" });
+
+      const users = await storage.getUsers([wanted.id, 9999]);
+      assert.deepEqual(
+        users.map((user) => user.username),
+        ["wanted"],
+      );
+      assert.deepEqual(await storage.getUsers([]), []);
+    });
+
+    test("reset tokens work once and only until they expire", async () => {
+      const user = await storage.createUser({ username: "resetter", password: "x" });
+      await storage.createPasswordResetToken(user.id, "stale", new Date(Date.now() - 1));
+      assert.equal(await storage.findPasswordResetToken("stale"), undefined);
+      assert.equal(await storage.usePasswordResetToken("stale"), undefined);
+
+      await storage.createPasswordResetToken(user.id, "live", new Date(Date.now() + 60_000));
+      assert.equal(await storage.findPasswordResetToken("live"), user.id);
+      assert.equal(await storage.usePasswordResetToken("live"), user.id);
+      assert.equal(await storage.usePasswordResetToken("live"), undefined);
+      assert.equal(await storage.findPasswordResetToken("live"), undefined);
+    });
+
+    test("expiring or deleting a message drops the logged frames carrying it", async () => {
+      const user = await storage.createUser({ username: "logged", password: "x" });
+      const conversation = await storage.createConversation(
+        { type: "group", name: "Log", createdBy: user.id },
+        [user.id],
+      );
+      const message = (expiresAt: Date | null) =>
+        storage.createMessage({
+          content: "logged",
+          senderId: user.id,
+          conversationId: conversation.id,
+          expiresAt,
+        });
+      const expiring = await message(new Date(Date.now() - 1000));
+      const kept = await message(null);
+      await storage.appendEvent(user.id, { type: "message", message: expiring });
+      await storage.appendEvent(user.id, { type: "receipt", messageId: expiring.id });
+      await storage.appendEvent(user.id, { type: "message", message: kept });
+      await storage.appendEvent(null, { type: "conversationUpdated" });
+      const logged = async () =>
+        (await storage.getEventsSince(user.id, 0, 100)).map((event) => event.messageId);
+
+      const expired = await storage.deleteExpiredMessages(new Date());
+      assert.deepEqual(
+        expired.map((message) => message.id),
+        [expiring.id],
+      );
+      assert.deepEqual(await logged(), [kept.id, null]);
+
+      await storage.deleteMessage(kept.id);
+      assert.deepEqual(await logged(), [null]);
+    });
+
+    test("a picture is shown while a message that isn't deleted points at it", async () => {
+      const sender = await storage.createUser({ username: "photographer", password: "x" });
+      const conversation = await storage.createConversation(
+        { type: "group", name: "Photos", createdBy: sender.id },
+        [sender.id],
+      );
+      const url = "/api/images/00000000-0000-4000-8000-000000000001";
+      assert.equal(await storage.isImageShown(url), false);
+
+      const message = await storage.createMessage({
+        content: "look",
+        senderId: sender.id,
+        conversationId: conversation.id,
+        imageUrl: url,
+      });
+      assert.equal(await storage.isImageShown(url), true);
+      await storage.deleteMessage(message.id);
+      assert.equal(await storage.isImageShown(url), false);
+    });
+  });
+}
+
+test("DatabaseStorage finds a user's sessions in connect-pg-simple's table", async () => {
+  const db = await createTestDatabase();
+  const storage = new DatabaseStorage(db, new session.MemoryStore());
+  const user = await storage.createUser({ username: "owner", password: "x" });
+  const other = await storage.createUser({ username: "other", password: "x" });
+  const later = new Date(Date.now() + 60_000);
+  await db.insert(sessions).values([
+    { sid: "live", sess: { cookie: {}, passport: { user: user.id } }, expire: later },
+    {
+      sid: "expired",
+      sess: { cookie: {}, passport: { user: user.id } },
+      expire: new Date(Date.now() - 1000),
+    },
+    { sid: "someone-else", sess: { cookie: {}, passport: { user: other.id } }, expire: later },
+    { sid: "signed-out", sess: { cookie: {} }, expire: later },
+  ]);
+
+  assert.deepEqual(await storage.getStoredSessionIds(user.id), ["live"]);
+});
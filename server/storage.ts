@@ -1,18 +1,290 @@
-import { Message, InsertMessage, User, InsertUser } from "@shared/schema";
+import {
+  Attachment,
+  AuthEvent,
+  Block,
+  BlockType,
+  ModerationAction,
+  InsertModerationAction,
+  Report,
+  InsertReport,
+  ReportQuery,
+  TotpCredential,
+  Passkey,
+  InsertPasskey,
+  UserSession,
+  InsertUserSession,
+  passwordResetTokens,
+  AttachmentStatus,
+  Conversation,
+  DeviceKey,
+  IdentityKey,
+  InsertConversation,
+  EditMessage,
+  Image,
+  InsertAttachment,
+  InsertAuthEvent,
+  InsertImage,
+  Message,
+  MessageEdit,
+  MessagePageQuery,
+  InsertMessage,
+  MessageReceipt,
+  SenderKey,
+  SenderKeyForDevice,
+  User,
+  UserEvent,
+  InsertUser,
+  WrappedKey,
+  users,
+  identityKeys,
+  deviceKeys,
+  conversations,
+  conversationMembers,
+  conversationBans,
+  senderKeys,
+  senderKeyDistributions,
+  messages,
+  messageEdits,
+  images,
+  attachments,
+  messageReceipts,
+  userEvents,
+  authEvents,
+  totpCredentials,
+  recoveryCodes,
+  passkeys,
+  userSessions,
+  sessions,
+  blocks,
+  reports,
+  moderationActions,
+  verificationCodes,
+} from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import { Store } from "express-session";
+import {
+  and,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  max,
+  ne,
+  notExists,
+  notInArray,
+  or,
+  sql,
+} from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export function directKey(userId: number, peerId: number) {
+  return [userId, peerId].sort((a, b) => a - b).join(":");
+}
+
+// Guesses at a verification code before it is thrown away, so its six
+// digits can't be worked through while it is valid
+const MAX_CODE_ATTEMPTS = 5;
+
+// Expired messages stay hidden between sweeps
+const isLive = (message: Message, now = new Date()) =>
+  !message.expiresAt || message.expiresAt > now;
+
+function notExpired() {
+  return or(isNull(messages.expiresAt), gt(messages.expiresAt, sql`now()`));
+}
+
+// Messages without a sender are never hidden
+function notFrom(senderIds: number[]) {
+  if (senderIds.length === 0) return undefined;
+  return or(isNull(messages.senderId), notInArray(messages.senderId, senderIds));
+}
+
+// Logged frames that carry a message: the message itself (sent, edited or
+// deleted) or a receipt for it
+function loggedMessageId(payload: unknown): number | undefined {
+  const frame = payload as { message?: { id: number }; messageId?: number };
+  return frame.message?.id ?? frame.messageId;
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getMessages(): Promise<Message[]>;
+  getIdentityKey(userId: number): Promise<IdentityKey | undefined>;
+  // Replacing the identity unlinks every device, since their signatures no
+  // longer verify
+  setIdentityKey(userId: number, publicKey: string): Promise<IdentityKey>;
+  // Registers or replaces the public key of one of the user's devices. A new
+  // key starts with the given signature (or none); re-registering the same
+  // key keeps the stored one unless a signature is given.
+  setDeviceKey(
+    userId: number,
+    deviceId: string,
+    publicKey: string,
+    signature?: string | null,
+  ): Promise<DeviceKey>;
+  signDeviceKey(userId: number, deviceId: string, signature: string): Promise<DeviceKey | undefined>;
+  getDeviceKeys(userId: number): Promise<DeviceKey[]>;
+  createConversation(conversation: InsertConversation, memberIds: number[]): Promise<Conversation>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getDirectConversation(userId: number, peerId: number): Promise<Conversation | undefined>;
+  getUserConversations(userId: number): Promise<Conversation[]>;
+  // Group rooms the user is not a member of and wasn't removed from
+  getJoinableConversations(userId: number): Promise<Conversation[]>;
+  getConversationMembers(conversationId: number): Promise<User[]>;
+  isConversationMember(conversationId: number, userId: number): Promise<boolean>;
+  // Both return whether membership actually changed
+  addConversationMember(conversationId: number, userId: number): Promise<boolean>;
+  removeConversationMember(conversationId: number, userId: number): Promise<boolean>;
+  // Removes the member and keeps them from joining again
+  banConversationMember(conversationId: number, userId: number, bannedBy: number): Promise<boolean>;
+  isBannedFromConversation(conversationId: number, userId: number): Promise<boolean>;
+  setDisappearingTimer(conversationId: number, seconds: number): Promise<Conversation | undefined>;
+  createSenderKey(
+    senderKey: Omit<SenderKey, "createdAt">,
+    distributions: WrappedKey[],
+  ): Promise<SenderKey>;
+  getSenderKey(keyId: string): Promise<SenderKey | undefined>;
+  // The sender key as wrapped for one recipient device
+  getSenderKeyForDevice(
+    keyId: string,
+    userId: number,
+    deviceId: string,
+  ): Promise<SenderKeyForDevice | undefined>;
+  // The newest message of each conversation that has any, leaving out the
+  // hidden senders' messages
+  getLastMessages(conversationIds: number[], hiddenSenderIds?: number[]): Promise<Message[]>;
+  // A page of the conversation's messages, newest first
+  getConversationMessages(
+    conversationId: number,
+    page: MessagePageQuery,
+    hiddenSenderIds?: number[],
+  ): Promise<Message[]>;
+  getMessagesByIds(ids: number[]): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
-  getOnlineUsers(): Promise<User[]>;
+  getMessage(id: number): Promise<Message | undefined>;
+  // Replaces the content, keeping the previous version as an edit
+  editMessage(id: number, edit: EditMessage): Promise<Message | undefined>;
+  // Leaves a tombstone: content, envelope and edit history are dropped, as
+  // is every logged frame that carried the message
+  deleteMessage(id: number): Promise<Message | undefined>;
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  createImage(image: InsertImage): Promise<Image>;
+  getImage(id: string): Promise<Image | undefined>;
+  deleteImage(id: string): Promise<void>;
+  // Whether any message, deleted ones aside, still shows the picture
+  isImageShown(imageUrl: string): Promise<boolean>;
+  // Deletes pictures uploaded before `before` that no message shows
+  deleteUnsentImages(before: Date): Promise<Image[]>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachments(ids: string[]): Promise<Attachment[]>;
+  setAttachmentStatus(id: string, status: AttachmentStatus): Promise<Attachment | undefined>;
+  attachToMessage(ids: string[], messageId: number): Promise<Attachment[]>;
+  getMessageAttachments(messageIds: number[]): Promise<Attachment[]>;
+  // Deletes attachments created before `before` that are on no message,
+  // whether never sent or left behind by a deleted or expired one
+  deleteUnsentAttachments(before: Date): Promise<Attachment[]>;
+  // Deletes messages whose timer ran out, with their receipts and every
+  // logged frame that carried them; returns what was deleted
+  deleteExpiredMessages(now: Date): Promise<Message[]>;
+  getReceipts(messageIds: number[]): Promise<MessageReceipt[]>;
+  // Both return only the receipts that changed, so callers can notify senders
+  markDelivered(userId: number, messageIds: number[]): Promise<MessageReceipt[]>;
+  markRead(userId: number, messageIds: number[]): Promise<MessageReceipt[]>;
+  appendEvent(userId: number | null, payload: unknown): Promise<UserEvent>;
+  getEventsSince(userId: number, cursor: number, limit: number): Promise<UserEvent[]>;
+  getLatestEventId(): Promise<number>;
+  pruneEvents(before: Date): Promise<void>;
+  getUsers(ids: number[]): Promise<User[]>;
   setUserOnlineStatus(userId: number, isOnline: boolean): Promise<void>;
+  // Marks everyone offline, for startup, when no socket is open yet
+  clearOnlineStatus(): Promise<void>;
+  setUserVerified(userId: number): Promise<void>;
+  setUserAdmin(userId: number): Promise<void>;
+  // Null times lift a suspension
+  setUserSuspension(
+    userId: number,
+    suspension: Pick<User, "suspendedAt" | "suspendedUntil">,
+  ): Promise<User | undefined>;
+  getTotpCredential(userId: number): Promise<TotpCredential | undefined>;
+  // Starts a new, unconfirmed enrolment, replacing any earlier one
+  saveTotpCredential(userId: number, secret: string): Promise<TotpCredential>;
+  // Both take the time step of the code that was accepted, and return false
+  // when a code from that step or a later one was already used
+  confirmTotpCredential(userId: number, step: number): Promise<boolean>;
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  // Removes the enrolment and the recovery codes with it
+  deleteTotpCredential(userId: number): Promise<void>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Marks the code used; false when it doesn't exist or was used before
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  createPasskey(passkey: InsertPasskey): Promise<Passkey>;
+  getPasskey(id: string): Promise<Passkey | undefined>;
+  // Oldest first
+  getUserPasskeys(userId: number): Promise<Passkey[]>;
+  updatePasskey(
+    id: string,
+    changes: Partial<Pick<Passkey, "name" | "counter" | "lastUsedAt">>,
+  ): Promise<Passkey | undefined>;
+  deletePasskey(id: string): Promise<void>;
+  // Records the session, or refreshes its address and last-active time
+  saveUserSession(
+    session: Pick<InsertUserSession, "sessionId" | "userId" | "userAgent" | "ip">,
+  ): Promise<UserSession>;
+  // Most recently active first
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  deleteUserSessions(sessionIds: string[]): Promise<void>;
+  // Ids of the user's unexpired sessions in the session store, whether
+  // tracked or not
+  getStoredSessionIds(userId: number): Promise<string[]>;
+  // Replaces any earlier block or mute of the same user
+  setBlock(userId: number, blockedUserId: number, type: BlockType): Promise<Block>;
+  removeBlock(userId: number, blockedUserId: number): Promise<boolean>;
+  // Newest first
+  getBlocks(userId: number): Promise<Block[]>;
+  // Who has blocked, not just muted, the user
+  getBlockerIds(userId: number): Promise<number[]>;
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: number): Promise<Report | undefined>;
+  // The reporter's unresolved report on the same user and message, if any
+  findOpenReport(
+    reporterId: number,
+    reportedUserId: number,
+    messageId: number | null,
+  ): Promise<Report | undefined>;
+  // A page of matching reports, newest first
+  getReports(query: ReportQuery): Promise<Report[]>;
+  // Only open reports can be resolved; undefined otherwise
+  resolveReport(
+    id: number,
+    resolution: Pick<Report, "resolution" | "resolvedBy" | "moderatorNote">,
+  ): Promise<Report | undefined>;
+  recordModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  // Newest first
+  getModerationActions(userId: number): Promise<ModerationAction[]>;
+  recordAuthEvent(event: InsertAuthEvent): Promise<AuthEvent>;
+  deleteAuthEvent(id: number): Promise<void>;
+  // Events for the username or IP since the given time, newest first
+  getRecentAuthEvents(
+    filter: { username: string } | { ip: string },
+    since: Date,
+  ): Promise<AuthEvent[]>;
+  updateUserPassword(userId: number, password: string): Promise<void>;
+  // Replaces any earlier token the user had
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  // The token's user if it is live
+  findPasswordResetToken(tokenHash: string): Promise<number | undefined>;
+  // The token's user if it is live, spending it and any others they had
+  usePasswordResetToken(tokenHash: string): Promise<number | undefined>;
   storeVerificationCode(userId: number, code: string): Promise<void>;
   verifyCode(username: string, code: string): Promise<boolean>;
   sessionStore: Store;
@@ -20,18 +292,80 @@ export interface IStorage {
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private identityKeys: Map<number, IdentityKey>;
+  // Keyed by "<userId>:<deviceId>"
+  private deviceKeys: Map<string, DeviceKey>;
+  private conversations: Map<number, Conversation>;
+  // Member user ids per conversation id
+  private members: Map<number, Set<number>>;
+  // Removed user ids per conversation id
+  private conversationBans: Map<number, Set<number>>;
+  private senderKeys: Map<string, SenderKey>;
+  // Keyed by "<keyId>:<userId>:<deviceId>"
+  private senderKeyDistributions: Map<string, WrappedKey>;
   private messages: Map<number, Message>;
-  private verificationCodes: Map<string, { code: string; expiresAt: Date }>;
+  private messageEdits: MessageEdit[];
+  private images: Map<string, Image>;
+  private attachments: Map<string, Attachment>;
+  private receipts: Map<string, MessageReceipt>;
+  private events: UserEvent[];
+  private verificationCodes: Map<string, { code: string; expiresAt: Date; attempts: number }>;
+  // Keyed by user id; one live token each
+  private passwordResetTokens: Map<number, { tokenHash: string; expiresAt: Date }>;
+  private authEvents: AuthEvent[];
+  private totpCredentials: Map<number, TotpCredential>;
+  // Unused recovery code hashes per user id
+  private recoveryCodes: Map<number, Set<string>>;
+  private passkeys: Map<string, Passkey>;
+  // Keyed by session store id
+  private userSessions: Map<string, UserSession>;
+  // Keyed by "<userId>:<blockedUserId>"
+  private blocks: Map<string, Block>;
+  private reports: Map<number, Report>;
+  private moderationActions: ModerationAction[];
   private currentUserId: number;
+  private currentConversationId: number;
   private currentMessageId: number;
+  private currentMessageEditId: number;
+  private currentEventId: number;
+  private currentUserSessionId: number;
+  private currentReportId: number;
+  private currentAuthEventId: number;
   sessionStore: Store;
 
   constructor() {
     this.users = new Map();
+    this.identityKeys = new Map();
+    this.deviceKeys = new Map();
+    this.conversations = new Map();
+    this.members = new Map();
+    this.conversationBans = new Map();
+    this.senderKeys = new Map();
+    this.senderKeyDistributions = new Map();
     this.messages = new Map();
+    this.messageEdits = [];
+    this.images = new Map();
+    this.attachments = new Map();
+    this.receipts = new Map();
+    this.events = [];
     this.verificationCodes = new Map();
+    this.passwordResetTokens = new Map();
+    this.authEvents = [];
+    this.totpCredentials = new Map();
+    this.recoveryCodes = new Map();
+    this.passkeys = new Map();
+    this.userSessions = new Map();
+    this.blocks = new Map();
+    this.reports = new Map();
+    this.moderationActions = [];
     this.currentUserId = 1;
+    this.currentConversationId = 1;
     this.currentMessageId = 1;
+    this.currentMessageEditId = 1;
+    this.currentEventId = 1;
+    this.currentUserSessionId = 1;
+    this.currentReportId = 1;
+    this.currentAuthEventId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
     });
@@ -52,16 +386,217 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
+      email: insertUser.email ?? null,
+      isVerified: false,
       avatarUrl: `https://images.unsplash.com/photo-${1708860028064 + id}-3303a016e88f`,
-      isOnline: true,
+      isOnline: false,
       lastSeen: new Date(),
+      isAdmin: false,
+      suspendedAt: null,
+      suspendedUntil: null,
     };
     this.users.set(id, user);
     return user;
   }
 
-  async getMessages(): Promise<Message[]> {
-    return Array.from(this.messages.values());
+  async getIdentityKey(userId: number): Promise<IdentityKey | undefined> {
+    return this.identityKeys.get(userId);
+  }
+
+  async setIdentityKey(userId: number, publicKey: string): Promise<IdentityKey> {
+    const existing = this.identityKeys.get(userId);
+    if (existing?.publicKey === publicKey) return existing;
+    const identityKey: IdentityKey = { userId, publicKey, createdAt: new Date() };
+    this.identityKeys.set(userId, identityKey);
+    this.deviceKeys.forEach((deviceKey) => {
+      if (deviceKey.userId === userId) deviceKey.signature = null;
+    });
+    return identityKey;
+  }
+
+  async setDeviceKey(
+    userId: number,
+    deviceId: string,
+    publicKey: string,
+    signature?: string | null,
+  ): Promise<DeviceKey> {
+    const key = `${userId}:${deviceId}`;
+    const existing = this.deviceKeys.get(key);
+    if (existing?.publicKey === publicKey) {
+      if (signature !== undefined) existing.signature = signature;
+      return existing;
+    }
+    const deviceKey: DeviceKey = {
+      userId,
+      deviceId,
+      publicKey,
+      signature: signature ?? null,
+      createdAt: new Date(),
+    };
+    this.deviceKeys.set(key, deviceKey);
+    return deviceKey;
+  }
+
+  async signDeviceKey(
+    userId: number,
+    deviceId: string,
+    signature: string,
+  ): Promise<DeviceKey | undefined> {
+    const deviceKey = this.deviceKeys.get(`${userId}:${deviceId}`);
+    if (deviceKey) deviceKey.signature = signature;
+    return deviceKey;
+  }
+
+  async getDeviceKeys(userId: number): Promise<DeviceKey[]> {
+    return Array.from(this.deviceKeys.values()).filter((key) => key.userId === userId);
+  }
+
+  async createConversation(
+    insertConversation: InsertConversation,
+    memberIds: number[],
+  ): Promise<Conversation> {
+    const id = this.currentConversationId++;
+    const conversation: Conversation = {
+      id,
+      type: insertConversation.type,
+      name: insertConversation.name ?? null,
+      directKey: insertConversation.directKey ?? null,
+      createdBy: insertConversation.createdBy ?? null,
+      epoch: 0,
+      disappearAfter: 0,
+      createdAt: new Date(),
+    };
+    this.conversations.set(id, conversation);
+    this.members.set(id, new Set(memberIds));
+    return conversation;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async getDirectConversation(userId: number, peerId: number): Promise<Conversation | undefined> {
+    const key = directKey(userId, peerId);
+    return Array.from(this.conversations.values()).find(
+      (conversation) => conversation.directKey === key,
+    );
+  }
+
+  async getUserConversations(userId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).filter((conversation) =>
+      this.members.get(conversation.id)?.has(userId),
+    );
+  }
+
+  async getJoinableConversations(userId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).filter(
+      (conversation) =>
+        conversation.type === "group" &&
+        !this.members.get(conversation.id)?.has(userId) &&
+        !this.conversationBans.get(conversation.id)?.has(userId),
+    );
+  }
+
+  async getConversationMembers(conversationId: number): Promise<User[]> {
+    const memberIds = Array.from(this.members.get(conversationId) ?? []);
+    return memberIds.flatMap((id) => this.users.get(id) ?? []);
+  }
+
+  async isConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    return this.members.get(conversationId)?.has(userId) ?? false;
+  }
+
+  async addConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    const members = this.members.get(conversationId);
+    if (!members || members.has(userId)) return false;
+    members.add(userId);
+    this.conversations.get(conversationId)!.epoch++;
+    return true;
+  }
+
+  async removeConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    if (!this.members.get(conversationId)?.delete(userId)) return false;
+    this.conversations.get(conversationId)!.epoch++;
+    return true;
+  }
+
+  async banConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    if (!(await this.removeConversationMember(conversationId, userId))) return false;
+    const banned = this.conversationBans.get(conversationId) ?? new Set();
+    this.conversationBans.set(conversationId, banned.add(userId));
+    return true;
+  }
+
+  async isBannedFromConversation(conversationId: number, userId: number): Promise<boolean> {
+    return this.conversationBans.get(conversationId)?.has(userId) ?? false;
+  }
+
+  async setDisappearingTimer(
+    conversationId: number,
+    seconds: number,
+  ): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(conversationId);
+    if (conversation) conversation.disappearAfter = seconds;
+    return conversation;
+  }
+
+  async createSenderKey(
+    insertSenderKey: Omit<SenderKey, "createdAt">,
+    distributions: WrappedKey[],
+  ): Promise<SenderKey> {
+    const senderKey: SenderKey = { ...insertSenderKey, createdAt: new Date() };
+    this.senderKeys.set(senderKey.keyId, senderKey);
+    distributions.forEach((distribution) => {
+      this.senderKeyDistributions.set(
+        `${senderKey.keyId}:${distribution.userId}:${distribution.deviceId}`,
+        distribution,
+      );
+    });
+    return senderKey;
+  }
+
+  async getSenderKey(keyId: string): Promise<SenderKey | undefined> {
+    return this.senderKeys.get(keyId);
+  }
+
+  async getSenderKeyForDevice(
+    keyId: string,
+    userId: number,
+    deviceId: string,
+  ): Promise<SenderKeyForDevice | undefined> {
+    const senderKey = this.senderKeys.get(keyId);
+    const distribution = this.senderKeyDistributions.get(`${keyId}:${userId}:${deviceId}`);
+    if (!senderKey || !distribution) return undefined;
+    return { ...senderKey, iv: distribution.iv, wrappedKey: distribution.wrappedKey };
+  }
+
+  async getLastMessages(
+    conversationIds: number[],
+    hiddenSenderIds: number[] = [],
+  ): Promise<Message[]> {
+    const latest = new Map<number, Message>();
+    this.messages.forEach((message) => {
+      if (!conversationIds.includes(message.conversationId) || !isLive(message)) return;
+      if (message.senderId !== null && hiddenSenderIds.includes(message.senderId)) return;
+      const current = latest.get(message.conversationId);
+      if (!current || current.id < message.id) latest.set(message.conversationId, message);
+    });
+    return Array.from(latest.values());
+  }
+
+  async getConversationMessages(
+    conversationId: number,
+    { before, limit }: MessagePageQuery,
+    hiddenSenderIds: number[] = [],
+  ): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.conversationId === conversationId && isLive(message))
+      .filter((message) => before === undefined || message.id < before)
+      .filter(
+        (message) => message.senderId === null || !hiddenSenderIds.includes(message.senderId),
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
   }
 
   async createMessage(message: InsertMessage): Promise<Message> {
@@ -70,16 +605,240 @@ export class MemStorage implements IStorage {
       id,
       content: message.content,
       senderId: message.senderId ?? null,
-      receiverId: message.receiverId ?? null,
+      conversationId: message.conversationId,
+      envelope: message.envelope ?? null,
       imageUrl: message.imageUrl ?? null,
       createdAt: new Date(),
+      expiresAt: message.expiresAt ?? null,
+      editedAt: null,
+      deletedAt: null,
     };
     this.messages.set(id, newMessage);
     return newMessage;
   }
 
-  async getOnlineUsers(): Promise<User[]> {
-    return Array.from(this.users.values()).filter(user => user.isOnline);
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
+  async editMessage(id: number, edit: EditMessage): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+    const editedAt = new Date();
+    this.messageEdits.push({
+      id: this.currentMessageEditId++,
+      messageId: id,
+      content: message.content,
+      envelope: message.envelope,
+      editedAt,
+    });
+    const edited: Message = { ...message, ...edit, editedAt };
+    this.messages.set(id, edited);
+    return edited;
+  }
+
+  async deleteMessage(id: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+    const tombstone: Message = {
+      ...message,
+      content: "",
+      envelope: null,
+      imageUrl: null,
+      editedAt: null,
+      deletedAt: new Date(),
+    };
+    this.messages.set(id, tombstone);
+    this.messageEdits = this.messageEdits.filter((edit) => edit.messageId !== id);
+    this.unlinkAttachments(new Set([id]));
+    this.events = this.events.filter((event) => event.messageId !== id);
+    return tombstone;
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return this.messageEdits.filter((edit) => edit.messageId === messageId);
+  }
+
+  async createImage(insertImage: InsertImage): Promise<Image> {
+    const image: Image = { ...insertImage, createdAt: new Date() };
+    this.images.set(image.id, image);
+    return image;
+  }
+
+  async getImage(id: string): Promise<Image | undefined> {
+    return this.images.get(id);
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    this.images.delete(id);
+  }
+
+  async isImageShown(imageUrl: string): Promise<boolean> {
+    return Array.from(this.messages.values()).some((message) => message.imageUrl === imageUrl);
+  }
+
+  async deleteUnsentImages(before: Date): Promise<Image[]> {
+    const shown = new Set(Array.from(this.messages.values(), (message) => message.imageUrl));
+    const unsent = Array.from(this.images.values()).filter(
+      (image) => image.createdAt < before && !shown.has(`/api/images/${image.id}`),
+    );
+    unsent.forEach((image) => this.images.delete(image.id));
+    return unsent;
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const attachment: Attachment = {
+      messageId: null,
+      status: "quarantined",
+      ...insertAttachment,
+      createdAt: new Date(),
+    };
+    this.attachments.set(attachment.id, attachment);
+    return attachment;
+  }
+
+  async getAttachments(ids: string[]): Promise<Attachment[]> {
+    return ids.flatMap((id) => this.attachments.get(id) ?? []);
+  }
+
+  async setAttachmentStatus(
+    id: string,
+    status: AttachmentStatus,
+  ): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return undefined;
+    attachment.status = status;
+    return attachment;
+  }
+
+  async attachToMessage(ids: string[], messageId: number): Promise<Attachment[]> {
+    return (await this.getAttachments(ids)).map((attachment) => {
+      attachment.messageId = messageId;
+      return attachment;
+    });
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter(
+      (attachment) => attachment.messageId !== null && messageIds.includes(attachment.messageId),
+    );
+  }
+
+  async deleteUnsentAttachments(before: Date): Promise<Attachment[]> {
+    const unsent = Array.from(this.attachments.values()).filter(
+      (attachment) => attachment.messageId === null && attachment.createdAt < before,
+    );
+    unsent.forEach((attachment) => this.attachments.delete(attachment.id));
+    return unsent;
+  }
+
+  // What the foreign key's ON DELETE SET NULL does in the database
+  private unlinkAttachments(messageIds: Set<number>) {
+    this.attachments.forEach((attachment) => {
+      if (attachment.messageId !== null && messageIds.has(attachment.messageId)) {
+        attachment.messageId = null;
+      }
+    });
+  }
+
+  async deleteExpiredMessages(now: Date): Promise<Message[]> {
+    const expired = Array.from(this.messages.values()).filter((message) => !isLive(message, now));
+    if (!expired.length) return [];
+    const ids = new Set(expired.map((message) => message.id));
+    ids.forEach((id) => this.messages.delete(id));
+    this.messageEdits = this.messageEdits.filter((edit) => !ids.has(edit.messageId));
+    this.unlinkAttachments(ids);
+    this.receipts.forEach((receipt, key) => {
+      if (ids.has(receipt.messageId)) this.receipts.delete(key);
+    });
+    this.events = this.events.filter(
+      (event) => event.messageId === null || !ids.has(event.messageId),
+    );
+    return expired;
+  }
+
+  async getMessagesByIds(ids: number[]): Promise<Message[]> {
+    return ids.flatMap((id) => this.messages.get(id) ?? []);
+  }
+
+  async getReceipts(messageIds: number[]): Promise<MessageReceipt[]> {
+    const ids = new Set(messageIds);
+    return Array.from(this.receipts.values()).filter((receipt) =>
+      ids.has(receipt.messageId),
+    );
+  }
+
+  async markDelivered(userId: number, messageIds: number[]): Promise<MessageReceipt[]> {
+    return this.updateReceipts(userId, messageIds, (receipt, now) => {
+      if (receipt.deliveredAt) return false;
+      receipt.deliveredAt = now;
+      return true;
+    });
+  }
+
+  async markRead(userId: number, messageIds: number[]): Promise<MessageReceipt[]> {
+    return this.updateReceipts(userId, messageIds, (receipt, now) => {
+      if (receipt.readAt) return false;
+      receipt.deliveredAt ??= now;
+      receipt.readAt = now;
+      return true;
+    });
+  }
+
+  async appendEvent(userId: number | null, payload: unknown): Promise<UserEvent> {
+    const event: UserEvent = {
+      id: this.currentEventId++,
+      userId,
+      payload,
+      messageId: loggedMessageId(payload) ?? null,
+      createdAt: new Date(),
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  async getEventsSince(userId: number, cursor: number, limit: number): Promise<UserEvent[]> {
+    return this.events
+      .filter(
+        (event) =>
+          event.id > cursor && (event.userId === null || event.userId === userId),
+      )
+      .slice(0, limit);
+  }
+
+  async getLatestEventId(): Promise<number> {
+    return this.currentEventId - 1;
+  }
+
+  async pruneEvents(before: Date): Promise<void> {
+    this.events = this.events.filter((event) => event.createdAt >= before);
+  }
+
+  private updateReceipts(
+    userId: number,
+    messageIds: number[],
+    update: (receipt: MessageReceipt, now: Date) => boolean,
+  ): MessageReceipt[] {
+    const now = new Date();
+    const changed: MessageReceipt[] = [];
+    for (const messageId of Array.from(new Set(messageIds))) {
+      const key = `${messageId}:${userId}`;
+      const receipt = this.receipts.get(key) ?? {
+        messageId,
+        userId,
+        deliveredAt: null,
+        readAt: null,
+      };
+      if (update(receipt, now)) {
+        this.receipts.set(key, receipt);
+        changed.push({ ...receipt });
+      }
+    }
+    return changed;
+  }
+
+  async getUsers(ids: number[]): Promise<User[]> {
+    return ids.flatMap((id) => this.users.get(id) ?? []);
   }
 
   async setUserOnlineStatus(userId: number, isOnline: boolean): Promise<void> {
@@ -91,11 +850,321 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async clearOnlineStatus(): Promise<void> {
+    this.users.forEach((user) => {
+      user.isOnline = false;
+    });
+  }
+
+  async setUserVerified(userId: number): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.isVerified = true;
+    }
+  }
+
+  async setUserAdmin(userId: number): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.isAdmin = true;
+    }
+  }
+
+  async setUserSuspension(
+    userId: number,
+    suspension: Pick<User, "suspendedAt" | "suspendedUntil">,
+  ): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    Object.assign(user, suspension);
+    return user;
+  }
+
+  async getTotpCredential(userId: number): Promise<TotpCredential | undefined> {
+    return this.totpCredentials.get(userId);
+  }
+
+  async saveTotpCredential(userId: number, secret: string): Promise<TotpCredential> {
+    const credential: TotpCredential = {
+      userId,
+      secret,
+      confirmedAt: null,
+      lastUsedStep: null,
+      createdAt: new Date(),
+    };
+    this.totpCredentials.set(userId, credential);
+    return credential;
+  }
+
+  async confirmTotpCredential(userId: number, step: number): Promise<boolean> {
+    const confirmed = await this.useTotpStep(userId, step);
+    if (confirmed) this.totpCredentials.get(userId)!.confirmedAt = new Date();
+    return confirmed;
+  }
+
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const credential = this.totpCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep ?? -1) >= step) return false;
+    credential.lastUsedStep = step;
+    return true;
+  }
+
+  async deleteTotpCredential(userId: number): Promise<void> {
+    this.totpCredentials.delete(userId);
+    this.recoveryCodes.delete(userId);
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    this.recoveryCodes.set(userId, new Set(codeHashes));
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    return this.recoveryCodes.get(userId)?.delete(codeHash) ?? false;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return this.recoveryCodes.get(userId)?.size ?? 0;
+  }
+
+  async createPasskey(insertPasskey: InsertPasskey): Promise<Passkey> {
+    const passkey: Passkey = {
+      counter: 0,
+      transports: null,
+      lastUsedAt: null,
+      ...insertPasskey,
+      createdAt: new Date(),
+    };
+    this.passkeys.set(passkey.id, passkey);
+    return passkey;
+  }
+
+  async getPasskey(id: string): Promise<Passkey | undefined> {
+    return this.passkeys.get(id);
+  }
+
+  async getUserPasskeys(userId: number): Promise<Passkey[]> {
+    return Array.from(this.passkeys.values()).filter((passkey) => passkey.userId === userId);
+  }
+
+  async updatePasskey(
+    id: string,
+    changes: Partial<Pick<Passkey, "name" | "counter" | "lastUsedAt">>,
+  ): Promise<Passkey | undefined> {
+    const passkey = this.passkeys.get(id);
+    if (!passkey) return undefined;
+    Object.assign(passkey, changes);
+    return passkey;
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    this.passkeys.delete(id);
+  }
+
+  async saveUserSession(
+    session: Pick<InsertUserSession, "sessionId" | "userId" | "userAgent" | "ip">,
+  ): Promise<UserSession> {
+    const now = new Date();
+    const existing = this.userSessions.get(session.sessionId);
+    const userSession: UserSession = existing
+      ? { ...existing, userAgent: session.userAgent ?? null, ip: session.ip, lastActiveAt: now }
+      : {
+          ...session,
+          userAgent: session.userAgent ?? null,
+          id: this.currentUserSessionId++,
+          createdAt: now,
+          lastActiveAt: now,
+        };
+    this.userSessions.set(session.sessionId, userSession);
+    return userSession;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime());
+  }
+
+  async deleteUserSessions(sessionIds: string[]): Promise<void> {
+    sessionIds.forEach((sessionId) => this.userSessions.delete(sessionId));
+  }
+
+  async getStoredSessionIds(userId: number): Promise<string[]> {
+    // memorystore hands back an object keyed by session id
+    const all = await new Promise<Record<string, session.SessionData>>((resolve, reject) =>
+      this.sessionStore.all!((err, sessions) =>
+        err ? reject(err) : resolve((sessions ?? {}) as Record<string, session.SessionData>),
+      ),
+    );
+    return Object.entries(all)
+      .filter(([, data]) => data.passport?.user === userId)
+      .map(([sessionId]) => sessionId);
+  }
+
+  async setBlock(userId: number, blockedUserId: number, type: BlockType): Promise<Block> {
+    const key = `${userId}:${blockedUserId}`;
+    const block: Block = {
+      userId,
+      blockedUserId,
+      type,
+      createdAt: this.blocks.get(key)?.createdAt ?? new Date(),
+    };
+    this.blocks.set(key, block);
+    return block;
+  }
+
+  async removeBlock(userId: number, blockedUserId: number): Promise<boolean> {
+    return this.blocks.delete(`${userId}:${blockedUserId}`);
+  }
+
+  async getBlocks(userId: number): Promise<Block[]> {
+    return Array.from(this.blocks.values())
+      .filter((block) => block.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getBlockerIds(userId: number): Promise<number[]> {
+    return Array.from(this.blocks.values())
+      .filter((block) => block.blockedUserId === userId && block.type === "block")
+      .map((block) => block.userId);
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const created: Report = {
+      messageId: null,
+      details: null,
+      status: "open",
+      resolution: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      moderatorNote: null,
+      ...report,
+      id: this.currentReportId++,
+      createdAt: new Date(),
+    };
+    this.reports.set(created.id, created);
+    return created;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    return this.reports.get(id);
+  }
+
+  async findOpenReport(
+    reporterId: number,
+    reportedUserId: number,
+    messageId: number | null,
+  ): Promise<Report | undefined> {
+    return Array.from(this.reports.values()).find(
+      (report) =>
+        report.status === "open" &&
+        report.reporterId === reporterId &&
+        report.reportedUserId === reportedUserId &&
+        report.messageId === messageId,
+    );
+  }
+
+  async getReports({ status, reason, userId, before, limit }: ReportQuery): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter((report) => status === undefined || report.status === status)
+      .filter((report) => reason === undefined || report.reason === reason)
+      .filter((report) => userId === undefined || report.reportedUserId === userId)
+      .filter((report) => before === undefined || report.id < before)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async resolveReport(
+    id: number,
+    resolution: Pick<Report, "resolution" | "resolvedBy" | "moderatorNote">,
+  ): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (report?.status !== "open") return undefined;
+    Object.assign(report, resolution, { status: "resolved", resolvedAt: new Date() });
+    return report;
+  }
+
+  async recordModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const recorded: ModerationAction = {
+      moderatorId: null,
+      reportId: null,
+      until: null,
+      ...action,
+      id: this.moderationActions.length + 1,
+      createdAt: new Date(),
+    };
+    this.moderationActions.push(recorded);
+    return recorded;
+  }
+
+  async getModerationActions(userId: number): Promise<ModerationAction[]> {
+    return this.moderationActions.filter((action) => action.userId === userId).reverse();
+  }
+
+  async recordAuthEvent(event: InsertAuthEvent): Promise<AuthEvent> {
+    const authEvent: AuthEvent = {
+      userId: null,
+      userAgent: null,
+      ...event,
+      id: this.currentAuthEventId++,
+      createdAt: new Date(),
+    };
+    this.authEvents.push(authEvent);
+    return authEvent;
+  }
+
+  async deleteAuthEvent(id: number): Promise<void> {
+    this.authEvents = this.authEvents.filter((event) => event.id !== id);
+  }
+
+  async getRecentAuthEvents(
+    filter: { username: string } | { ip: string },
+    since: Date,
+  ): Promise<AuthEvent[]> {
+    return this.authEvents
+      .filter(
+        (event) =>
+          event.createdAt >= since &&
+          ("username" in filter ? event.username === filter.username : event.ip === filter.ip),
+      )
+      .reverse();
+  }
+
+  async updateUserPassword(userId: number, password: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) user.password = password;
+  }
+
+  async createPasswordResetToken(
+    userId: number,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    this.passwordResetTokens.set(userId, { tokenHash, expiresAt });
+  }
+
+  async findPasswordResetToken(tokenHash: string): Promise<number | undefined> {
+    for (const [userId, token] of Array.from(this.passwordResetTokens)) {
+      if (token.tokenHash === tokenHash && token.expiresAt.getTime() > Date.now()) {
+        return userId;
+      }
+    }
+    return undefined;
+  }
+
+  async usePasswordResetToken(tokenHash: string): Promise<number | undefined> {
+    for (const [userId, token] of Array.from(this.passwordResetTokens)) {
+      if (token.tokenHash !== tokenHash) continue;
+      this.passwordResetTokens.delete(userId);
+      return token.expiresAt.getTime() > Date.now() ? userId : undefined;
+    }
+    return undefined;
+  }
+
   async storeVerificationCode(userId: number, code: string): Promise<void> {
     const user = await this.getUser(userId);
     if (user) {
       const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes expiry
-      this.verificationCodes.set(user.username, { code, expiresAt });
+      this.verificationCodes.set(user.username, { code, expiresAt, attempts: 0 });
     }
   }
 
@@ -114,8 +1183,1054 @@ export class MemStorage implements IStorage {
       return true;
     }
 
+    if (++storedData.attempts >= MAX_CODE_ATTEMPTS) {
+      this.verificationCodes.delete(username);
+    }
     return false;
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export class DatabaseStorage implements IStorage {
+  constructor(
+    private db: Database,
+    public sessionStore: Store,
+  ) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, lastSeen: new Date() })
+      .returning();
+    return user;
+  }
+
+  async getIdentityKey(userId: number): Promise<IdentityKey | undefined> {
+    const [identityKey] = await this.db
+      .select()
+      .from(identityKeys)
+      .where(eq(identityKeys.userId, userId));
+    return identityKey;
+  }
+
+  async setIdentityKey(userId: number, publicKey: string): Promise<IdentityKey> {
+    return this.db.transaction(async (tx) => {
+      const [changed] = await tx
+        .insert(identityKeys)
+        .values({ userId, publicKey })
+        .onConflictDoUpdate({
+          target: identityKeys.userId,
+          set: { publicKey, createdAt: new Date() },
+          where: ne(identityKeys.publicKey, publicKey),
+        })
+        .returning();
+      if (!changed) {
+        const [existing] = await tx
+          .select()
+          .from(identityKeys)
+          .where(eq(identityKeys.userId, userId));
+        return existing;
+      }
+
+      await tx
+        .update(deviceKeys)
+        .set({ signature: null })
+        .where(eq(deviceKeys.userId, userId));
+      return changed;
+    });
+  }
+
+  async setDeviceKey(
+    userId: number,
+    deviceId: string,
+    publicKey: string,
+    signature?: string | null,
+  ): Promise<DeviceKey> {
+    // Re-registering the same key leaves the row, and its createdAt, alone
+    const [changed] = await this.db
+      .insert(deviceKeys)
+      .values({ userId, deviceId, publicKey, signature: signature ?? null })
+      .onConflictDoUpdate({
+        target: [deviceKeys.userId, deviceKeys.deviceId],
+        set: { publicKey, signature: signature ?? null, createdAt: new Date() },
+        where: ne(deviceKeys.publicKey, publicKey),
+      })
+      .returning();
+    if (changed) return changed;
+
+    const device = and(eq(deviceKeys.userId, userId), eq(deviceKeys.deviceId, deviceId));
+    if (signature !== undefined) {
+      const [signed] = await this.db
+        .update(deviceKeys)
+        .set({ signature })
+        .where(device)
+        .returning();
+      return signed;
+    }
+    const [existing] = await this.db.select().from(deviceKeys).where(device);
+    return existing;
+  }
+
+  async signDeviceKey(
+    userId: number,
+    deviceId: string,
+    signature: string,
+  ): Promise<DeviceKey | undefined> {
+    const [deviceKey] = await this.db
+      .update(deviceKeys)
+      .set({ signature })
+      .where(and(eq(deviceKeys.userId, userId), eq(deviceKeys.deviceId, deviceId)))
+      .returning();
+    return deviceKey;
+  }
+
+  async getDeviceKeys(userId: number): Promise<DeviceKey[]> {
+    return this.db.select().from(deviceKeys).where(eq(deviceKeys.userId, userId));
+  }
+
+  async createConversation(
+    insertConversation: InsertConversation,
+    memberIds: number[],
+  ): Promise<Conversation> {
+    return this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values(insertConversation)
+        .returning();
+      if (memberIds.length) {
+        await tx.insert(conversationMembers).values(
+          Array.from(new Set(memberIds), (userId) => ({
+            conversationId: conversation.id,
+            userId,
+          })),
+        );
+      }
+      return conversation;
+    });
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getDirectConversation(userId: number, peerId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.directKey, directKey(userId, peerId)));
+    return conversation;
+  }
+
+  async getUserConversations(userId: number): Promise<Conversation[]> {
+    const rows = await this.db
+      .select({ conversation: conversations })
+      .from(conversationMembers)
+      .innerJoin(conversations, eq(conversations.id, conversationMembers.conversationId))
+      .where(eq(conversationMembers.userId, userId));
+    return rows.map((row) => row.conversation);
+  }
+
+  async getJoinableConversations(userId: number): Promise<Conversation[]> {
+    const memberOf = this.db
+      .select({ id: conversationMembers.conversationId })
+      .from(conversationMembers)
+      .where(eq(conversationMembers.userId, userId));
+    const bannedFrom = this.db
+      .select({ id: conversationBans.conversationId })
+      .from(conversationBans)
+      .where(eq(conversationBans.userId, userId));
+    return this.db
+      .select()
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.type, "group"),
+          notInArray(conversations.id, memberOf),
+          notInArray(conversations.id, bannedFrom),
+        ),
+      );
+  }
+
+  async getConversationMembers(conversationId: number): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(conversationMembers)
+      .innerJoin(users, eq(users.id, conversationMembers.userId))
+      .where(eq(conversationMembers.conversationId, conversationId));
+    return rows.map((row) => row.user);
+  }
+
+  async isConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    const [member] = await this.db
+      .select()
+      .from(conversationMembers)
+      .where(
+        and(
+          eq(conversationMembers.conversationId, conversationId),
+          eq(conversationMembers.userId, userId),
+        ),
+      );
+    return !!member;
+  }
+
+  async addConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const added = await tx
+        .insert(conversationMembers)
+        .values({ conversationId, userId })
+        .onConflictDoNothing()
+        .returning();
+      if (!added.length) return false;
+      await tx
+        .update(conversations)
+        .set({ epoch: sql`${conversations.epoch} + 1` })
+        .where(eq(conversations.id, conversationId));
+      return true;
+    });
+  }
+
+  async removeConversationMember(conversationId: number, userId: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(conversationMembers)
+        .where(
+          and(
+            eq(conversationMembers.conversationId, conversationId),
+            eq(conversationMembers.userId, userId),
+          ),
+        )
+        .returning();
+      if (!removed.length) return false;
+      await tx
+        .update(conversations)
+        .set({ epoch: sql`${conversations.epoch} + 1` })
+        .where(eq(conversations.id, conversationId));
+      return true;
+    });
+  }
+
+  async banConversationMember(
+    conversationId: number,
+    userId: number,
+    bannedBy: number,
+  ): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(conversationMembers)
+        .where(
+          and(
+            eq(conversationMembers.conversationId, conversationId),
+            eq(conversationMembers.userId, userId),
+          ),
+        )
+        .returning();
+      if (!removed.length) return false;
+      await tx
+        .insert(conversationBans)
+        .values({ conversationId, userId, bannedBy })
+        .onConflictDoNothing();
+      await tx
+        .update(conversations)
+        .set({ epoch: sql`${conversations.epoch} + 1` })
+        .where(eq(conversations.id, conversationId));
+      return true;
+    });
+  }
+
+  async isBannedFromConversation(conversationId: number, userId: number): Promise<boolean> {
+    const [ban] = await this.db
+      .select()
+      .from(conversationBans)
+      .where(
+        and(
+          eq(conversationBans.conversationId, conversationId),
+          eq(conversationBans.userId, userId),
+        ),
+      );
+    return !!ban;
+  }
+
+  async setDisappearingTimer(
+    conversationId: number,
+    seconds: number,
+  ): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ disappearAfter: seconds })
+      .where(eq(conversations.id, conversationId))
+      .returning();
+    return conversation;
+  }
+
+  async createSenderKey(
+    insertSenderKey: Omit<SenderKey, "createdAt">,
+    distributions: WrappedKey[],
+  ): Promise<SenderKey> {
+    return this.db.transaction(async (tx) => {
+      const [senderKey] = await tx.insert(senderKeys).values(insertSenderKey).returning();
+      await tx
+        .insert(senderKeyDistributions)
+        .values(distributions.map((distribution) => ({ ...distribution, keyId: senderKey.keyId })));
+      return senderKey;
+    });
+  }
+
+  async getSenderKey(keyId: string): Promise<SenderKey | undefined> {
+    const [senderKey] = await this.db.select().from(senderKeys).where(eq(senderKeys.keyId, keyId));
+    return senderKey;
+  }
+
+  async getSenderKeyForDevice(
+    keyId: string,
+    userId: number,
+    deviceId: string,
+  ): Promise<SenderKeyForDevice | undefined> {
+    const [row] = await this.db
+      .select({
+        senderKey: senderKeys,
+        iv: senderKeyDistributions.iv,
+        wrappedKey: senderKeyDistributions.wrappedKey,
+      })
+      .from(senderKeyDistributions)
+      .innerJoin(senderKeys, eq(senderKeys.keyId, senderKeyDistributions.keyId))
+      .where(
+        and(
+          eq(senderKeyDistributions.keyId, keyId),
+          eq(senderKeyDistributions.userId, userId),
+          eq(senderKeyDistributions.deviceId, deviceId),
+        ),
+      );
+    return row && { ...row.senderKey, iv: row.iv, wrappedKey: row.wrappedKey };
+  }
+
+  async getLastMessages(
+    conversationIds: number[],
+    hiddenSenderIds: number[] = [],
+  ): Promise<Message[]> {
+    if (!conversationIds.length) return [];
+    return this.db
+      .selectDistinctOn([messages.conversationId])
+      .from(messages)
+      .where(
+        and(
+          inArray(messages.conversationId, conversationIds),
+          notExpired(),
+          notFrom(hiddenSenderIds),
+        ),
+      )
+      .orderBy(messages.conversationId, desc(messages.id));
+  }
+
+  async getConversationMessages(
+    conversationId: number,
+    { before, limit }: MessagePageQuery,
+    hiddenSenderIds: number[] = [],
+  ): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          notExpired(),
+          notFrom(hiddenSenderIds),
+          before ? lt(messages.id, before) : undefined,
+        ),
+      )
+      .orderBy(desc(messages.id))
+      .limit(limit);
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [newMessage] = await this.db
+      .insert(messages)
+      .values({
+        content: message.content,
+        senderId: message.senderId ?? null,
+        conversationId: message.conversationId,
+        envelope: message.envelope ?? null,
+        imageUrl: message.imageUrl ?? null,
+        expiresAt: message.expiresAt ?? null,
+      })
+      .returning();
+    return newMessage;
+  }
+
+  async deleteExpiredMessages(now: Date): Promise<Message[]> {
+    return this.db.transaction(async (tx) => {
+      // Receipts go with their message through the foreign key
+      const expired = await tx.delete(messages).where(lt(messages.expiresAt, now)).returning();
+      if (!expired.length) return expired;
+      await tx.delete(userEvents).where(
+        inArray(
+          userEvents.messageId,
+          expired.map((message) => message.id),
+        ),
+      );
+      return expired;
+    });
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async editMessage(id: number, edit: EditMessage): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, id)).for("update");
+      if (!message) return undefined;
+      const [edited] = await tx
+        .insert(messageEdits)
+        .values({ messageId: id, content: message.content, envelope: message.envelope })
+        .returning();
+      const [updated] = await tx
+        .update(messages)
+        .set({ content: edit.content, envelope: edit.envelope, editedAt: edited.editedAt })
+        .where(eq(messages.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteMessage(id: number): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [tombstone] = await tx
+        .update(messages)
+        .set({
+          content: "",
+          envelope: null,
+          imageUrl: null,
+          editedAt: null,
+          deletedAt: new Date(),
+        })
+        .where(eq(messages.id, id))
+        .returning();
+      if (!tombstone) return undefined;
+      await tx.delete(messageEdits).where(eq(messageEdits.messageId, id));
+      await tx.update(attachments).set({ messageId: null }).where(eq(attachments.messageId, id));
+      await tx.delete(userEvents).where(eq(userEvents.messageId, id));
+      return tombstone;
+    });
+  }
+
+  async createImage(insertImage: InsertImage): Promise<Image> {
+    const [image] = await this.db.insert(images).values(insertImage).returning();
+    return image;
+  }
+
+  async getImage(id: string): Promise<Image | undefined> {
+    const [image] = await this.db.select().from(images).where(eq(images.id, id));
+    return image;
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    await this.db.delete(images).where(eq(images.id, id));
+  }
+
+  async isImageShown(imageUrl: string): Promise<boolean> {
+    const [shown] = await this.db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(eq(messages.imageUrl, imageUrl))
+      .limit(1);
+    return !!shown;
+  }
+
+  async deleteUnsentImages(before: Date): Promise<Image[]> {
+    return this.db
+      .delete(images)
+      .where(
+        and(
+          lt(images.createdAt, before),
+          notExists(
+            this.db
+              .select({ id: messages.id })
+              .from(messages)
+              .where(eq(messages.imageUrl, sql`'/api/images/' || ${images.id}`)),
+          ),
+        ),
+      )
+      .returning();
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await this.db.insert(attachments).values(insertAttachment).returning();
+    return attachment;
+  }
+
+  async getAttachments(ids: string[]): Promise<Attachment[]> {
+    if (!ids.length) return [];
+    return this.db.select().from(attachments).where(inArray(attachments.id, ids));
+  }
+
+  async setAttachmentStatus(
+    id: string,
+    status: AttachmentStatus,
+  ): Promise<Attachment | undefined> {
+    const [attachment] = await this.db
+      .update(attachments)
+      .set({ status })
+      .where(eq(attachments.id, id))
+      .returning();
+    return attachment;
+  }
+
+  async attachToMessage(ids: string[], messageId: number): Promise<Attachment[]> {
+    if (!ids.length) return [];
+    return this.db
+      .update(attachments)
+      .set({ messageId })
+      .where(inArray(attachments.id, ids))
+      .returning();
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    if (!messageIds.length) return [];
+    return this.db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds));
+  }
+
+  async deleteUnsentAttachments(before: Date): Promise<Attachment[]> {
+    return this.db
+      .delete(attachments)
+      .where(and(isNull(attachments.messageId), lt(attachments.createdAt, before)))
+      .returning();
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return this.db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(messageEdits.id);
+  }
+
+  async getMessagesByIds(ids: number[]): Promise<Message[]> {
+    if (!ids.length) return [];
+    return this.db.select().from(messages).where(inArray(messages.id, ids));
+  }
+
+  async getReceipts(messageIds: number[]): Promise<MessageReceipt[]> {
+    if (!messageIds.length) return [];
+    return this.db
+      .select()
+      .from(messageReceipts)
+      .where(inArray(messageReceipts.messageId, messageIds));
+  }
+
+  async markDelivered(userId: number, messageIds: number[]): Promise<MessageReceipt[]> {
+    if (!messageIds.length) return [];
+    const now = new Date();
+    // The conditional update means untouched rows are not returned
+    return this.db
+      .insert(messageReceipts)
+      .values(
+        Array.from(new Set(messageIds), (messageId) => ({
+          messageId,
+          userId,
+          deliveredAt: now,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [messageReceipts.messageId, messageReceipts.userId],
+        set: { deliveredAt: now },
+        where: isNull(messageReceipts.deliveredAt),
+      })
+      .returning();
+  }
+
+  async markRead(userId: number, messageIds: number[]): Promise<MessageReceipt[]> {
+    if (!messageIds.length) return [];
+    const now = new Date();
+    return this.db
+      .insert(messageReceipts)
+      .values(
+        Array.from(new Set(messageIds), (messageId) => ({
+          messageId,
+          userId,
+          deliveredAt: now,
+          readAt: now,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [messageReceipts.messageId, messageReceipts.userId],
+        set: {
+          deliveredAt: sql`coalesce(${messageReceipts.deliveredAt}, ${now})`,
+          readAt: now,
+        },
+        where: isNull(messageReceipts.readAt),
+      })
+      .returning();
+  }
+
+  async appendEvent(userId: number | null, payload: unknown): Promise<UserEvent> {
+    const [event] = await this.db
+      .insert(userEvents)
+      .values({ userId, payload, messageId: loggedMessageId(payload) ?? null })
+      .returning();
+    return event;
+  }
+
+  async getEventsSince(userId: number, cursor: number, limit: number): Promise<UserEvent[]> {
+    return this.db
+      .select()
+      .from(userEvents)
+      .where(
+        and(
+          gt(userEvents.id, cursor),
+          or(isNull(userEvents.userId), eq(userEvents.userId, userId)),
+        ),
+      )
+      .orderBy(userEvents.id)
+      .limit(limit);
+  }
+
+  async getLatestEventId(): Promise<number> {
+    const [row] = await this.db.select({ id: max(userEvents.id) }).from(userEvents);
+    return row?.id ?? 0;
+  }
+
+  async pruneEvents(before: Date): Promise<void> {
+    await this.db.delete(userEvents).where(lt(userEvents.createdAt, before));
+  }
+
+  async getUsers(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async setUserOnlineStatus(userId: number, isOnline: boolean): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ isOnline, lastSeen: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  async clearOnlineStatus(): Promise<void> {
+    await this.db.update(users).set({ isOnline: false }).where(eq(users.isOnline, true));
+  }
+
+  async setUserVerified(userId: number): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ isVerified: true })
+      .where(eq(users.id, userId));
+  }
+
+  async setUserAdmin(userId: number): Promise<void> {
+    await this.db.update(users).set({ isAdmin: true }).where(eq(users.id, userId));
+  }
+
+  async setUserSuspension(
+    userId: number,
+    suspension: Pick<User, "suspendedAt" | "suspendedUntil">,
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(suspension)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getTotpCredential(userId: number): Promise<TotpCredential | undefined> {
+    const [credential] = await this.db
+      .select()
+      .from(totpCredentials)
+      .where(eq(totpCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveTotpCredential(userId: number, secret: string): Promise<TotpCredential> {
+    const [credential] = await this.db
+      .insert(totpCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: totpCredentials.userId,
+        set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  async confirmTotpCredential(userId: number, step: number): Promise<boolean> {
+    return this.updateTotpStep(userId, step, { confirmedAt: new Date() });
+  }
+
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    return this.updateTotpStep(userId, step, {});
+  }
+
+  // A single conditional update, so two requests can't both spend one code
+  private async updateTotpStep(
+    userId: number,
+    step: number,
+    changes: Partial<TotpCredential>,
+  ): Promise<boolean> {
+    const updated = await this.db
+      .update(totpCredentials)
+      .set({ ...changes, lastUsedStep: step })
+      .where(
+        and(
+          eq(totpCredentials.userId, userId),
+          or(isNull(totpCredentials.lastUsedStep), lt(totpCredentials.lastUsedStep, step)),
+        ),
+      )
+      .returning();
+    return updated.length > 0;
+  }
+
+  async deleteTotpCredential(userId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.delete(totpCredentials).where(eq(totpCredentials.userId, userId));
+    });
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await this.db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt),
+        ),
+      )
+      .returning();
+    return used.length > 0;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const unused = await this.db
+      .select({ id: recoveryCodes.id })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return unused.length;
+  }
+
+  async createPasskey(insertPasskey: InsertPasskey): Promise<Passkey> {
+    const [passkey] = await this.db.insert(passkeys).values(insertPasskey).returning();
+    return passkey;
+  }
+
+  async getPasskey(id: string): Promise<Passkey | undefined> {
+    const [passkey] = await this.db.select().from(passkeys).where(eq(passkeys.id, id));
+    return passkey;
+  }
+
+  async getUserPasskeys(userId: number): Promise<Passkey[]> {
+    return this.db
+      .select()
+      .from(passkeys)
+      .where(eq(passkeys.userId, userId))
+      .orderBy(passkeys.createdAt);
+  }
+
+  async updatePasskey(
+    id: string,
+    changes: Partial<Pick<Passkey, "name" | "counter" | "lastUsedAt">>,
+  ): Promise<Passkey | undefined> {
+    const [passkey] = await this.db
+      .update(passkeys)
+      .set(changes)
+      .where(eq(passkeys.id, id))
+      .returning();
+    return passkey;
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.db.delete(passkeys).where(eq(passkeys.id, id));
+  }
+
+  async saveUserSession(
+    session: Pick<InsertUserSession, "sessionId" | "userId" | "userAgent" | "ip">,
+  ): Promise<UserSession> {
+    const [userSession] = await this.db
+      .insert(userSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: userSessions.sessionId,
+        set: { userAgent: session.userAgent ?? null, ip: session.ip, lastActiveAt: new Date() },
+      })
+      .returning();
+    return userSession;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return this.db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastActiveAt));
+  }
+
+  async deleteUserSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+    await this.db.delete(userSessions).where(inArray(userSessions.sessionId, sessionIds));
+  }
+
+  async getStoredSessionIds(userId: number): Promise<string[]> {
+    const rows = await this.db
+      .select({ sid: sessions.sid })
+      .from(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          gt(sessions.expire, new Date()),
+        ),
+      );
+    return rows.map((row) => row.sid);
+  }
+
+  async setBlock(userId: number, blockedUserId: number, type: BlockType): Promise<Block> {
+    const [block] = await this.db
+      .insert(blocks)
+      .values({ userId, blockedUserId, type })
+      .onConflictDoUpdate({ target: [blocks.userId, blocks.blockedUserId], set: { type } })
+      .returning();
+    return block;
+  }
+
+  async removeBlock(userId: number, blockedUserId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(blocks)
+      .where(and(eq(blocks.userId, userId), eq(blocks.blockedUserId, blockedUserId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async getBlocks(userId: number): Promise<Block[]> {
+    return this.db
+      .select()
+      .from(blocks)
+      .where(eq(blocks.userId, userId))
+      .orderBy(desc(blocks.createdAt));
+  }
+
+  async getBlockerIds(userId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ userId: blocks.userId })
+      .from(blocks)
+      .where(and(eq(blocks.blockedUserId, userId), eq(blocks.type, "block")));
+    return rows.map((row) => row.userId);
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const [created] = await this.db.insert(reports).values(report).returning();
+    return created;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
+
+  async findOpenReport(
+    reporterId: number,
+    reportedUserId: number,
+    messageId: number | null,
+  ): Promise<Report | undefined> {
+    const [report] = await this.db
+      .select()
+      .from(reports)
+      .where(
+        and(
+          eq(reports.status, "open"),
+          eq(reports.reporterId, reporterId),
+          eq(reports.reportedUserId, reportedUserId),
+          messageId === null ? isNull(reports.messageId) : eq(reports.messageId, messageId),
+        ),
+      );
+    return report;
+  }
+
+  async getReports({ status, reason, userId, before, limit }: ReportQuery): Promise<Report[]> {
+    return this.db
+      .select()
+      .from(reports)
+      .where(
+        and(
+          status ? eq(reports.status, status) : undefined,
+          reason ? eq(reports.reason, reason) : undefined,
+          userId ? eq(reports.reportedUserId, userId) : undefined,
+          before ? lt(reports.id, before) : undefined,
+        ),
+      )
+      .orderBy(desc(reports.id))
+      .limit(limit);
+  }
+
+  async resolveReport(
+    id: number,
+    resolution: Pick<Report, "resolution" | "resolvedBy" | "moderatorNote">,
+  ): Promise<Report | undefined> {
+    const [report] = await this.db
+      .update(reports)
+      .set({ ...resolution, status: "resolved", resolvedAt: new Date() })
+      .where(and(eq(reports.id, id), eq(reports.status, "open")))
+      .returning();
+    return report;
+  }
+
+  async recordModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const [recorded] = await this.db.insert(moderationActions).values(action).returning();
+    return recorded;
+  }
+
+  async getModerationActions(userId: number): Promise<ModerationAction[]> {
+    return this.db
+      .select()
+      .from(moderationActions)
+      .where(eq(moderationActions.userId, userId))
+      .orderBy(desc(moderationActions.id));
+  }
+
+  async recordAuthEvent(event: InsertAuthEvent): Promise<AuthEvent> {
+    const [authEvent] = await this.db.insert(authEvents).values(event).returning();
+    return authEvent;
+  }
+
+  async deleteAuthEvent(id: number): Promise<void> {
+    await this.db.delete(authEvents).where(eq(authEvents.id, id));
+  }
+
+  async getRecentAuthEvents(
+    filter: { username: string } | { ip: string },
+    since: Date,
+  ): Promise<AuthEvent[]> {
+    return this.db
+      .select()
+      .from(authEvents)
+      .where(
+        and(
+          "username" in filter
+            ? eq(authEvents.username, filter.username)
+            : eq(authEvents.ip, filter.ip),
+          gte(authEvents.createdAt, since),
+        ),
+      )
+      .orderBy(desc(authEvents.id));
+  }
+
+  async updateUserPassword(userId: number, password: string): Promise<void> {
+    await this.db.update(users).set({ password }).where(eq(users.id, userId));
+  }
+
+  async createPasswordResetToken(
+    userId: number,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+      await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+    });
+  }
+
+  async findPasswordResetToken(tokenHash: string): Promise<number | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ),
+      );
+    return token?.userId;
+  }
+
+  async usePasswordResetToken(tokenHash: string): Promise<number | undefined> {
+    const [token] = await this.db
+      .delete(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash))
+      .returning();
+    if (!token) return undefined;
+    await this.db
+      .delete(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, token.userId));
+    return token.expiresAt > new Date() ? token.userId : undefined;
+  }
+
+  async storeVerificationCode(userId: number, code: string): Promise<void> {
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes expiry
+    // Only the most recent code is valid, matching MemStorage
+    await this.db
+      .delete(verificationCodes)
+      .where(eq(verificationCodes.userId, userId));
+    await this.db.insert(verificationCodes).values({ userId, code, expiresAt });
+  }
+
+  async verifyCode(username: string, code: string): Promise<boolean> {
+    const user = await this.getUserByUsername(username);
+    if (!user) return false;
+
+    // Every guess uses up an attempt before it is compared, so parallel
+    // guesses can't get past the cap
+    const [stored] = await this.db
+      .update(verificationCodes)
+      .set({ attempts: sql`${verificationCodes.attempts} + 1` })
+      .where(
+        and(
+          eq(verificationCodes.userId, user.id),
+          gt(verificationCodes.expiresAt, new Date()),
+          lt(verificationCodes.attempts, MAX_CODE_ATTEMPTS),
+        ),
+      )
+      .returning();
+    if (!stored || stored.code !== code) return false;
+
+    await this.db
+      .delete(verificationCodes)
+      .where(eq(verificationCodes.userId, user.id));
+    return true;
+  }
+}
+
+// Postgres when DATABASE_URL is configured; STORAGE=memory forces the
+// in-memory implementation (useful for tests and throwaway dev servers).
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl || process.env.STORAGE === "memory") {
+    return new MemStorage();
+  }
+
+  const { db, pool } = createDatabase(databaseUrl);
+  const sessionStore = new PostgresSessionStore({
+    pool,
+    tableName: "sessions",
+    createTableIfMissing: true,
+    pruneSessionInterval: 15 * 60, // seconds
+  });
+  return new DatabaseStorage(db, sessionStore);
+}
+
+export const storage = createStorage();
\ No newline at end of file
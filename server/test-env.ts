@@ -0,0 +1,4 @@
+// Settings the server modules read as they load, so test files import this
+// before anything else
+process.env.STORAGE = "memory";
+process.env.REPL_ID = "test-secret";
@@ -0,0 +1,219 @@
+import "./test-env";
+import "express-async-errors";
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { Server } from "http";
+import { createRequire } from "module";
+import type { AddressInfo } from "net";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { WebSocket } from "ws";
+import { PROTOCOL_VERSION, type ServerFrame, type ServerFrameOf } from "@shared/protocol";
+import * as schema from "@shared/schema";
+import type { User } from "@shared/schema";
+import { hashPassword } from "./auth";
+import type { Database } from "./db";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+export const PASSWORD = "correct horse battery staple";
+
+// Sockets still open when the server stops, which would keep it from closing
+const openSockets = new Set<WebSocket>();
+
+// The API as server/index.ts serves it, minus the client, on a free port
+export async function startServer() {
+  const app = express();
+  app.use(express.json());
+  const server = registerRoutes(app);
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || err.statusCode || 500).json({ message: err.message });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+export async function stopServer(server: Server) {
+  openSockets.forEach((ws) => ws.terminate());
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+}
+
+// A verified account that signs in with PASSWORD
+export async function createUser(username: string) {
+  const user = await storage.createUser({ username, password: await hashPassword(PASSWORD) });
+  await storage.setUserVerified(user.id);
+  return (await storage.getUser(user.id))!;
+}
+
+// A fresh Postgres in memory with the current schema, as db:push would
+// leave it. drizzle-kit's ESM build can't load here, so its CommonJS one is used.
+export async function createTestDatabase(): Promise<Database> {
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+    "drizzle-kit/api",
+  ) as typeof import("drizzle-kit/api");
+  const client = new PGlite();
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) await client.exec(statement);
+  return drizzle(client, { schema });
+}
+
+// The one device each test user signs in from
+export const deviceOf = (user: User) => `device-${user.id}`;
+
+// A message as the sender's device seals it. The server can't open it, so
+// any well-formed ciphertext will do.
+export function sealed(from: User, to: User, content: string) {
+  const base64 = (text: string) => Buffer.from(text).toString("base64");
+  return {
+    content: base64(content),
+    envelope: {
+      v: 1,
+      senderDeviceId: deviceOf(from),
+      iv: base64("iv"),
+      keys: [
+        { userId: to.id, deviceId: deviceOf(to), iv: base64("iv"), wrappedKey: base64("key") },
+      ],
+    },
+  };
+}
+
+export interface TestResponse {
+  status: number;
+  text: string;
+  body: any;
+}
+
+// A browser of its own: requests carry the session cookie the server last set
+export class TestAgent {
+  cookie?: string;
+
+  constructor(readonly server: Server) {}
+
+  get origin() {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  // The store's id for the session behind the cookie
+  get sessionId() {
+    const signed = decodeURIComponent(this.cookie!.slice("connect.sid=".length));
+    return signed.slice("s:".length, signed.lastIndexOf("."));
+  }
+
+  async request(method: string, path: string, body?: unknown): Promise<TestResponse> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["content-type"] = "application/json";
+    if (this.cookie) headers.cookie = this.cookie;
+    const res = await fetch(`${this.origin}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const session = res.headers.getSetCookie().find((cookie) => cookie.startsWith("connect.sid="));
+    if (session) this.cookie = session.split(";")[0];
+    const text = await res.text();
+    let json;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = undefined;
+    }
+    return { status: res.status, text, body: json };
+  }
+
+  get(path: string) {
+    return this.request("GET", path);
+  }
+
+  post(path: string, body: unknown = {}) {
+    return this.request("POST", path, body);
+  }
+
+  delete(path: string) {
+    return this.request("DELETE", path);
+  }
+
+  // Opens the realtime socket on this agent's session
+  connect(deviceId = "device") {
+    return TestSocket.connect(this, deviceId);
+  }
+}
+
+// An agent signed in as the user with PASSWORD
+export async function signIn(server: Server, user: User) {
+  const agent = new TestAgent(server);
+  const res = await agent.post("/api/login", { username: user.username, password: PASSWORD });
+  if (res.status !== 200) throw new Error(`Sign-in failed: ${res.status} ${res.text}`);
+  return agent;
+}
+
+// A realtime socket, recording every frame it receives
+export class TestSocket {
+  frames: ServerFrame[] = [];
+  private waiters: Array<() => void> = [];
+  private closedWith: Promise<number>;
+
+  constructor(readonly ws: WebSocket) {
+    openSockets.add(ws);
+    ws.on("message", (data) => {
+      this.frames.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach((wake) => wake());
+    });
+    this.closedWith = new Promise((resolve) =>
+      ws.once("close", (code) => {
+        openSockets.delete(ws);
+        resolve(code);
+      }),
+    );
+  }
+
+  static async connect(agent: TestAgent, deviceId: string) {
+    const socket = new TestSocket(
+      new WebSocket(`${agent.origin.replace("http", "ws")}/ws`, {
+        headers: agent.cookie ? { cookie: agent.cookie } : {},
+      }),
+    );
+    await new Promise((resolve, reject) => socket.ws.once("open", resolve).once("error", reject));
+    socket.send({ type: "hello", versions: [PROTOCOL_VERSION], deviceId });
+    // The handshake is over once any missed events are replayed
+    await socket.next("presence");
+    return socket;
+  }
+
+  send(frame: object) {
+    this.ws.send(JSON.stringify(frame));
+  }
+
+  // Resolves with the first frame of the type not yet taken
+  async next<T extends ServerFrame["type"]>(type: T) {
+    for (;;) {
+      const index = this.frames.findIndex((frame) => frame.type === type);
+      if (index !== -1) return this.frames.splice(index, 1)[0] as ServerFrameOf<T>;
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`No ${type} frame`)), 2000);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  // Resolves with the close code once the server or the test closes it
+  closed() {
+    return new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("Socket still open")), 2000);
+      this.closedWith.then((code) => {
+        clearTimeout(timer);
+        resolve(code);
+      });
+    });
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
@@ -0,0 +1,107 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+// RFC 6238 with the parameters every authenticator app defaults to
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const DRIFT_STEPS = 1;
+const ISSUER = "Safe-massage";
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function toBase32(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function fromBase32(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    value = (value << 5) | BASE32.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+// A new 160-bit secret, base32 encoded as authenticator apps expect
+export function generateTotpSecret(): string {
+  return toBase32(randomBytes(20));
+}
+
+// What the enrolment QR code encodes
+export function totpUri(secret: string, username: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+function codeAt(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+  const hmac = createHmac("sha1", fromBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+// The code an authenticator app shows at the given time
+export function totpCode(secret: string, now = Date.now()): string {
+  return codeAt(secret, Math.floor(now / 1000 / STEP_SECONDS));
+}
+
+// The time step the code belongs to, or null when it matches none near now.
+// Callers reject steps at or before the last one used, so codes are single use.
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(codeAt(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+// No 0/O or 1/I/L, so codes survive being written down
+const RECOVERY_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+function recoveryCode(): string {
+  const chars = Array.from(
+    { length: 10 },
+    () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)],
+  );
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, recoveryCode);
+}
+
+// Recovery codes carry ~50 bits of randomness, so a plain hash is enough to
+// keep them unusable if the table leaks
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
@@ -0,0 +1,76 @@
+import net from "net";
+
+export type ScanResult = { clean: true } | { clean: false; signature: string };
+
+export interface VirusScanner {
+  scan(data: Buffer): Promise<ScanResult>;
+}
+
+// Passes everything; for development and deployments that scan elsewhere
+export class NoopScanner implements VirusScanner {
+  async scan(): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+const CLAMD_CHUNK_BYTES = 64 * 1024;
+const CLAMD_TIMEOUT_MS = 30000;
+
+// Streams the file to a clamd daemon with the INSTREAM command. `address` is
+// either a unix socket path or tcp://host:port.
+export class ClamdScanner implements VirusScanner {
+  constructor(private address: string) {}
+
+  private connect() {
+    const url = this.address.startsWith("tcp://") ? new URL(this.address) : undefined;
+    return url
+      ? net.createConnection({ host: url.hostname, port: Number(url.port || 3310) })
+      : net.createConnection({ path: this.address });
+  }
+
+  scan(data: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.connect();
+      const reply: Buffer[] = [];
+      socket.setTimeout(CLAMD_TIMEOUT_MS, () => {
+        socket.destroy(new Error("clamd did not answer in time"));
+      });
+      socket.on("error", reject);
+      socket.on("data", (chunk) => reply.push(chunk));
+      socket.on("end", () => {
+        // e.g. "stream: OK" or "stream: Eicar-Test-Signature FOUND"
+        const answer = Buffer.concat(reply).toString().replace(/\0/g, "").trim();
+        const found = answer.match(/^stream: (.+) FOUND$/);
+        if (answer === "stream: OK") resolve({ clean: true });
+        else if (found) resolve({ clean: false, signature: found[1] });
+        else reject(new Error(`Unexpected clamd reply "${answer}"`));
+      });
+
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        for (let offset = 0; offset < data.length; offset += CLAMD_CHUNK_BYTES) {
+          const chunk = data.subarray(offset, offset + CLAMD_CHUNK_BYTES);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+}
+
+// VIRUS_SCANNER selects the scanner: "none" (default) or "clamav", which
+// talks to clamd at CLAMAV_SOCKET (a socket path, or tcp://host:port).
+function createVirusScanner(): VirusScanner {
+  switch (process.env.VIRUS_SCANNER) {
+    case "clamav":
+      return new ClamdScanner(process.env.CLAMAV_SOCKET ?? "/var/run/clamav/clamd.ctl");
+    default:
+      return new NoopScanner();
+  }
+}
+
+export const virusScanner = createVirusScanner();
@@ -0,0 +1,165 @@
+import "./test-env";
+import { randomUUID } from "crypto";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { User } from "@shared/schema";
+import { directKey, storage } from "./storage";
+import {
+  createUser,
+  deviceOf,
+  sealed,
+  signIn,
+  startServer,
+  stopServer,
+} from "./test-helpers";
+
+let server: Server;
+let alice: User;
+let bob: User;
+let conversationId: number;
+
+// A socket on a fresh sign-in, from the user's one device
+async function connect(user: User) {
+  return (await signIn(server, user)).connect(deviceOf(user));
+}
+
+// Everything stored in alice and bob's conversation, newest first
+function storedMessages() {
+  return storage.getConversationMessages(conversationId, { limit: 100 });
+}
+
+before(async () => {
+  server = await startServer();
+  alice = await createUser("alice");
+  bob = await createUser("bob");
+  const conversation = await storage.createConversation(
+    { type: "direct", directKey: directKey(alice.id, bob.id), createdBy: alice.id },
+    [alice.id, bob.id],
+  );
+  conversationId = conversation.id;
+});
+
+after(() => stopServer(server));
+
+test("a message claiming another sender is refused and not stored", async () => {
+  const mallory = await connect(alice);
+  const victim = await connect(bob);
+  mallory.send({
+    type: "message",
+    clientId: "spoof",
+    conversationId,
+    ...sealed(alice, bob, "sent by bob, honest"),
+    senderId: bob.id,
+  });
+
+  const error = await mallory.next("error");
+  assert.equal(error.code, "SENDER_MISMATCH");
+  assert.deepEqual(await storedMessages(), []);
+  assert.equal(mallory.frames.some((frame) => frame.type === "ack"), false);
+  assert.equal(victim.frames.some((frame) => frame.type === "message"), false);
+  mallory.close();
+  victim.close();
+});
+
+test("a message without a senderId is stored and delivered as the socket's user", async () => {
+  const sender = await connect(alice);
+  const peer = await connect(bob);
+  const { content, envelope } = sealed(alice, bob, "hello bob");
+  sender.send({ type: "message", clientId: "m1", conversationId, content, envelope });
+
+  const ack = await sender.next("ack");
+  assert.equal(ack.message.senderId, alice.id);
+  const { message } = await peer.next("message");
+  assert.equal(message.senderId, alice.id);
+  assert.equal(message.content, content);
+  const stored = await storedMessages();
+  assert.deepEqual(
+    stored.map((message) => [message.senderId, message.content]),
+    [[alice.id, content]],
+  );
+  sender.close();
+  peer.close();
+});
+
+test("a typing frame claiming another user is refused and not relayed", async () => {
+  const mallory = await connect(alice);
+  const victim = await connect(bob);
+
+  mallory.send({ type: "typing", conversationId, isTyping: true, userId: bob.id });
+  assert.equal((await mallory.next("error")).code, "SENDER_MISMATCH");
+
+  // The honest frame after it is the only one bob hears, and it names alice
+  mallory.send({ type: "typing", conversationId, isTyping: true, userId: alice.id });
+  const typing = await victim.next("typing");
+  assert.equal(typing.userId, alice.id);
+  assert.equal(victim.frames.some((frame) => frame.type === "typing"), false);
+  mallory.close();
+  victim.close();
+});
+
+test("typing without a userId is attributed to the socket's user", async () => {
+  const sender = await connect(alice);
+  const peer = await connect(bob);
+
+  sender.send({ type: "typing", conversationId, isTyping: false });
+  const typing = await peer.next("typing");
+  assert.equal(typing.userId, alice.id);
+  assert.equal(typing.isTyping, false);
+  sender.close();
+  peer.close();
+});
+
+test("the online list is whoever has a socket open, not the stored flag", async () => {
+  const carol = await createUser("carol");
+  await storage.setUserOnlineStatus(carol.id, true);
+  const agent = await signIn(server, alice);
+
+  const onlineIds = async () =>
+    (await agent.get("/api/users/online")).body.map((user: { id: number }) => user.id);
+
+  // Signed in but not connected yet
+  assert.equal((await onlineIds()).includes(alice.id), false);
+  const socket = await agent.connect(deviceOf(alice));
+  const online = await onlineIds();
+  assert.equal(online.includes(alice.id), true);
+  assert.equal(online.includes(carol.id), false);
+  socket.close();
+});
+
+test("starting up clears online flags left from before a restart", async () => {
+  const dave = await createUser("dave");
+  await storage.setUserOnlineStatus(dave.id, true);
+
+  await stopServer(await startServer());
+  assert.equal((await storage.getUser(dave.id))!.isOnline, false);
+});
+
+test("a picture already on a message can't be sent again", async () => {
+  const image = await storage.createImage({
+    id: randomUUID(),
+    conversationId,
+    uploaderId: alice.id,
+    contentType: "image/png",
+    size: 1,
+    width: 1,
+    height: 1,
+  });
+  const sender = await connect(alice);
+  const send = (clientId: string) =>
+    sender.send({
+      type: "message",
+      clientId,
+      conversationId,
+      ...sealed(alice, bob, "a picture"),
+      imageUrl: `/api/images/${image.id}`,
+    });
+
+  send("first");
+  assert.equal((await sender.next("ack")).clientId, "first");
+  send("again");
+  const error = await sender.next("error");
+  assert.equal(error.code, "INVALID_FRAME");
+  assert.equal(error.clientId, "again");
+  sender.close();
+});
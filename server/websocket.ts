@@ -0,0 +1,606 @@
+import type { IncomingMessage, Server } from "http";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { fromZodError } from "zod-validation-error";
+import { getSessionFromRequest } from "./auth";
+import { storage } from "./storage";
+import { checkEnvelope } from "./encryption";
+import { discardImages, imageIdFromUrl, sweepImages } from "./images";
+import { sweepAttachments } from "./attachments";
+import { blockedIds, withoutBlockers } from "./blocks";
+import { isSuspended } from "./moderation";
+import {
+  clientFrameSchema,
+  negotiateVersion,
+  PROTOCOL_VERSIONS,
+  type ClientFrame,
+  type ErrorCode,
+  type ServerFrame,
+  type ServerFrameOf,
+} from "@shared/protocol";
+
+type WebSocketClient = WebSocket & {
+  userId?: number;
+  // The HTTP session the socket signed in with, so revoking it can close it
+  sessionId?: string;
+  deviceId?: string;
+  isAlive?: boolean;
+  protocolVersion?: number;
+  // Live frames held back while missed events are replayed, so the client
+  // sees everything in log order
+  replayBuffer?: ServerFrame[];
+  // Settles once every frame received so far has been handled; frames from
+  // one socket are handled one after another, in the order they were sent
+  handled?: Promise<void>;
+};
+
+// Frames written to the per-user event log and replayed after reconnects
+export type LoggedFrame =
+  | ServerFrameOf<"message">
+  | ServerFrameOf<"messageEdited">
+  | ServerFrameOf<"messageDeleted">
+  | ServerFrameOf<"receipt">
+  | ServerFrameOf<"membership">
+  | ServerFrameOf<"disappearingTimer">
+  | ServerFrameOf<"messageExpired">;
+
+// How long a socket may stay open without completing the hello handshake
+const HANDSHAKE_TIMEOUT_MS = 10 * 1000;
+// Beyond this many missed events the client reloads history instead
+const MAX_REPLAY_EVENTS = 500;
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const EVENT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// How long authors may edit or delete what they sent
+export const MESSAGE_EDIT_WINDOW_MS =
+  Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES ?? 15) * 60 * 1000;
+// How often disappearing messages and unsent attachments are looked for;
+// sets how late they may go
+const EXPIRY_SWEEP_INTERVAL_MS = 10 * 1000;
+
+function send(ws: WebSocketClient, frame: ServerFrame) {
+  if (ws.replayBuffer) {
+    ws.replayBuffer.push(frame);
+    return;
+  }
+  sendNow(ws, frame);
+}
+
+function sendNow(ws: WebSocket, frame: ServerFrame) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(frame));
+  }
+}
+
+function sendError(ws: WebSocketClient, code: ErrorCode, message: string, clientId?: string) {
+  send(ws, { type: "error", code, message, clientId });
+}
+
+// Messages are always attributed to the authenticated socket owner; the
+// client may echo its own id but never claim someone else's.
+function claimsOtherUser(claimedId: number | undefined, userId: number) {
+  return claimedId !== undefined && claimedId !== userId;
+}
+
+type ParseResult =
+  | { ok: true; frame: ClientFrame }
+  | { ok: false; error: string };
+
+function parseFrame(data: RawData): ParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    return { ok: false, error: "Frame is not valid JSON" };
+  }
+
+  const result = clientFrameSchema.safeParse(json);
+  if (!result.success) {
+    return { ok: false, error: fromZodError(result.error).message };
+  }
+  return { ok: true, frame: result.data };
+}
+
+export function setupWebSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+
+  // Every open, handshaken socket per user: one per tab or device
+  const connections = new Map<number, Set<WebSocketClient>>();
+
+  // Settles once every event logged so far has been sent. Events go out one
+  // at a time, in log order: clients only keep the highest seq they have
+  // seen, so one overtaken by a later event would be skipped for good.
+  let delivered = Promise.resolve();
+
+  // Nobody is connected to a server that has just started, whatever the
+  // stored flags say from before a restart
+  storage.clearOnlineStatus().catch(console.error);
+
+  // Heartbeat to keep track of connected clients
+  const interval = setInterval(() => {
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.isAlive === false) {
+        handleDisconnection(ws);
+        return ws.terminate();
+      }
+
+      ws.isAlive = false;
+      ws.ping();
+    });
+  }, 30000);
+
+  const pruneInterval = setInterval(() => {
+    storage
+      .pruneEvents(new Date(Date.now() - EVENT_RETENTION_MS))
+      .catch(console.error);
+  }, EVENT_PRUNE_INTERVAL_MS);
+
+  const expiryInterval = setInterval(() => {
+    sweepExpiredMessages()
+      .then(sweepAttachments)
+      .then(sweepImages)
+      .catch(console.error);
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+
+  wss.on("close", () => {
+    clearInterval(interval);
+    clearInterval(pruneInterval);
+    clearInterval(expiryInterval);
+  });
+  // Once the HTTP server has shut down nothing can reach the sockets' timers
+  httpServer.on("close", () => wss.close());
+
+  // Deletes messages whose timer ran out and tells each conversation's
+  // members, so every client drops them too
+  async function sweepExpiredMessages() {
+    const expired = await storage.deleteExpiredMessages(new Date());
+    await discardImages(expired);
+    const byConversation = new Map<number, number[]>();
+    expired.forEach((message) => {
+      const ids = byConversation.get(message.conversationId) ?? [];
+      ids.push(message.id);
+      byConversation.set(message.conversationId, ids);
+    });
+
+    for (const [conversationId, messageIds] of Array.from(byConversation)) {
+      const members = await storage.getConversationMembers(conversationId);
+      await publish(
+        members.map((member) => member.id),
+        { type: "messageExpired", conversationId, messageIds },
+      );
+    }
+  }
+
+  function addConnection(userId: number, ws: WebSocketClient) {
+    const sockets = connections.get(userId) ?? new Set();
+    sockets.add(ws);
+    connections.set(userId, sockets);
+    return sockets.size === 1;
+  }
+
+  // Returns true when this was the user's last connected device
+  function removeConnection(userId: number, ws: WebSocketClient) {
+    const sockets = connections.get(userId);
+    if (!sockets?.delete(ws)) return false;
+    if (sockets.size > 0) return false;
+    connections.delete(userId);
+    return true;
+  }
+
+  function handleDisconnection(ws: WebSocketClient) {
+    // Close, error and heartbeat can all report the same socket; only the
+    // first removal counts, and only the last device going offline is news.
+    if (ws.userId && removeConnection(ws.userId, ws)) {
+      storage.setUserOnlineStatus(ws.userId, false).catch(console.error);
+      broadcastUserStatus(ws.userId, false).catch(console.error);
+    }
+  }
+
+  wss.on("connection", (ws: WebSocketClient, req) => {
+    console.log("New WebSocket connection attempt");
+    ws.isAlive = true;
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
+
+    // Listeners are attached before authentication resolves so a hello sent
+    // immediately on open is not dropped; frames wait for the outcome.
+    const authenticated = authenticate(ws, req);
+
+    const handshakeTimeout = setTimeout(() => {
+      if (!ws.protocolVersion) ws.close(1008, "Handshake timeout");
+    }, HANDSHAKE_TIMEOUT_MS);
+
+    ws.on("message", (data) => {
+      ws.handled = (ws.handled ?? Promise.resolve())
+        .then(async () => {
+          const userId = await authenticated;
+          if (!userId) return;
+
+          const parsed = parseFrame(data);
+          if (!parsed.ok) {
+            sendError(ws, "INVALID_FRAME", parsed.error);
+            return;
+          }
+
+          try {
+            await handleFrame(ws, userId, parsed.frame);
+          } catch (error) {
+            console.error("Error processing message:", error);
+            sendError(ws, "MESSAGE_FAILED", "Failed to process message");
+          }
+        })
+        .catch(console.error);
+    });
+
+    ws.on("close", () => {
+      clearTimeout(handshakeTimeout);
+      handleDisconnection(ws);
+    });
+
+    ws.on("error", () => {
+      handleDisconnection(ws);
+    });
+  });
+
+  async function authenticate(
+    ws: WebSocketClient,
+    req: IncomingMessage,
+  ): Promise<number | null> {
+    // Sessions still waiting for a second factor have no passport user yet,
+    // so they are refused here along with anonymous ones
+    const session = await getSessionFromRequest(req);
+    if (!session?.data.passport?.user) {
+      console.log("No valid session for WebSocket connection");
+      ws.close(1008, "Invalid session");
+      return null;
+    }
+
+    const userId = session.data.passport.user;
+    const user = await storage.getUser(userId);
+    if (!user?.isVerified) {
+      console.log("Unverified user attempted WebSocket connection:", userId);
+      ws.close(1008, "Account not verified");
+      return null;
+    }
+    if (isSuspended(user)) {
+      ws.close(1008, "Account suspended");
+      return null;
+    }
+
+    console.log("WebSocket authenticated for user:", userId);
+    ws.userId = userId;
+    ws.sessionId = session.id;
+    return userId;
+  }
+
+  async function handleFrame(ws: WebSocketClient, userId: number, frame: ClientFrame) {
+    if (frame.type === "hello") {
+      if (ws.protocolVersion) {
+        sendError(ws, "INVALID_FRAME", "Handshake already completed");
+        return;
+      }
+
+      const version = negotiateVersion(frame.versions);
+      if (!version) {
+        sendError(
+          ws,
+          "UNSUPPORTED_VERSION",
+          `Server supports protocol versions ${PROTOCOL_VERSIONS.join(", ")}`,
+        );
+        ws.close(1002, "Unsupported protocol version");
+        return;
+      }
+
+      ws.protocolVersion = version;
+      ws.deviceId = frame.deviceId ?? randomUUID();
+      // A fresh client starts from the current end of the log. Registering
+      // before reading it means nothing falls between the replay and live
+      // delivery; live frames wait in the buffer meanwhile.
+      const cursor = frame.cursor ?? (await storage.getLatestEventId());
+      ws.replayBuffer = [];
+      const firstDevice = addConnection(userId, ws);
+      await resume(ws, userId, version, cursor);
+
+      if (firstDevice) {
+        // Set user as online
+        await storage.setUserOnlineStatus(userId, true);
+        await broadcastUserStatus(userId, true);
+      }
+      return;
+    }
+
+    if (!ws.protocolVersion) {
+      sendError(ws, "HANDSHAKE_REQUIRED", "Send a hello frame first");
+      return;
+    }
+    if (ws.replayBuffer) {
+      sendError(ws, "HANDSHAKE_REQUIRED", "Handshake still in progress");
+      return;
+    }
+
+    switch (frame.type) {
+      case "message": {
+        if (claimsOtherUser(frame.senderId, userId)) {
+          sendError(ws, "SENDER_MISMATCH", "senderId does not match the authenticated user");
+          return;
+        }
+
+        const members = await storage.getConversationMembers(frame.conversationId);
+        if (!members.some((member) => member.id === userId)) {
+          sendError(ws, "NOT_A_MEMBER", "Not a member of this conversation");
+          return;
+        }
+
+        const conversation = (await storage.getConversation(frame.conversationId))!;
+        const { envelope } = frame;
+        const problem = await checkEnvelope(
+          conversation,
+          members,
+          { userId, deviceId: ws.deviceId },
+          envelope,
+        );
+        if (problem) {
+          sendError(ws, problem.code, problem.message, frame.clientId);
+          return;
+        }
+
+        // Only pictures this user uploaded to this conversation can be
+        // attached, each to one message, so deleting it can't take the
+        // picture from another
+        if (frame.imageUrl) {
+          const imageId = imageIdFromUrl(frame.imageUrl);
+          const image = imageId && (await storage.getImage(imageId));
+          if (
+            !image ||
+            image.conversationId !== conversation.id ||
+            image.uploaderId !== userId ||
+            (await storage.isImageShown(frame.imageUrl))
+          ) {
+            sendError(ws, "INVALID_FRAME", "Unknown image", frame.clientId);
+            return;
+          }
+        }
+
+        // Files must be this user's uploads to this conversation that passed
+        // the scan and aren't on another message yet
+        const attachmentIds = Array.from(new Set(frame.attachmentIds ?? []));
+        const uploads = await storage.getAttachments(attachmentIds);
+        if (
+          uploads.length !== attachmentIds.length ||
+          uploads.some(
+            (upload) =>
+              upload.conversationId !== conversation.id ||
+              upload.uploaderId !== userId ||
+              upload.status !== "clean" ||
+              upload.messageId !== null,
+          )
+        ) {
+          sendError(ws, "INVALID_FRAME", "Unknown attachment", frame.clientId);
+          return;
+        }
+
+        const savedMessage = await storage.createMessage({
+          content: frame.content,
+          senderId: userId,
+          conversationId: frame.conversationId,
+          envelope,
+          imageUrl: frame.imageUrl,
+          expiresAt: conversation.disappearAfter
+            ? new Date(Date.now() + conversation.disappearAfter * 1000)
+            : null,
+        });
+
+        const attachments = await storage.attachToMessage(attachmentIds, savedMessage.id);
+
+        send(ws, { type: "ack", clientId: frame.clientId, message: savedMessage, attachments });
+
+        // Members who blocked the sender never get it; the sender isn't told
+        const outgoing: LoggedFrame = { type: "message", message: savedMessage, attachments };
+        const recipients = await withoutBlockers(
+          members.map((member) => member.id),
+          userId,
+        );
+        for (const recipientId of recipients) {
+          if (recipientId !== userId) await deliver(recipientId, outgoing);
+        }
+        // Mirrored to the sender's other devices
+        await deliver(userId, { ...outgoing, clientId: frame.clientId }, ws);
+        return;
+      }
+
+      case "typing": {
+        if (claimsOtherUser(frame.userId, userId)) {
+          sendError(ws, "SENDER_MISMATCH", "userId does not match the authenticated user");
+          return;
+        }
+
+        const members = await storage.getConversationMembers(frame.conversationId);
+        if (!members.some((member) => member.id === userId)) {
+          sendError(ws, "NOT_A_MEMBER", "Not a member of this conversation");
+          return;
+        }
+
+        const typing: ServerFrame = {
+          type: "typing",
+          conversationId: frame.conversationId,
+          userId,
+          isTyping: frame.isTyping,
+        };
+        const recipients = await withoutBlockers(
+          members.map((member) => member.id),
+          userId,
+        );
+        for (const recipientId of recipients) {
+          if (recipientId !== userId) sendToUser(recipientId, typing);
+        }
+        return;
+      }
+
+      case "delivered":
+      case "read": {
+        // Only recipients can acknowledge a message: members of its
+        // conversation other than the sender.
+        const messages = await storage.getMessagesByIds(frame.messageIds);
+        const memberOf = new Map<number, boolean>();
+        for (const conversationId of Array.from(new Set(messages.map((m) => m.conversationId)))) {
+          memberOf.set(conversationId, await storage.isConversationMember(conversationId, userId));
+        }
+        const received = messages.filter(
+          (message) =>
+            message.senderId !== userId && memberOf.get(message.conversationId),
+        );
+        const ids = received.map((message) => message.id);
+        const changed =
+          frame.type === "delivered"
+            ? await storage.markDelivered(userId, ids)
+            : await storage.markRead(userId, ids);
+
+        const senders = new Map(received.map((m) => [m.id, m.senderId]));
+        for (const receipt of changed) {
+          const senderId = senders.get(receipt.messageId);
+          if (!senderId) continue;
+          await deliver(senderId, {
+            type: "receipt",
+            messageId: receipt.messageId,
+            userId,
+            status: receipt.readAt ? "read" : "delivered",
+            at: receipt.readAt ?? receipt.deliveredAt!,
+          });
+        }
+        return;
+      }
+    }
+  }
+
+  // Lets the HTTP routes push logged frames, e.g. membership changes
+  async function publish(userIds: number[], frame: LoggedFrame) {
+    for (const userId of Array.from(new Set(userIds))) {
+      await deliver(userId, frame);
+    }
+  }
+
+  // Logs the frame for its audience (one user, or everyone when null) and
+  // sends it live, stamped with its sequence number, once every earlier
+  // event has gone out
+  function deliver(userId: number | null, frame: LoggedFrame, except?: WebSocket) {
+    const delivery = delivered.then(async () => {
+      const event = await storage.appendEvent(userId, frame);
+      const sequenced = { ...frame, seq: event.id };
+      if (userId === null) {
+        broadcast(sequenced, except);
+      } else {
+        sendToUser(userId, sequenced, except);
+      }
+    });
+    // A failed append is reported to this caller only
+    delivered = delivery.catch(() => {});
+    return delivery;
+  }
+
+  // Sends the welcome, replays whatever the client missed since `cursor`,
+  // then releases frames that arrived live in the meantime.
+  async function resume(
+    ws: WebSocketClient,
+    userId: number,
+    version: number,
+    cursor: number,
+  ) {
+    const missed = await storage.getEventsSince(userId, cursor, MAX_REPLAY_EVENTS + 1);
+    const stale = missed.length > MAX_REPLAY_EVENTS;
+    // A stale client reloads history, which covers everything up to now
+    let replayedThrough = stale ? await storage.getLatestEventId() : cursor;
+
+    sendNow(ws, {
+      type: "welcome",
+      version,
+      userId,
+      deviceId: ws.deviceId!,
+      cursor: replayedThrough,
+      stale,
+      editWindowMs: MESSAGE_EDIT_WINDOW_MS,
+    });
+
+    if (!stale) {
+      for (const event of missed) {
+        sendNow(ws, { ...(event.payload as LoggedFrame), seq: event.id });
+        replayedThrough = event.id;
+      }
+    }
+
+    const buffered = ws.replayBuffer ?? [];
+    ws.replayBuffer = undefined;
+    for (const frame of buffered) {
+      const seq = "seq" in frame ? frame.seq : undefined;
+      if (seq === undefined || seq > replayedThrough) sendNow(ws, frame);
+    }
+
+    // Whoever blocked this user appears offline to them
+    const hiddenFrom = new Set(await storage.getBlockerIds(userId));
+    sendNow(ws, {
+      type: "presence",
+      onlineUserIds: Array.from(connections.keys()).filter((id) => !hiddenFrom.has(id)),
+    });
+  }
+
+  // Fans out to every connected device of the user
+  function sendToUser(userId: number, frame: ServerFrame, except?: WebSocket) {
+    connections.get(userId)?.forEach((ws) => {
+      if (ws !== except) send(ws, frame);
+    });
+  }
+
+  // Sends to every socket that has completed the handshake
+  function broadcast(frame: ServerFrame, except?: WebSocket) {
+    wss.clients.forEach((client: WebSocketClient) => {
+      if (client !== except && client.protocolVersion) {
+        send(client, frame);
+      }
+    });
+  }
+
+  // Everyone but the users this one has blocked hears about it
+  async function broadcastUserStatus(userId: number, isOnline: boolean) {
+    const hiddenFrom = new Set(await blockedIds(userId));
+    wss.clients.forEach((client: WebSocketClient) => {
+      if (client.protocolVersion && !hiddenFrom.has(client.userId!)) {
+        send(client, { type: "userStatus", userId, isOnline });
+      }
+    });
+  }
+
+  // Tells the viewer's devices how the user's status looks to them now,
+  // after a block or unblock between the two changed it
+  async function refreshPresence(userId: number, viewerId: number) {
+    const hidden = (await blockedIds(userId)).includes(viewerId);
+    sendToUser(viewerId, {
+      type: "userStatus",
+      userId,
+      isOnline: connections.has(userId) && !hidden,
+    });
+  }
+
+  // Users with at least one handshaken socket to this server
+  function onlineUserIds() {
+    return Array.from(connections.keys());
+  }
+
+  // Closes the sockets of ended sessions straight away rather than leaving
+  // them open until they next reconnect
+  function closeSessions(sessionIds: string[], reason = "Session revoked") {
+    const ended = new Set(sessionIds);
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.sessionId && ended.has(ws.sessionId)) ws.close(1008, reason);
+    });
+  }
+
+  // Closes every socket the user has open, e.g. once they are suspended
+  function disconnectUser(userId: number, reason: string) {
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.userId === userId) ws.close(1008, reason);
+    });
+  }
+
+  return { wss, publish, closeSessions, refreshPresence, disconnectUser, onlineUserIds };
+}
+
+export type Realtime = ReturnType<typeof setupWebSocket>;
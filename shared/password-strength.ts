@@ -0,0 +1,20 @@
+// A rough estimate, in bits, of how hard a password is to guess. Each
+// character is worth log2 of the alphabet the password draws on, except
+// ones that repeat or continue a run ("aaa", "1234", "abc"), worth one bit.
+// Shared so the strength meter agrees with what the server enforces.
+export function estimateEntropyBits(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/[0-9]/.test(password)) pool += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) pool += 33;
+  if (pool === 0) return 0;
+
+  const perChar = Math.log2(pool);
+  const codes = Array.from(password, (char) => char.codePointAt(0)!);
+  const bits = codes.reduce(
+    (total, code, i) => total + (i > 0 && Math.abs(code - codes[i - 1]) <= 1 ? 1 : perChar),
+    0,
+  );
+  return Math.floor(bits);
+}
@@ -0,0 +1,247 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import { attachments, messageEnvelopeSchema, messages } from "./schema";
+
+// Versions this build can speak, newest last. The client lists what it
+// supports in its `hello` frame and the server picks the highest version
+// both sides understand.
+export const PROTOCOL_VERSIONS = [7] as const;
+export const PROTOCOL_VERSION = PROTOCOL_VERSIONS[PROTOCOL_VERSIONS.length - 1];
+
+export const errorCodes = [
+  "HANDSHAKE_REQUIRED",
+  "UNSUPPORTED_VERSION",
+  "INVALID_FRAME",
+  "SENDER_MISMATCH",
+  "NOT_A_MEMBER",
+  "ENCRYPTION_REQUIRED",
+  "STALE_SENDER_KEY",
+  "MESSAGE_FAILED",
+] as const;
+
+export type ErrorCode = (typeof errorCodes)[number];
+
+// Dates travel as ISO strings, so coerce them back on the receiving side
+export const messageSchema = createSelectSchema(messages, {
+  createdAt: z.coerce.date().nullable(),
+  expiresAt: z.coerce.date().nullable(),
+  editedAt: z.coerce.date().nullable(),
+  deletedAt: z.coerce.date().nullable(),
+  envelope: messageEnvelopeSchema.nullable(),
+});
+
+export const attachmentSchema = createSelectSchema(attachments, {
+  createdAt: z.coerce.date(),
+});
+
+/* Client → server */
+
+export const helloFrameSchema = z.object({
+  type: z.literal("hello"),
+  versions: z.array(z.number().int().positive()).nonempty(),
+  // Stable per browser/install; the server assigns one when omitted
+  deviceId: z.string().min(1).max(64).optional(),
+  // Last `seq` seen before a reconnect; the server replays anything newer
+  cursor: z.number().int().nonnegative().optional(),
+});
+
+export const sendMessageFrameSchema = z.object({
+  type: z.literal("message"),
+  // Temporary id chosen by the client to correlate status updates
+  clientId: z.string().min(1).max(64),
+  conversationId: z.number().int().positive(),
+  // Base64 ciphertext when `envelope` is present
+  content: z.string().min(1),
+  envelope: messageEnvelopeSchema.optional(),
+  imageUrl: z.string().nullish(),
+  // Uploaded files to send with the message; each must have passed the scan
+  attachmentIds: z.array(z.string().uuid()).max(10).optional(),
+  // Accepted only so it can be checked against the authenticated user
+  senderId: z.number().int().optional(),
+});
+
+export const typingFrameSchema = z.object({
+  type: z.literal("typing"),
+  conversationId: z.number().int().positive(),
+  isTyping: z.boolean(),
+  // Accepted only so it can be checked against the authenticated user
+  userId: z.number().int().optional(),
+});
+
+const messageIdsSchema = z.array(z.number().int().positive()).min(1).max(100);
+
+// Sent by the recipient's device as soon as it receives the messages
+export const deliveredFrameSchema = z.object({
+  type: z.literal("delivered"),
+  messageIds: messageIdsSchema,
+});
+
+// Sent when the recipient actually has the conversation on screen
+export const readFrameSchema = z.object({
+  type: z.literal("read"),
+  messageIds: messageIdsSchema,
+});
+
+export const clientFrameSchema = z.discriminatedUnion("type", [
+  helloFrameSchema,
+  sendMessageFrameSchema,
+  typingFrameSchema,
+  deliveredFrameSchema,
+  readFrameSchema,
+]);
+
+/* Server → client */
+
+// Frames that are persisted in the user's event log carry their position in
+// it, so a reconnecting client can resume from the last one it saw.
+const sequenced = {
+  seq: z.number().int().optional(),
+};
+
+export const welcomeFrameSchema = z.object({
+  type: z.literal("welcome"),
+  version: z.number().int(),
+  userId: z.number().int(),
+  deviceId: z.string(),
+  // Position this connection resumes from: the client's own cursor, or the
+  // end of the log for a fresh or stale client
+  cursor: z.number().int(),
+  // Set when the client's cursor is too far behind to replay; it should
+  // reload history over REST and continue from `cursor`
+  stale: z.boolean(),
+  // How long after sending a message its author may edit or delete it
+  editWindowMs: z.number().int(),
+});
+
+export const messageFrameSchema = z.object({
+  type: z.literal("message"),
+  message: messageSchema,
+  attachments: z.array(attachmentSchema).default([]),
+  // Present on the sender's own copy so any of their devices can settle a
+  // pending send whose ack was lost
+  clientId: z.string().optional(),
+  ...sequenced,
+});
+
+// Confirms a sent message was persisted, mapping the client's temporary id
+// to the stored message
+export const ackFrameSchema = z.object({
+  type: z.literal("ack"),
+  clientId: z.string(),
+  message: messageSchema,
+  attachments: z.array(attachmentSchema).default([]),
+});
+
+// The author changed a message; carries the new version
+export const messageEditedFrameSchema = z.object({
+  type: z.literal("messageEdited"),
+  message: messageSchema,
+  ...sequenced,
+});
+
+// The author deleted a message; carries its tombstone
+export const messageDeletedFrameSchema = z.object({
+  type: z.literal("messageDeleted"),
+  message: messageSchema,
+  ...sequenced,
+});
+
+export const receiptStatuses = ["delivered", "read"] as const;
+
+export const receiptFrameSchema = z.object({
+  type: z.literal("receipt"),
+  messageId: z.number().int(),
+  userId: z.number().int(),
+  status: z.enum(receiptStatuses),
+  at: z.coerce.date(),
+  ...sequenced,
+});
+
+export const userTypingFrameSchema = z.object({
+  type: z.literal("typing"),
+  conversationId: z.number().int(),
+  userId: z.number().int(),
+  isTyping: z.boolean(),
+});
+
+export const membershipActions = ["joined", "left", "removed"] as const;
+
+// Someone joined, left or was removed from a conversation. Sent to its
+// members and to the user concerned, so every sidebar and member list stays
+// current.
+export const membershipFrameSchema = z.object({
+  type: z.literal("membership"),
+  conversationId: z.number().int(),
+  userId: z.number().int(),
+  action: z.enum(membershipActions),
+  ...sequenced,
+});
+
+// A member changed how long new messages in the conversation last
+export const disappearingTimerFrameSchema = z.object({
+  type: z.literal("disappearingTimer"),
+  conversationId: z.number().int(),
+  userId: z.number().int(),
+  seconds: z.number().int(),
+  ...sequenced,
+});
+
+// Messages whose timer ran out; clients drop them from view and cache
+export const messageExpiredFrameSchema = z.object({
+  type: z.literal("messageExpired"),
+  conversationId: z.number().int(),
+  messageIds: z.array(z.number().int()),
+  ...sequenced,
+});
+
+export const userStatusFrameSchema = z.object({
+  type: z.literal("userStatus"),
+  userId: z.number().int(),
+  isOnline: z.boolean(),
+});
+
+// Snapshot of who is online, sent after the handshake and any replay
+export const presenceFrameSchema = z.object({
+  type: z.literal("presence"),
+  onlineUserIds: z.array(z.number().int()),
+});
+
+export const errorFrameSchema = z.object({
+  type: z.literal("error"),
+  code: z.enum(errorCodes),
+  message: z.string(),
+  // The rejected message, when the error is about one
+  clientId: z.string().optional(),
+});
+
+export const serverFrameSchema = z.discriminatedUnion("type", [
+  welcomeFrameSchema,
+  messageFrameSchema,
+  ackFrameSchema,
+  messageEditedFrameSchema,
+  messageDeletedFrameSchema,
+  receiptFrameSchema,
+  userTypingFrameSchema,
+  membershipFrameSchema,
+  disappearingTimerFrameSchema,
+  messageExpiredFrameSchema,
+  userStatusFrameSchema,
+  presenceFrameSchema,
+  errorFrameSchema,
+]);
+
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+export type ServerFrame = z.infer<typeof serverFrameSchema>;
+export type SendMessageFrame = z.infer<typeof sendMessageFrameSchema>;
+export type ReceiptStatus = (typeof receiptStatuses)[number];
+export type MembershipAction = (typeof membershipActions)[number];
+
+export type ServerFrameType = ServerFrame["type"];
+export type ServerFrameOf<T extends ServerFrameType> = Extract<ServerFrame, { type: T }>;
+
+export function negotiateVersion(offered: readonly number[]): number | null {
+  const common = offered.filter((v) =>
+    (PROTOCOL_VERSIONS as readonly number[]).includes(v),
+  );
+  return common.length ? Math.max(...common) : null;
+}
@@ -1,4 +1,16 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  timestamp,
+  boolean,
+  varchar,
+  json,
+  jsonb,
+  index,
+  primaryKey,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,9 +18,16 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  email: text("email"),
+  isVerified: boolean("is_verified").default(false),
   avatarUrl: text("avatar_url").default("https://images.unsplash.com/photo-1708860028064-3303a016e88f"),
   isOnline: boolean("is_online").default(false),
   lastSeen: timestamp("last_seen").defaultNow(),
+  // Moderators see the report queue and can warn or suspend accounts
+  isAdmin: boolean("is_admin").notNull().default(false),
+  // Suspended accounts can't sign in; a null end means until lifted
+  suspendedAt: timestamp("suspended_at"),
+  suspendedUntil: timestamp("suspended_until"),
 });
 
 export const verificationCodes = pgTable("verification_codes", {
@@ -16,21 +35,549 @@ export const verificationCodes = pgTable("verification_codes", {
   userId: integer("user_id").references(() => users.id),
   code: text("code").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
+  // Wrong guesses so far; the code is thrown away after a few
+  attempts: integer("attempts").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const messages = pgTable("messages", {
+// Long-term identity of an account, used for safety numbers. Device keys are
+// only trusted once signed with it, so the server can't slip in a device.
+export const identityKeys = pgTable("identity_keys", {
+  userId: integer("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Raw Ed25519 public key, base64
+  publicKey: text("public_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Public half of each browser's key pair; the private half never leaves the
+// device. Keyed by device so every device of a user can decrypt.
+export const deviceKeys = pgTable(
+  "device_keys",
+  {
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    deviceId: text("device_id").notNull(),
+    // Raw X25519 public key, base64
+    publicKey: text("public_key").notNull(),
+    // Identity key signature over the device key; null until the device has
+    // been linked to the account's identity
+    signature: text("signature"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.deviceId] })],
+);
+
+const base64 = z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "Expected base64");
+
+// A symmetric key wrapped for one recipient device using ECDH between the
+// sending and receiving device keys
+const wrappedKeySchema = z.object({
+  userId: z.number().int().positive(),
+  deviceId: z.string().min(1).max(64),
+  iv: base64,
+  wrappedKey: base64,
+});
+
+// How an end-to-end encrypted message can be opened; `messages.content`
+// holds the ciphertext and `iv` is its IV.
+export const messageEnvelopeSchema = z.discriminatedUnion("v", [
+  // Direct messages: a random message key wrapped for each recipient device
+  z.object({
+    v: z.literal(1),
+    senderDeviceId: z.string().min(1).max(64),
+    iv: base64,
+    keys: z.array(wrappedKeySchema).min(1).max(100),
+  }),
+  // Group messages: encrypted with the sending device's current sender key,
+  // distributed to members separately
+  z.object({
+    v: z.literal(2),
+    senderDeviceId: z.string().min(1).max(64),
+    keyId: z.string().uuid(),
+    iv: base64,
+  }),
+]);
+
+export type MessageEnvelope = z.infer<typeof messageEnvelopeSchema>;
+
+export const conversationTypes = ["direct", "group"] as const;
+
+// Disappearing message timers in seconds; 0 keeps messages forever
+export const disappearingTimers = [0, 5 * 60, 60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60] as const;
+
+export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
-  content: text("content").notNull(),
-  senderId: integer("sender_id").references(() => users.id),
-  receiverId: integer("receiver_id").references(() => users.id),
-  imageUrl: text("image_url"),
-  createdAt: timestamp("created_at").defaultNow(),
+  type: text("type", { enum: conversationTypes }).notNull(),
+  // Group rooms only; a direct conversation is shown as the other member
+  name: text("name"),
+  // "<lower user id>:<higher user id>" for direct conversations, so each
+  // pair of users has at most one
+  directKey: text("direct_key").unique(),
+  createdBy: integer("created_by").references(() => users.id),
+  // Bumped on every membership change; group messages must be sealed with a
+  // sender key from the current epoch, which forces rotation
+  epoch: integer("epoch").notNull().default(0),
+  // Seconds new messages live for, one of `disappearingTimers`
+  disappearAfter: integer("disappear_after").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const conversationMembers = pgTable(
+  "conversation_members",
+  {
+    conversationId: integer("conversation_id")
+      .notNull()
+      .references(() => conversations.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.conversationId, table.userId] }),
+    index("IDX_conversation_members_user_id").on(table.userId),
+  ],
+);
+
+// Members the group's creator removed; they can't join again
+export const conversationBans = pgTable(
+  "conversation_bans",
+  {
+    conversationId: integer("conversation_id")
+      .notNull()
+      .references(() => conversations.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    bannedBy: integer("banned_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.conversationId, table.userId] }),
+    index("IDX_conversation_bans_user_id").on(table.userId),
+  ],
+);
+
+// A device's key for sending to a group during one membership epoch
+export const senderKeys = pgTable("sender_keys", {
+  keyId: text("key_id").primaryKey(),
+  conversationId: integer("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  deviceId: text("device_id").notNull(),
+  epoch: integer("epoch").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A sender key wrapped for one member device
+export const senderKeyDistributions = pgTable(
+  "sender_key_distributions",
+  {
+    keyId: text("key_id")
+      .notNull()
+      .references(() => senderKeys.keyId, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    deviceId: text("device_id").notNull(),
+    iv: text("iv").notNull(),
+    wrappedKey: text("wrapped_key").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.keyId, table.userId, table.deviceId] })],
+);
+
+export const messages = pgTable(
+  "messages",
+  {
+    id: serial("id").primaryKey(),
+    content: text("content").notNull(),
+    senderId: integer("sender_id").references(() => users.id),
+    conversationId: integer("conversation_id")
+      .notNull()
+      .references(() => conversations.id, { onDelete: "cascade" }),
+    // Set for encrypted messages, whose `content` is then base64 ciphertext
+    envelope: jsonb("envelope").$type<MessageEnvelope>(),
+    imageUrl: text("image_url"),
+    createdAt: timestamp("created_at").defaultNow(),
+    // Deleted everywhere once passed; null for messages that don't disappear
+    expiresAt: timestamp("expires_at"),
+    editedAt: timestamp("edited_at"),
+    // Set when the author deleted it; the row stays as a tombstone with its
+    // content and envelope cleared
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => [
+    index("IDX_messages_conversation_id").on(table.conversationId, table.id),
+    index("IDX_messages_expires_at").on(table.expiresAt),
+    index("IDX_messages_image_url").on(table.imageUrl),
+  ],
+);
+
+export const imageTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+
+// An uploaded picture, already stripped of metadata. The file and its
+// thumbnail live in the blob store under `id` and `<id>-thumbnail`; messages
+// point at it through `imageUrl`.
+export const images = pgTable("images", {
+  id: text("id").primaryKey(),
+  conversationId: integer("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  uploaderId: integer("uploader_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  contentType: text("content_type", { enum: imageTypes }).notNull(),
+  size: integer("size").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Files other than pictures are kept as uploaded, so each is held in
+// quarantine until the virus scanner passes it. Only clean files can be
+// attached to a message; anything left without one is swept.
+export const attachmentStatuses = ["quarantined", "clean", "infected"] as const;
+
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: text("id").primaryKey(),
+    conversationId: integer("conversation_id")
+      .notNull()
+      .references(() => conversations.id, { onDelete: "cascade" }),
+    uploaderId: integer("uploader_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Null until sent, and again once the message is deleted or expires
+    messageId: integer("message_id").references(() => messages.id, { onDelete: "set null" }),
+    name: text("name").notNull(),
+    contentType: text("content_type").notNull(),
+    size: integer("size").notNull(),
+    status: text("status", { enum: attachmentStatuses }).notNull().default("quarantined"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_attachments_message_id").on(table.messageId)],
+);
+
+// Earlier versions of an edited message, each as it was before the edit
+export const messageEdits = pgTable(
+  "message_edits",
+  {
+    id: serial("id").primaryKey(),
+    messageId: integer("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    envelope: jsonb("envelope").$type<MessageEnvelope>(),
+    // When this version was replaced
+    editedAt: timestamp("edited_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_message_edits_message_id").on(table.messageId)],
+);
+
+// One row per recipient of a message; null timestamps mean the event has
+// not happened yet.
+export const messageReceipts = pgTable(
+  "message_receipts",
+  {
+    messageId: integer("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    deliveredAt: timestamp("delivered_at"),
+    readAt: timestamp("read_at"),
+  },
+  (table) => [primaryKey({ columns: [table.messageId, table.userId] })],
+);
+
+// Outbox of server frames per user. The serial id doubles as the resync
+// cursor clients send after reconnecting; a null userId addresses everyone.
+export const userEvents = pgTable(
+  "user_events",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+    payload: jsonb("payload").notNull(),
+    // The message the frame carries, if any, so its frames can be found when
+    // it is deleted or expires. No foreign key: a receipt may be logged just
+    // after its message expired.
+    messageId: integer("message_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_user_events_user_id").on(table.userId, table.id),
+    index("IDX_user_events_message_id").on(table.messageId),
+  ],
+);
+
+// An authenticator app enrolled for two-factor sign-in. It is only asked
+// for at login once confirmed with a first code. Kept apart from `users`,
+// which is sent to the client.
+export const totpCredentials = pgTable("totp_credentials", {
+  userId: integer("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Base32, as shown to authenticator apps
+  secret: text("secret").notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+  // Time step of the last accepted code, so no code works twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes for signing in without the authenticator; only hashes
+// are stored
+export const recoveryCodes = pgTable(
+  "recovery_codes",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    usedAt: timestamp("used_at"),
+  },
+  (table) => [index("IDX_recovery_codes_user_id").on(table.userId)],
+);
+
+// A WebAuthn credential for passwordless sign-in. Several per account, each
+// named by its owner.
+export const passkeys = pgTable(
+  "passkeys",
+  {
+    // Credential id, base64url
+    id: text("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    // COSE public key, base64url
+    publicKey: text("public_key").notNull(),
+    // Signature counter reported by the authenticator, to spot clones
+    counter: integer("counter").notNull().default(0),
+    transports: jsonb("transports").$type<string[]>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+  },
+  (table) => [index("IDX_passkeys_user_id").on(table.userId)],
+);
+
+// Single-use tokens for resetting a forgotten password; only hashes are
+// stored, and only the latest one per user works
+export const passwordResetTokens = pgTable(
+  "password_reset_tokens",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_password_reset_tokens_user_id").on(table.userId)],
+);
+
+// Where each signed-in session came from, so owners can see their devices
+// and sign them out. The session itself lives in the session store.
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    id: serial("id").primaryKey(),
+    // The session store's id; never sent to clients
+    sessionId: text("session_id").notNull().unique(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    userAgent: text("user_agent"),
+    ip: text("ip").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_user_sessions_user_id").on(table.userId)],
+);
+
+// Blocking drops the other user's messages and typing and hides this user's
+// presence from them; muting only silences notifications for what they send
+export const blockTypes = ["block", "mute"] as const;
+
+export const blocks = pgTable(
+  "blocks",
+  {
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    blockedUserId: integer("blocked_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: text("type", { enum: blockTypes }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.blockedUserId] }),
+    index("IDX_blocks_blocked_user_id").on(table.blockedUserId),
+  ],
+);
+
+export const reportReasons = [
+  "spam",
+  "harassment",
+  "hate",
+  "sexual",
+  "violence",
+  "impersonation",
+  "other",
+] as const;
+export const reportStatuses = ["open", "resolved"] as const;
+export const reportResolutions = ["dismissed", "warned", "suspended"] as const;
+
+// What a report was about, as it stood when it was filed, so edits,
+// deletion and disappearing timers don't erase the evidence
+export type ReportSnapshot = {
+  user: { username: string; avatarUrl: string | null };
+  message?: {
+    id: number;
+    conversationId: number;
+    sentAt: string;
+    editedAt: string | null;
+    // The server only holds ciphertext of encrypted messages, so for those
+    // this is the text as the reporter's device decrypted it
+    content: string;
+    encrypted: boolean;
+    imageUrl: string | null;
+    attachments: { name: string; contentType: string; size: number }[];
+  };
+};
+
+// A user's complaint about another user, or about one message they sent
+export const reports = pgTable(
+  "reports",
+  {
+    id: serial("id").primaryKey(),
+    reporterId: integer("reporter_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    reportedUserId: integer("reported_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Null for reports about the user as a whole
+    messageId: integer("message_id").references(() => messages.id, { onDelete: "set null" }),
+    reason: text("reason", { enum: reportReasons }).notNull(),
+    details: text("details"),
+    snapshot: jsonb("snapshot").$type<ReportSnapshot>().notNull(),
+    status: text("status", { enum: reportStatuses }).notNull().default("open"),
+    resolution: text("resolution", { enum: reportResolutions }),
+    resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+    resolvedAt: timestamp("resolved_at"),
+    moderatorNote: text("moderator_note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_reports_status").on(table.status, table.id),
+    index("IDX_reports_reported_user_id").on(table.reportedUserId),
+  ],
+);
+
+export const moderationActionTypes = ["warn", "suspend", "unsuspend"] as const;
+
+// Audit trail of what moderators did to accounts
+export const moderationActions = pgTable(
+  "moderation_actions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    moderatorId: integer("moderator_id").references(() => users.id, { onDelete: "set null" }),
+    reportId: integer("report_id").references(() => reports.id, { onDelete: "set null" }),
+    type: text("type", { enum: moderationActionTypes }).notNull(),
+    reason: text("reason").notNull(),
+    // End of a suspension; null for warnings and open-ended suspensions
+    until: timestamp("until"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_moderation_actions_user_id").on(table.userId)],
+);
+
+export const authEventTypes = [
+  "login_succeeded",
+  "login_failed",
+  "login_throttled",
+  "account_locked",
+  "logout",
+  "second_factor_failed",
+  "recovery_code_used",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "passkey_added",
+  "passkey_removed",
+  "session_revoked",
+  "password_changed",
+  "password_reset_requested",
+  "password_reset",
+] as const;
+
+// Audit trail of sign-ins. Login rate limits and lockouts are worked out from
+// the recent failures recorded here, so they survive restarts.
+export const authEvents = pgTable(
+  "auth_events",
+  {
+    id: serial("id").primaryKey(),
+    type: text("type", { enum: authEventTypes }).notNull(),
+    // As typed at login, so attempts on unknown accounts are tracked too
+    username: text("username").notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+    ip: text("ip").notNull(),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_auth_events_username").on(table.username, table.createdAt),
+    index("IDX_auth_events_ip").on(table.ip, table.createdAt),
+  ],
+);
+
+// Owned by connect-pg-simple; declared here so `db:push` creates it and
+// never drops it as an unknown table.
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_sessions_expire").on(table.expire)],
+);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  email: true,
+});
+
+// Length and strength rules are configured on the server, which checks them
+// after parsing; this only caps the size
+const newPasswordSchema = z.string().min(1).max(128);
+
+// Strict, so nothing beyond these fields reaches the new account
+export const registerUserSchema = insertUserSchema
+  .extend({
+    email: z.string().email(),
+    password: newPasswordSchema,
+  })
+  .strict();
+
+export const loginSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
 });
 
 export const verifyOtpSchema = z.object({
@@ -38,15 +585,300 @@ export const verifyOtpSchema = z.object({
   code: z.string().length(6),
 });
 
+export const resendOtpSchema = verifyOtpSchema.pick({ username: true });
+
+export const forgotPasswordSchema = resendOtpSchema;
+
+export const resetPasswordSchema = z
+  .object({
+    token: z.string().trim().min(1).max(128),
+    password: newPasswordSchema,
+  })
+  .strict();
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string(),
+    newPassword: newPasswordSchema,
+  })
+  .strict();
+
+export const totpCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// The second login step takes either an authenticator code or a recovery code
+export const secondFactorSchema = z.union([
+  totpCodeSchema,
+  z.object({ recoveryCode: z.string().min(1).max(32) }),
+]);
+
+export const namePasskeySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+// The browser's attestation is checked by the WebAuthn library, not here
+export const registerPasskeySchema = namePasskeySchema.extend({
+  response: z.record(z.unknown()),
+});
+
+// Adding a passkey asks for the password again, and for a code when
+// two-factor is on, since the passkey will sign in without either
+export const passkeyReauthSchema = z.object({
+  password: z.string(),
+  code: totpCodeSchema.shape.code.optional(),
+});
+
+export const passkeyLoginSchema = z.object({
+  response: z.record(z.unknown()),
+});
+
+// Turning two-factor off needs the password and a current code or recovery code
+export const disableTwoFactorSchema = z.intersection(
+  z.object({ password: z.string() }),
+  secondFactorSchema,
+);
+
+export const messagePageQuerySchema = z.object({
+  // Id of the oldest message already loaded; omit for the newest page
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const createConversationSchema = z.discriminatedUnion("type", [
+  // Returns the existing conversation when the pair already has one
+  z.object({
+    type: z.literal("direct"),
+    userId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("group"),
+    name: z.string().trim().min(1).max(64),
+    // Added alongside the creator
+    memberIds: z.array(z.number().int().positive()).max(100).default([]),
+  }),
+]);
+
+export const registerIdentityKeySchema = z.object({
+  // 32-byte raw Ed25519 key
+  publicKey: base64.length(44),
+});
+
+// 64-byte Ed25519 signature
+const signatureSchema = base64.length(88);
+
+export const registerDeviceKeySchema = z.object({
+  // 32-byte raw X25519 key
+  publicKey: base64.length(44),
+  signature: signatureSchema.nullish(),
+});
+
+export const signDeviceKeySchema = z.object({
+  signature: signatureSchema,
+});
+
+export const createSenderKeySchema = z.object({
+  keyId: z.string().uuid(),
+  deviceId: z.string().min(1).max(64),
+  // The membership epoch the key was created for
+  epoch: z.number().int().nonnegative(),
+  distributions: z.array(wrappedKeySchema).min(1).max(1000),
+});
+
+// Replacement content, sealed the same way as a new message
+export const editMessageSchema = z.object({
+  content: z.string().min(1),
+  envelope: messageEnvelopeSchema,
+});
+
+export const setBlockSchema = z.object({
+  type: z.enum(blockTypes),
+});
+
+const reportDetailsSchema = z.string().trim().max(1000).optional();
+
+export const createReportSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("message"),
+      messageId: z.number().int().positive(),
+      reason: z.enum(reportReasons),
+      details: reportDetailsSchema,
+      // The reporter's decrypted copy; required for encrypted messages
+      content: z.string().max(10000).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("user"),
+      userId: z.number().int().positive(),
+      reason: z.enum(reportReasons),
+      details: reportDetailsSchema,
+    })
+    .strict(),
+]);
+
+export const reportQuerySchema = z.object({
+  status: z.enum(reportStatuses).optional(),
+  reason: z.enum(reportReasons).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  // Id of the oldest report already loaded; omit for the newest page
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const resolveReportSchema = z
+  .object({ note: z.string().trim().max(1000).optional() })
+  .strict();
+
+export const warnUserSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(1000),
+    // The report this settles, if any
+    reportId: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const suspendUserSchema = warnUserSchema
+  .extend({
+    // Omitted or null suspends until lifted
+    days: z.number().int().min(1).max(3650).nullish(),
+  })
+  .strict();
+
+export const setDisappearingTimerSchema = z.object({
+  seconds: z
+    .number()
+    .int()
+    .refine((seconds) => (disappearingTimers as readonly number[]).includes(seconds), {
+      message: "Unsupported disappearing message timer",
+    }),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  type: true,
+  name: true,
+  directKey: true,
+  createdBy: true,
+});
+
 export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
   senderId: true,
-  receiverId: true,
+  conversationId: true,
   imageUrl: true,
+  expiresAt: true,
+}).extend({
+  envelope: messageEnvelopeSchema.nullish(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginData = z.infer<typeof loginSchema>;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type PasswordPolicy = { minLength: number; minEntropyBits: number };
+export type Passkey = typeof passkeys.$inferSelect;
+export type InsertPasskey = typeof passkeys.$inferInsert;
+// What the owner sees of a passkey
+export type PasskeySummary = Pick<Passkey, "id" | "name" | "createdAt" | "lastUsedAt">;
+export type NamePasskey = z.infer<typeof namePasskeySchema>;
+export type PasskeyReauth = z.infer<typeof passkeyReauthSchema>;
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+export type TotpCode = z.infer<typeof totpCodeSchema>;
+export type SecondFactor = z.infer<typeof secondFactorSchema>;
+export type DisableTwoFactor = z.infer<typeof disableTwoFactorSchema>;
+// Where the signed-in user stands with two-factor sign-in
+export type TwoFactorStatus = { enabled: boolean; recoveryCodesLeft: number };
+// A pending enrolment, for the QR code
+export type TwoFactorSetup = { secret: string; uri: string };
+// Answer to a correct password when a second factor is still needed
+export type SecondFactorRequired = { twoFactorRequired: true };
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+// A signed-in device as its owner sees it
+export type SessionSummary = Omit<UserSession, "sessionId" | "userId"> & { current: boolean };
+export type Block = typeof blocks.$inferSelect;
+export type BlockType = (typeof blockTypes)[number];
+export type SetBlock = z.infer<typeof setBlockSchema>;
+// A block or mute as listed to its owner, with who it is about
+export type BlockSummary = Pick<Block, "type" | "createdAt"> & { user: PublicUser };
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = typeof reports.$inferInsert;
+export type ReportReason = (typeof reportReasons)[number];
+export type ReportStatus = (typeof reportStatuses)[number];
+export type ReportResolution = (typeof reportResolutions)[number];
+export type CreateReport = z.infer<typeof createReportSchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ResolveReport = z.infer<typeof resolveReportSchema>;
+export type WarnUser = z.infer<typeof warnUserSchema>;
+export type SuspendUser = z.infer<typeof suspendUserSchema>;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type InsertModerationAction = typeof moderationActions.$inferInsert;
+export type ModerationActionType = (typeof moderationActionTypes)[number];
+// A reported account as moderators see it
+export type ModeratedUser = PublicUser &
+  Pick<User, "suspendedUntil"> & { suspended: boolean; warnings: number };
+export type ReportSummary = Report & { reporter: PublicUser; reportedUser: ModeratedUser };
+// Newest first; nextCursor is the `before` value for the next (older)
+// page, or null when there is nothing older
+export type ReportPage = { reports: ReportSummary[]; nextCursor: number | null };
+export type AuthEvent = typeof authEvents.$inferSelect;
+export type InsertAuthEvent = typeof authEvents.$inferInsert;
+export type AuthEventType = (typeof authEventTypes)[number];
 export type User = typeof users.$inferSelect;
+// What other users may see of an account
+export type PublicUser = Pick<User, "id" | "username" | "avatarUrl" | "isOnline" | "lastSeen">;
+// What the signed-in user gets back about their own account
+export type SelfUser = Omit<User, "password">;
+export type IdentityKey = typeof identityKeys.$inferSelect;
+export type DeviceKey = typeof deviceKeys.$inferSelect;
+export type RegisterIdentityKey = z.infer<typeof registerIdentityKeySchema>;
+export type RegisterDeviceKey = z.infer<typeof registerDeviceKeySchema>;
+export type SignDeviceKey = z.infer<typeof signDeviceKeySchema>;
+// Everything needed to encrypt to, and verify, one account
+export type KeyBundle = { identityKey: IdentityKey | null; devices: DeviceKey[] };
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationType = (typeof conversationTypes)[number];
+export type ConversationMember = typeof conversationMembers.$inferSelect;
+export type SenderKey = typeof senderKeys.$inferSelect;
+export type SenderKeyDistribution = typeof senderKeyDistributions.$inferSelect;
+export type SetDisappearingTimer = z.infer<typeof setDisappearingTimerSchema>;
+export type CreateSenderKey = z.infer<typeof createSenderKeySchema>;
+export type WrappedKey = z.infer<typeof wrappedKeySchema>;
+// A sender key as fetched by one recipient device
+export type SenderKeyForDevice = SenderKey & Pick<SenderKeyDistribution, "iv" | "wrappedKey">;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type CreateConversation = z.infer<typeof createConversationSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
-export type VerifyOtp = z.infer<typeof verifyOtpSchema>;
\ No newline at end of file
+export type MessageReceipt = typeof messageReceipts.$inferSelect;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type Image = typeof images.$inferSelect;
+export type InsertImage = typeof images.$inferInsert;
+export type ImageType = (typeof imageTypes)[number];
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+export type AttachmentStatus = (typeof attachmentStatuses)[number];
+export type EditMessage = z.infer<typeof editMessageSchema>;
+export type MessageWithReceipts = Message & {
+  receipts: MessageReceipt[];
+  attachments: Attachment[];
+};
+export type UserEvent = typeof userEvents.$inferSelect;
+// A conversation as listed in the sidebar; lastMessage is only filled in
+// for conversations the caller belongs to
+export type ConversationSummary = Conversation & {
+  members: PublicUser[];
+  lastMessage: Message | null;
+};
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+// Messages oldest first; nextCursor is the `before` value for the next
+// (older) page, or null when there is nothing older
+export type MessagePage = {
+  messages: MessageWithReceipts[];
+  nextCursor: number | null;
+};
+export type VerifyOtp = z.infer<typeof verifyOtpSchema>;
+export type ResendOtp = z.infer<typeof resendOtpSchema>;
\ No newline at end of file